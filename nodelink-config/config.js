@@ -37,7 +37,7 @@ export default {
   zombieThresholdMs: 60000,
   enableHoloTracks: false,
   enableTrackStreamEndpoint: false,
-  enableLoadStreamEndpoint: false,
+  enableLoadStreamEndpoint: true, // loudness analysis reads decoded audio through it
   resolveExternalLinks: false,
   fetchChannelInfo: false,
   audio: {
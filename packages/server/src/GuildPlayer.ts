@@ -1,23 +1,109 @@
 import { eq } from 'drizzle-orm';
 import { DestroyReasons, type Player, SourceNames, Track, type TrackEndEvent } from 'hoshimi';
-import { PlaybackCursor } from './PlaybackCursor';
-import type { LoopMode, QueuedSong, QueueState } from './shared';
+import { buildTrackFilters } from './lib/audioFilters';
+import { pickAutoplaySong } from './lib/autoplay';
+import {
+  isMarkedUnavailable,
+  recordPlaybackFailure,
+  recordPlaybackSuccess,
+} from './lib/availability';
+import { fairOrder, fairRounds } from './lib/fairQueue';
+import { finishPlayHistoryEntry, startPlayHistoryEntry } from './lib/playHistory';
+import { getSavedSession, type PlayerSnapshot, savePlayerSnapshot } from './lib/playerSnapshots';
+import { smartShuffleKeys } from './lib/smartShuffle';
+import { getMasterVolume } from './lib/volume';
+import { type BufferIndexMap, PlaybackCursor, type SpreadKeys } from './PlaybackCursor';
+import type {
+  LoopMode,
+  PauseReason,
+  QueuedSong,
+  QueueList,
+  QueueState,
+  SleepAction,
+  SleepTimer,
+} from './shared';
+import { filtersPlaybackRate, playbackBoost } from './shared';
 import { db, tables } from './shared/db';
 import { logger } from './shared/logger';
 import { broadcastQueueUpdate, getHoshimi } from './startDiscord';
 
+/**
+ * The player as it was before a clear or queue replacement. A replacement
+ * also keeps the song that took over, once it has started.
+ */
+interface UndoStep {
+  kind: 'clear' | 'replace';
+  snapshot: PlayerSnapshot;
+  queueIndex: number | null;
+  replacedBy: QueuedSong | null;
+}
+
 export class GuildPlayer {
   private static readonly MAX_CONSECUTIVE_FAILURES = 3;
+  private static readonly MAX_PREVIOUS_SONGS = 50;
+  private static readonly MAX_UNDO_STEPS = 10;
+  // Further into a track than this, previous() restarts it instead of going back.
+  private static readonly PREVIOUS_RESTART_THRESHOLD_MS = 3_000;
+  private static readonly FADE_STEP_MS = 100;
+  // Skip/stop/pause fade for at most this long, so the controls stay snappy.
+  private static readonly MAX_CONTROL_FADE_MS = 2_000;
+  // A sleep timer with fadeOut set starts fading this long before it fires.
+  private static readonly SLEEP_FADE_MS = 8_000;
 
   private queue: PlaybackCursor<QueuedSong> = new PlaybackCursor();
   private priorityQueue: QueuedSong[] = [];
   private currentSong: QueuedSong | null = null;
+  // Buffer index in `queue` the current track came from; null for Up Next
+  // tracks and anything whose queue has since been cleared or replaced.
+  private currentQueueIndex: number | null = null;
+  // Tracks played before the current one, most recent last, for previous().
+  private previousSongs: { song: QueuedSong; queueIndex: number | null }[] = [];
+  // Undo steps for clears and queue replacements, newest last.
+  private undoStack: UndoStep[] = [];
   private loopMode: LoopMode = 'off';
+  private autoplay = false;
+  // Play Up Next round-robin by requester instead of first come, first served.
+  private fairQueue = false;
+  // Shuffles keep songs by the same artist, album or dominant tag apart.
+  private smartShuffle = false;
   private paused = false;
+  // Only meaningful while paused; auto-resume keys off 'channel-empty'.
+  private pauseReason: PauseReason = 'user';
   private stopping = false;
+  // In-flight skip() and previous(), which wait on a fade before moving on.
+  private skipping: Promise<void> | null = null;
+  private goingBack: Promise<'restarted' | 'previous' | 'none'> | null = null;
   private trackStartedAt: number | null = null;
   private pausedAt: number | null = null;
+  // Track time per wall-clock time, from the guild's timescale filter. Wall
+  // time since trackStartedAt is scaled by it to get the track position.
+  private playbackRate = 1;
   private consecutiveFailures = 0;
+  // Open PlayHistory row for the current track; fromMs is where playback of
+  // it started, so a restored track only counts the part played this time.
+  private historyEntry: { id: string; fromMs: number } | null = null;
+
+  // Fades. fadeMs comes from guild settings and is refreshed each time a
+  // track starts; 0 means hard cuts. `volume` is the last volume sent to
+  // NodeLink and `baseVolume` the current track's unfaded one: 100 plus its
+  // `boost`, scaled by the guild's master volume.
+  private fadeMs = 0;
+  private boost = 0;
+  private baseVolume = 100;
+  private volume = 100;
+  // Bumped by every fade; a running fade gives up once it no longer matches.
+  private fadeGeneration = 0;
+  // Starts the fade-out ahead of the end of the current track.
+  private fadeOutTimer: ReturnType<typeof setTimeout> | null = null;
+  // Ends the current track at its end offset, if it has one.
+  private trimEndTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Sleep timer; `countdown` marks one set in minutes, which only runs while
+  // something is playing (see SleepTimer).
+  private sleepTimer: (SleepTimer & { countdown: boolean }) | null = null;
+  private sleepTimeout: ReturnType<typeof setTimeout> | null = null;
+  // Playback stops once this many more tracks have ended; null for no limit.
+  private stopAfterTracks: number | null = null;
 
   // Auto-leave idle timer.
   private idleLeaveTimer: ReturnType<typeof setTimeout> | null = null;
@@ -84,7 +170,7 @@ export class GuildPlayer {
         if (player.guildId !== this.guildId) return;
         if (payload.reason === 'replaced') return;
         void track;
-        this.onTrackEnd().catch(() => {
+        this.onTrackEnd(payload.reason).catch(() => {
           // swallow errors — they are logged in handlePlaybackFailure
         });
       });
@@ -99,6 +185,10 @@ export class GuildPlayer {
       });
       hoshimi.on('playerDestroy', (player: Player) => {
         if (player.guildId !== this.guildId) return;
+        this.finishHistoryEntry(true);
+        this.cancelFadeOut();
+        this.cancelTrimEnd();
+        this.clearStopConditions();
         this.broadcast();
       });
     }
@@ -133,11 +223,15 @@ export class GuildPlayer {
 
   async addToPriorityQueue(song: QueuedSong): Promise<void> {
     this.priorityQueue.push(song);
+    if (this.fairQueue) this.priorityQueue = fairOrder(this.priorityQueue, this.justServed());
     await this.ensurePlaying();
   }
 
   async replaceQueueAndPlay(songs: QueuedSong[]): Promise<void> {
+    const undoStep = this.saveUndoStep('replace');
+    await this.fadeOutForControl();
     this.queue.clear();
+    this.forgetQueuePositions();
     this.priorityQueue = [];
     this.currentSong = null;
     this.paused = false;
@@ -154,11 +248,28 @@ export class GuildPlayer {
     // track without destroying the voice session.
 
     await this.playNext();
+    if (undoStep) undoStep.replacedBy = this.currentSong;
     this.broadcast();
   }
 
-  async skip(): Promise<void> {
-    if (this.currentSong === null) return;
+  /** Skip the current track. A skip pressed while one is under way joins it. */
+  skip(): Promise<void> {
+    if (!this.skipping) {
+      this.skipping = this.skipNow().finally(() => {
+        this.skipping = null;
+      });
+    }
+    return this.skipping;
+  }
+
+  private async skipNow(): Promise<void> {
+    const current = this.currentSong;
+    if (current === null) return;
+
+    await this.fadeOutForControl();
+    // The track ended, or something else moved on, during the fade.
+    if (this.currentSong !== current) return;
+    this.finishHistoryEntry(true);
 
     // Unpause first — stop() on a paused player might not trigger TrackEnd.
     if (this.paused) {
@@ -177,26 +288,258 @@ export class GuildPlayer {
     await this.playNext();
   }
 
-  stop(): void {
+  /**
+   * Go back a track. More than a few seconds in, this restarts the current
+   * track; otherwise the track before it plays again and the current one is
+   * put back next in line, so skipping forward returns to it. With queue loop
+   * on, going back from the first track wraps around to the last.
+   */
+  previous(): Promise<'restarted' | 'previous' | 'none'> {
+    if (!this.goingBack) {
+      this.goingBack = this.previousNow().finally(() => {
+        this.goingBack = null;
+      });
+    }
+    return this.goingBack;
+  }
+
+  private async previousNow(): Promise<'restarted' | 'previous' | 'none'> {
+    const current = this.currentSong;
+    if (current === null) return 'none';
+
+    if (
+      this.getPositionMs() > GuildPlayer.PREVIOUS_RESTART_THRESHOLD_MS ||
+      (this.previousSongs.length === 0 && !this.wrapAroundTarget())
+    ) {
+      await this.seek(0);
+      return 'restarted';
+    }
+
+    await this.fadeOutForControl();
+    // The track ended, or something else moved on, during the fade.
+    if (this.currentSong !== current) return 'none';
+    const target = this.previousSongs.pop() ?? this.wrapAroundTarget();
+    if (!target) return 'none';
+
+    // Unpause first — play() keeps a paused player paused.
+    if (this.paused) {
+      this.unpause();
+    }
+
+    // Put the current track back where it came from. A queue track only needs
+    // the cursor rewound; the target's own rewind below supersedes this when
+    // the target is also a queue track, which then leads back here anyway.
+    if (this.currentQueueIndex !== null) {
+      this.queue.seekTo(this.currentQueueIndex);
+    } else {
+      this.priorityQueue.unshift(current);
+    }
+
+    if (target.queueIndex !== null && this.queue.seekTo(target.queueIndex)) {
+      this.queue.advance();
+      this.currentQueueIndex = target.queueIndex;
+    } else {
+      this.currentQueueIndex = null;
+    }
+
+    this.currentSong = target.song;
+    await this.playSong(target.song);
+    return 'previous';
+  }
+
+  private wrapAroundTarget(): { song: QueuedSong; queueIndex: number } | undefined {
+    if (this.loopMode !== 'queue' || this.currentQueueIndex === null) return undefined;
+    const last = this.queue.lastIndex();
+    if (last === undefined || last === this.currentQueueIndex) return undefined;
+    const song = this.queue.at(last);
+    return song ? { song, queueIndex: last } : undefined;
+  }
+
+  private rememberCurrentSong(): void {
+    if (this.currentSong === null) return;
+    this.previousSongs.push({ song: this.currentSong, queueIndex: this.currentQueueIndex });
+    if (this.previousSongs.length > GuildPlayer.MAX_PREVIOUS_SONGS) {
+      this.previousSongs.shift();
+    }
+  }
+
+  /**
+   * Drop buffer indices once the queue they point into is cleared or
+   * replaced. The tracks stay reachable through previous(), just played
+   * directly instead of from the queue.
+   */
+  private forgetQueuePositions(): void {
+    this.currentQueueIndex = null;
+    for (const entry of this.previousSongs) entry.queueIndex = null;
+  }
+
+  /** Keep stored queue positions on their songs after the queue is edited. */
+  private remapQueuePositions(map: BufferIndexMap): void {
+    if (this.currentQueueIndex !== null) this.currentQueueIndex = map(this.currentQueueIndex);
+    for (const entry of this.previousSongs) {
+      if (entry.queueIndex !== null) entry.queueIndex = map(entry.queueIndex);
+    }
+  }
+
+  /**
+   * Stop playback, clear the queue and leave the voice channel. With fadeOut
+   * set (user-initiated stops) playback fades out before the player goes.
+   */
+  stop({ fadeOut = false }: { fadeOut?: boolean } = {}): void {
+    const fadeMs = fadeOut ? this.controlFadeMs() : 0;
     this.stopping = true;
     this.cancelIdleLeave();
+    this.cancelFadeOut();
+    this.cancelTrimEnd();
+    this.clearStopConditions();
+    this.finishHistoryEntry(true);
     this.currentSong = null;
+    this.currentQueueIndex = null;
+    this.previousSongs = [];
+    this.undoStack = [];
     this.queue.clear();
     this.priorityQueue = [];
     this.paused = false;
     this.trackStartedAt = null;
 
-    this.destroyPlayer();
     // Don't call broadcast() here — let playerDestroy event handler do it
+    if (fadeMs > 0) {
+      void this.fadeTo(0, fadeMs).then((done) => {
+        if (done) {
+          this.destroyPlayer();
+        } else {
+          // Playback started again mid-fade; keep the player.
+          this.stopping = false;
+        }
+      });
+      return;
+    }
+    this.cancelFade();
+    this.destroyPlayer();
   }
 
   clearQueue(): void {
+    if (!this.queue.isEmpty) this.saveUndoStep('clear');
     this.queue.clear();
+    this.forgetQueuePositions();
+    this.broadcast();
+  }
+
+  /**
+   * Put the queue back as it was before the last clear, override or
+   * play-from-song. Undoing a clear keeps anything queued since, after the
+   * restored songs. An override or play-from-song also brings back Up Next,
+   * and while the song that replaced the old track is still playing, the old
+   * track picks up where it was cut off. Returns false when there is nothing
+   * to undo.
+   */
+  async undo(): Promise<boolean> {
+    const step = this.undoStack.pop();
+    if (!step) return false;
+    const { snapshot } = step;
+
+    if (
+      step.kind === 'replace' &&
+      snapshot.currentSong !== null &&
+      step.replacedBy !== null &&
+      step.replacedBy === this.currentSong
+    ) {
+      await this.fadeOutForControl();
+      this.queue = PlaybackCursor.fromSnapshot(snapshot.queue);
+      this.priorityQueue = [...snapshot.priorityQueue];
+      this.loopMode = snapshot.loopMode;
+      this.applyLoopMode();
+      this.currentSong = snapshot.currentSong;
+      this.currentQueueIndex = step.queueIndex;
+      await this.playSong(snapshot.currentSong, {
+        positionMs: snapshot.positionMs,
+        paused: snapshot.isPaused,
+      });
+      return true;
+    }
+
+    // Songs queued since a clear stay, after the ones it removed.
+    const queuedSince = step.kind === 'clear' ? this.getUpcomingSongs() : [];
+    this.queue = PlaybackCursor.fromSnapshot(snapshot.queue);
+    this.queue.append(...queuedSince);
+    // A clear leaves Up Next alone, so only a replacement brings it back.
+    if (step.kind === 'replace') this.priorityQueue = [...snapshot.priorityQueue];
+    this.forgetQueuePositions();
+    await this.ensurePlaying();
+    return true;
+  }
+
+  /** Remember the player as it is now, unless there is nothing to lose. */
+  private saveUndoStep(kind: UndoStep['kind']): UndoStep | null {
+    if (this.currentSong === null && this.queue.isEmpty && this.priorityQueue.length === 0) {
+      return null;
+    }
+    const step: UndoStep = {
+      kind,
+      snapshot: this.toSnapshot(),
+      queueIndex: this.currentQueueIndex,
+      replacedBy: null,
+    };
+    this.undoStack.push(step);
+    if (this.undoStack.length > GuildPlayer.MAX_UNDO_STEPS) {
+      this.undoStack.shift();
+    }
+    return step;
+  }
+
+  /** The song at a position in Up Next or the queue, as listed in QueueState. */
+  getQueueEntry(list: QueueList, index: number): QueuedSong | undefined {
+    return list === 'priority' ? this.priorityQueue[index] : this.queue.upcomingAt(index);
+  }
+
+  /** Remove one entry. Returns false if the index is out of range. */
+  removeQueueEntry(list: QueueList, index: number): boolean {
+    if (list === 'priority') {
+      if (this.priorityQueue[index] === undefined) return false;
+      this.priorityQueue.splice(index, 1);
+    } else {
+      const map = this.queue.removeUpcoming(index);
+      if (!map) return false;
+      this.remapQueuePositions(map);
+    }
+    this.broadcast();
+    return true;
+  }
+
+  /** Move one entry within its list. Returns false if either index is out of range. */
+  moveQueueEntry(list: QueueList, from: number, to: number): boolean {
+    if (list === 'priority') {
+      if (this.priorityQueue[from] === undefined || this.priorityQueue[to] === undefined) {
+        return false;
+      }
+      const [song] = this.priorityQueue.splice(from, 1);
+      this.priorityQueue.splice(to, 0, song);
+    } else {
+      const map = this.queue.moveUpcoming(from, to);
+      if (!map) return false;
+      this.remapQueuePositions(map);
+    }
     this.broadcast();
+    return true;
+  }
+
+  /**
+   * Insert a song at a position; positions past the end append. Fair queue
+   * doesn't reorder it, so an admin can place a song deliberately.
+   */
+  async insertQueueEntry(list: QueueList, index: number, song: QueuedSong): Promise<void> {
+    if (list === 'priority') {
+      this.priorityQueue.splice(index, 0, song);
+    } else {
+      const map = this.queue.insertUpcoming(index, song);
+      if (map) this.remapQueuePositions(map);
+    }
+    await this.ensurePlaying();
+    this.cancelIdleLeave();
   }
 
   shuffle(): void {
-    this.queue.shuffle();
+    this.queue.shuffle(this.spreadKeys());
     this.broadcast();
   }
 
@@ -207,12 +550,186 @@ export class GuildPlayer {
 
   setLoopMode(mode: LoopMode): void {
     this.loopMode = mode;
+    this.applyLoopMode();
+    this.broadcast();
+  }
+
+  setAutoplay(enabled: boolean): void {
+    this.autoplay = enabled;
+    this.broadcast();
+  }
+
+  /** Changing the mode of a shuffled queue reshuffles what is still to play. */
+  setSmartShuffle(enabled: boolean): void {
+    this.smartShuffle = enabled;
+    if (this.queue.isShuffled) this.queue.shuffle(this.spreadKeys());
+    this.broadcast();
+  }
+
+  isSmartShuffle(): boolean {
+    return this.smartShuffle;
+  }
+
+  private spreadKeys(): SpreadKeys<QueuedSong> | undefined {
+    return this.smartShuffle ? smartShuffleKeys(this.queue.toSnapshot().items) : undefined;
+  }
+
+  /** Turning fair queue on reorders what is already in Up Next. */
+  setFairQueue(enabled: boolean): void {
+    this.fairQueue = enabled;
+    if (enabled) this.priorityQueue = fairOrder(this.priorityQueue, this.justServed());
+    this.broadcast();
+  }
+
+  /**
+   * Set the sleep timer, replacing any existing one: either `afterMs` of
+   * playing time from now, or at the clock time `at` (Unix ms).
+   */
+  setSleepTimer(
+    when: { afterMs: number } | { at: number },
+    action: SleepAction,
+    fadeOut: boolean
+  ): void {
+    this.clearSleepTimeout();
+    this.sleepTimer =
+      'at' in when
+        ? { action, fadeOut, countdown: false, endsAt: when.at, remainingMs: null }
+        : { action, fadeOut, countdown: true, endsAt: null, remainingMs: when.afterMs };
+    // broadcast() starts the countdown if something is playing.
+    this.broadcast();
+  }
+
+  cancelSleepTimer(): void {
+    this.clearSleepTimeout();
+    this.sleepTimer = null;
+    this.broadcast();
+  }
+
+  /** Stop once `count` more tracks have ended, counting the current one; null cancels. */
+  setStopAfterTracks(count: number | null): void {
+    this.stopAfterTracks = count;
+    this.broadcast();
+  }
+
+  /** Run or hold a countdown to match the playback state, and arm the timeout. */
+  private syncSleepTimer(): void {
+    const timer = this.sleepTimer;
+    if (!timer) return;
+
+    if (timer.countdown) {
+      if (timer.endsAt !== null && !this.isPlaying()) {
+        timer.remainingMs = Math.max(0, timer.endsAt - Date.now());
+        timer.endsAt = null;
+        this.clearSleepTimeout();
+      } else if (timer.endsAt === null && this.isPlaying()) {
+        timer.endsAt = Date.now() + (timer.remainingMs ?? 0);
+        timer.remainingMs = null;
+      }
+    }
+
+    if (timer.endsAt !== null && this.sleepTimeout === null) {
+      const leadMs = timer.fadeOut ? GuildPlayer.SLEEP_FADE_MS : 0;
+      this.sleepTimeout = setTimeout(
+        () => {
+          this.sleepTimeout = null;
+          void this.fireSleepTimer(timer);
+        },
+        Math.max(0, timer.endsAt - Date.now() - leadMs)
+      );
+    }
+  }
+
+  private async fireSleepTimer(timer: SleepTimer): Promise<void> {
+    if (timer.fadeOut && timer.endsAt !== null && this.isPlaying()) {
+      this.cancelFadeOut();
+      await this.fadeTo(0, Math.max(0, timer.endsAt - Date.now()));
+    }
+    // A new track starting cuts the fade short; the timer still fires on time.
+    const waitMs = timer.endsAt === null ? 0 : timer.endsAt - Date.now();
+    if (waitMs > 0) await new Promise((resolve) => setTimeout(resolve, waitMs));
+    // Cancelled or replaced meanwhile, or a countdown held by a pause mid-fade
+    // (resume() brings the volume back).
+    if (this.sleepTimer !== timer || timer.endsAt === null) return;
+
+    this.sleepTimer = null;
+    logger.info({ guildId: this.guildId, action: timer.action }, 'Sleep timer fired');
+    if (timer.action === 'leave') {
+      this.stop();
+      return;
+    }
+    const player = this.hoshimiPlayer();
+    if (player && this.isPlaying()) this.pause(player, 'user');
+    this.broadcast();
+  }
+
+  private clearSleepTimeout(): void {
+    if (this.sleepTimeout !== null) {
+      clearTimeout(this.sleepTimeout);
+      this.sleepTimeout = null;
+    }
+  }
+
+  /** Drop the sleep timer and stop-after count once the session ends. */
+  private clearStopConditions(): void {
+    this.clearSleepTimeout();
+    this.sleepTimer = null;
+    this.stopAfterTracks = null;
+  }
+
+  /**
+   * Count the current track towards stopAfterTracks as playback moves on.
+   * Returns true when it was the last one, so the next track should wait.
+   */
+  private consumeStopAfter(): boolean {
+    if (this.stopAfterTracks === null || this.currentSong === null) return false;
+    this.stopAfterTracks--;
+    if (this.stopAfterTracks > 0) return false;
+    this.stopAfterTracks = null;
+    return true;
+  }
+
+  /** Who requested the current song, if it came from Up Next. */
+  private justServed(): string | null {
+    if (!this.currentSong || this.currentQueueIndex !== null) return null;
+    return this.currentSong.requestedBy;
+  }
+
+  private applyLoopMode(): void {
     const player = this.hoshimiPlayer();
     if (player) {
       // Hoshimi uses LoopMode enum (Track=1, Queue=2, Off=3)
-      player.setLoop(mode === 'song' ? 1 : mode === 'queue' ? 2 : 3);
+      player.setLoop(this.loopMode === 'song' ? 1 : this.loopMode === 'queue' ? 2 : 3);
+    }
+  }
+
+  /**
+   * Load a saved session into this player. The current track picks up from
+   * its saved position, either playing or paused; with no current track the
+   * queue starts from the top, or just sits loaded when startPaused is set.
+   */
+  async restore(snapshot: PlayerSnapshot, startPaused: boolean): Promise<void> {
+    this.queue = PlaybackCursor.fromSnapshot(snapshot.queue);
+    this.priorityQueue = [...snapshot.priorityQueue];
+    this.currentSong = snapshot.currentSong;
+    this.currentQueueIndex = null;
+    this.previousSongs = [];
+    this.loopMode = snapshot.loopMode;
+    this.autoplay = snapshot.autoplay ?? false;
+    this.fairQueue = snapshot.fairQueue ?? false;
+    this.smartShuffle = snapshot.smartShuffle ?? false;
+    this.consecutiveFailures = 0;
+    this.applyLoopMode();
+
+    if (this.currentSong) {
+      await this.playSong(this.currentSong, {
+        positionMs: snapshot.positionMs,
+        paused: startPaused,
+      });
+    } else if (startPaused) {
+      this.broadcast();
+    } else {
+      await this.playNext();
     }
-    this.broadcast();
   }
 
   togglePause(): boolean {
@@ -222,47 +739,123 @@ export class GuildPlayer {
     if (!player) return false;
 
     if (this.paused) {
-      this.cancelIdleLeave();
-      if (this.pausedAt !== null) {
-        const pauseDuration = Date.now() - this.pausedAt;
-        if (this.trackStartedAt !== null) {
-          this.trackStartedAt += pauseDuration;
-        }
-        this.pausedAt = null;
-      }
-      player.setPaused(false);
-      this.paused = false;
+      this.resume(player);
     } else {
-      this.pausedAt = Date.now();
-      player.setPaused(true);
-      this.paused = true;
-      this.scheduleIdleLeave();
+      this.pause(player, 'user');
     }
 
     this.broadcast();
     return this.paused;
   }
 
+  /**
+   * Pause because the last listener left the voice channel. Unlike a manual
+   * pause, this one is undone by autoResume() when someone comes back.
+   * Returns true if playback was paused.
+   */
+  autoPause(): boolean {
+    if (!this.isPlaying()) return false;
+
+    const player = this.hoshimiPlayer();
+    if (!player) return false;
+
+    this.pause(player, 'channel-empty');
+    this.broadcast();
+    return true;
+  }
+
+  /**
+   * Resume playback if (and only if) it was auto-paused for an empty channel.
+   * A manual pause is left alone. Returns true if playback resumed.
+   */
+  autoResume(): boolean {
+    if (!this.currentSong || !this.paused || this.pauseReason !== 'channel-empty') return false;
+
+    const player = this.hoshimiPlayer();
+    if (!player) return false;
+
+    this.resume(player);
+    this.broadcast();
+    return true;
+  }
+
+  private pause(player: Player, reason: PauseReason): void {
+    this.cancelFadeOut();
+    this.cancelTrimEnd();
+    // Nobody is listening after an auto-pause, so only manual pauses fade.
+    const fadeMs = reason === 'user' ? this.controlFadeMs() : 0;
+    this.paused = true;
+    this.pauseReason = reason;
+    this.scheduleIdleLeave();
+
+    // The track keeps playing while it fades, so pausedAt is only set once it
+    // actually stops; a resume mid-fade leaves trackStartedAt as it is.
+    if (fadeMs > 0) {
+      void this.fadeTo(0, fadeMs).then((done) => {
+        if (!done || !this.paused) return;
+        this.pausedAt = Date.now();
+        player.setPaused(true);
+      });
+    } else {
+      this.cancelFade();
+      this.pausedAt = Date.now();
+      player.setPaused(true);
+    }
+  }
+
+  private resume(player: Player): void {
+    this.cancelIdleLeave();
+    if (this.pausedAt !== null) {
+      const pauseDuration = Date.now() - this.pausedAt;
+      if (this.trackStartedAt !== null) {
+        this.trackStartedAt += pauseDuration;
+      }
+      this.pausedAt = null;
+    }
+
+    const fadeMs = Math.min(this.fadeMs, GuildPlayer.MAX_CONTROL_FADE_MS);
+    // Fade back in from silence, or from wherever an unfinished pause fade got to.
+    if (fadeMs > 0 && this.volume === this.baseVolume) this.sendVolume(0);
+    player.setPaused(false);
+    this.paused = false;
+    if (fadeMs > 0) {
+      void this.fadeTo(this.baseVolume, fadeMs);
+    } else if (this.volume !== this.baseVolume) {
+      // A sleep timer's fade-out left it silent.
+      this.cancelFade();
+      this.sendVolume(this.baseVolume);
+    }
+    this.scheduleFadeOut();
+    this.scheduleTrimEnd();
+  }
+
   async seek(positionMs: number): Promise<void> {
     if (!this.currentSong) return;
 
     const player = this.hoshimiPlayer();
     if (!player) return;
 
-    // Clamp to valid range
+    // Clamp to valid range. Positions count from the song's start offset.
     const durationSec = this.currentSong.duration;
     const durationMs = durationSec * 1000;
     const clampedMs = Math.max(0, Math.min(positionMs, durationMs));
 
-    await player.seek(clampedMs);
+    await player.seek((this.currentSong.startOffsetMs ?? 0) + clampedMs);
 
     // Adjust trackStartedAt so elapsed time is consistent after seek.
-    // New trackStartedAt = now - seeked position
-    this.trackStartedAt = Date.now() - clampedMs;
+    // New trackStartedAt = now - seeked position (in wall time)
+    this.trackStartedAt = Date.now() - clampedMs / this.playbackRate;
     // If we were paused, also update pausedAt so pause offset is preserved
     if (this.paused && this.pausedAt !== null) {
-      this.pausedAt = Date.now() - clampedMs;
+      this.pausedAt = Date.now() - clampedMs / this.playbackRate;
+    }
+
+    // Seeking back out of the closing fade restores the volume.
+    if (!this.paused && this.volume < this.baseVolume) {
+      void this.fadeTo(this.baseVolume, Math.min(this.fadeMs, GuildPlayer.MAX_CONTROL_FADE_MS));
     }
+    this.scheduleFadeOut();
+    this.scheduleTrimEnd();
 
     this.broadcast();
   }
@@ -273,27 +866,170 @@ export class GuildPlayer {
 
   /**
    * Update volume of the currently-playing track without restarting it.
+   * `boost` is the song's full playback boost (see playbackBoost).
    * Does nothing if no track is currently playing.
    */
   public updateVolumeBoost(boost: number): void {
+    this.boost = boost;
+    this.resetVolume();
+  }
+
+  /** Re-apply the guild's master volume (see lib/volume.ts) to the playing track. */
+  public applyMasterVolume(): void {
+    this.resetVolume();
+    this.broadcast();
+  }
+
+  private trackVolume(): number {
+    return Math.round(((100 + this.boost) * getMasterVolume(this.guildId)) / 100);
+  }
+
+  private resetVolume(): void {
     const hoshimi = getHoshimi();
     if (!hoshimi) return;
     const hoshimiPlayer = hoshimi.players.get(this.guildId);
     if (!hoshimiPlayer || !this.currentSong) return;
+    this.baseVolume = this.trackVolume();
+    this.cancelFade();
+    this.sendVolume(this.baseVolume);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Fades
+  //
+  // NodeLink has a single track per player, so a "crossfade" is the outgoing
+  // track fading out over its last fadeMs and the next one fading in. Volume
+  // goes through NodeLink's player volume, which sits on top of the filters.
+  // ---------------------------------------------------------------------------
+
+  private sendVolume(volume: number): void {
+    this.volume = volume;
     // Use NodeLink REST API directly to bypass Hoshimi's volume filter
-    // NodeLink volume: 0-1000 where 100 = 100%. finalVolume = 100 + boost
-    const node = hoshimiPlayer.node;
+    // NodeLink volume: 0-1000 where 100 = 100%.
+    const node = this.hoshimiPlayer()?.node;
     if (!node) return;
-    node.rest.updatePlayer({
-      guildId: this.guildId,
-      playerOptions: { volume: 100 + boost },
-    });
+    node.rest
+      .updatePlayer({ guildId: this.guildId, playerOptions: { volume } })
+      .catch((err: unknown) => {
+        logger.warn({ err, guildId: this.guildId }, 'Failed to update player volume');
+      });
+  }
+
+  /**
+   * Ramp the volume to `to` over `durationMs`. Resolves true once there, or
+   * false if another fade (or cancelFade()) took over first.
+   */
+  private async fadeTo(to: number, durationMs: number): Promise<boolean> {
+    const generation = ++this.fadeGeneration;
+    const from = this.volume;
+    const steps = Math.max(1, Math.round(durationMs / GuildPlayer.FADE_STEP_MS));
+    for (let step = 1; step <= steps; step++) {
+      await new Promise((resolve) => setTimeout(resolve, durationMs / steps));
+      if (generation !== this.fadeGeneration) return false;
+      this.sendVolume(Math.round(from + ((to - from) * step) / steps));
+    }
+    return true;
+  }
+
+  private cancelFade(): void {
+    this.fadeGeneration++;
+  }
+
+  /** How long skip/stop/pause should fade for; 0 when nothing is audible. */
+  private controlFadeMs(): number {
+    if (!this.currentSong || this.paused) return 0;
+    return Math.min(this.fadeMs, GuildPlayer.MAX_CONTROL_FADE_MS);
+  }
+
+  /** Fade out ahead of a skip or queue switch. Resolves at once with fades off. */
+  private async fadeOutForControl(): Promise<void> {
+    const fadeMs = this.controlFadeMs();
+    if (fadeMs <= 0) return;
+    this.cancelFadeOut();
+    await this.fadeTo(0, fadeMs);
+  }
+
+  /** Time the closing fade so the current track reaches silence as it ends. */
+  private scheduleFadeOut(): void {
+    this.cancelFadeOut();
+    if (this.fadeMs <= 0 || !this.currentSong || this.paused) return;
+
+    const durationMs = this.currentSong.duration * 1000;
+    const fadeMs = Math.min(this.fadeMs, durationMs / 2);
+    const delay = (durationMs - this.getPositionMs()) / this.playbackRate - fadeMs;
+    this.fadeOutTimer = setTimeout(
+      () => {
+        this.fadeOutTimer = null;
+        const remaining = (durationMs - this.getPositionMs()) / this.playbackRate;
+        void this.fadeTo(0, Math.max(0, Math.min(fadeMs, remaining)));
+      },
+      Math.max(0, delay)
+    );
+  }
+
+  private cancelFadeOut(): void {
+    if (this.fadeOutTimer !== null) {
+      clearTimeout(this.fadeOutTimer);
+      this.fadeOutTimer = null;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Trim
+  //
+  // A song with an end offset would otherwise play on into its outro, so the
+  // player ends it itself rather than waiting for NodeLink's trackEnd.
+  // ---------------------------------------------------------------------------
+
+  private scheduleTrimEnd(): void {
+    this.cancelTrimEnd();
+    const song = this.currentSong;
+    if (!song || song.endOffsetMs == null || this.paused) return;
+
+    const lengthMs = song.endOffsetMs - (song.startOffsetMs ?? 0);
+    this.trimEndTimer = setTimeout(
+      () => {
+        this.trimEndTimer = null;
+        this.endTrimmedTrack().catch(() => {
+          // swallow errors — they are logged in handlePlaybackFailure
+        });
+      },
+      Math.max(0, (lengthMs - this.getPositionMs()) / this.playbackRate)
+    );
+  }
+
+  private cancelTrimEnd(): void {
+    if (this.trimEndTimer !== null) {
+      clearTimeout(this.trimEndTimer);
+      this.trimEndTimer = null;
+    }
+  }
+
+  /** Finish the current track at its end offset, the same as a natural end. */
+  private async endTrimmedTrack(): Promise<void> {
+    this.finishHistoryEntry(false);
+    this.trackStartedAt = null;
+    await this.playNext();
+    // A next track replaced this one; otherwise NodeLink is still playing the
+    // outro. stop(false) keeps the voice session, as in skip().
+    if (this.currentSong === null) this.hoshimiPlayer()?.stop(false);
   }
 
   getQueue(): QueuedSong[] {
     return this.queue.toRemaining();
   }
 
+  /** Songs still to come from the queue in play order, starting with the next one. */
+  getUpcomingSongs(): QueuedSong[] {
+    const next = this.queue.current();
+    return next ? [next, ...this.queue.toRemaining()] : [];
+  }
+
+  /** Songs played before the current one, oldest first (the last 50 at most). */
+  getPlayedSongs(): QueuedSong[] {
+    return this.previousSongs.map((entry) => entry.song);
+  }
+
   getLoopMode(): LoopMode {
     return this.loopMode;
   }
@@ -308,17 +1044,95 @@ export class GuildPlayer {
 
   getQueueState(): QueueState {
     const player = this.hoshimiPlayer();
+    const rounds = this.fairQueue ? fairRounds(this.priorityQueue, this.justServed()) : null;
     return {
       isPlaying: this.isPlaying(),
       isPaused: this.paused,
+      pauseReason: this.paused ? this.pauseReason : null,
       isConnectedToVoice: player?.connected ?? false,
       loopMode: this.loopMode,
       isShuffled: this.queue.isShuffled,
       currentSong: this.currentSong,
-      priorityQueue: this.priorityQueue,
+      priorityQueue: rounds
+        ? this.priorityQueue.map((song, i) => ({ ...song, fairRound: rounds[i] }))
+        : this.priorityQueue,
       queue: this.queue.toRemaining(),
       trackStartedAt: this.trackStartedAt,
       nextTrack: this.peekNextTrack(),
+      autoplay: this.autoplay,
+      fairQueue: this.fairQueue,
+      smartShuffle: this.smartShuffle,
+      playbackRate: this.playbackRate,
+      masterVolume: getMasterVolume(this.guildId),
+      sleepTimer: this.sleepTimer && {
+        action: this.sleepTimer.action,
+        fadeOut: this.sleepTimer.fadeOut,
+        endsAt: this.sleepTimer.endsAt,
+        remainingMs: this.sleepTimer.remainingMs,
+      },
+      stopAfterTracks: this.stopAfterTracks,
+      savedSession: getSavedSession(this.guildId),
+    };
+  }
+
+  /** Elapsed time in the current track, frozen while paused. */
+  private getPositionMs(): number {
+    if (this.trackStartedAt === null) return 0;
+    const now = this.paused && this.pausedAt !== null ? this.pausedAt : Date.now();
+    return Math.max(0, (now - this.trackStartedAt) * this.playbackRate);
+  }
+
+  /**
+   * Switch to a new playback rate (after the timescale filter changed),
+   * keeping the current position and retiming the end-of-track timers.
+   */
+  setPlaybackRate(rate: number): void {
+    if (rate === this.playbackRate) return;
+    const positionMs = this.getPositionMs();
+    this.playbackRate = rate;
+    if (this.trackStartedAt !== null) {
+      const now = this.paused && this.pausedAt !== null ? this.pausedAt : Date.now();
+      this.trackStartedAt = now - positionMs / rate;
+    }
+    if (!this.paused) {
+      this.scheduleFadeOut();
+      this.scheduleTrimEnd();
+    }
+    this.broadcast();
+  }
+
+  /** Close the open PlayHistory row, if any, with the time played so far. */
+  private finishHistoryEntry(skipped: boolean): void {
+    if (!this.historyEntry) return;
+    const { id, fromMs } = this.historyEntry;
+    this.historyEntry = null;
+    finishPlayHistoryEntry(id, this.getPositionMs() - fromMs, skipped);
+  }
+
+  /**
+   * Write the player's state to the PlayerSnapshot table. Runs on every
+   * broadcast, and once more from persistAllPlayers() during shutdown.
+   */
+  persist(): void {
+    savePlayerSnapshot(
+      this.guildId,
+      this.hoshimiPlayer()?.voiceId ?? this.voiceId,
+      this.toSnapshot()
+    );
+  }
+
+  /** Copy of the queues and playback state, for persist() and undo steps. */
+  private toSnapshot(): PlayerSnapshot {
+    return {
+      queue: this.queue.toSnapshot(),
+      priorityQueue: [...this.priorityQueue],
+      currentSong: this.currentSong,
+      loopMode: this.loopMode,
+      autoplay: this.autoplay,
+      fairQueue: this.fairQueue,
+      smartShuffle: this.smartShuffle,
+      positionMs: this.getPositionMs(),
+      isPaused: this.paused,
     };
   }
 
@@ -331,7 +1145,9 @@ export class GuildPlayer {
   }
 
   private broadcast(): void {
-    void broadcastQueueUpdate(this.getQueueState());
+    this.syncSleepTimer();
+    this.persist();
+    void broadcastQueueUpdate(this.guildId, this.getQueueState());
   }
 
   private peekNextTrack(): QueuedSong | null {
@@ -364,33 +1180,46 @@ export class GuildPlayer {
       await player.connect();
     }
 
+    // Once the stop-after count runs out, the next track is loaded paused at
+    // the start, so pressing play carries on from there.
+    const startFrom = this.consumeStopAfter() ? { positionMs: 0, paused: true } : undefined;
+
+    await this.skipUnavailable();
     const prioritySong = this.priorityQueue.shift();
     if (prioritySong) {
+      this.rememberCurrentSong();
+      this.currentQueueIndex = null;
       this.currentSong = prioritySong;
       this.paused = false;
-      await this.playSong(prioritySong);
+      await this.playSong(prioritySong, startFrom);
       return;
     }
 
     if (this.queue.isAtEnd) {
       if (this.loopMode === 'queue' && !this.queue.isEmpty) {
-        this.queue.reset();
+        this.queue.reset(this.spreadKeys());
+        await this.skipUnavailable();
       } else if (this.loopMode === 'song' && this.currentSong) {
-        await this.playSong(this.currentSong);
+        await this.playSong(this.currentSong, startFrom);
         return;
-      } else {
+      } else if (!this.autoplay || !(await this.queueAutoplaySong())) {
+        this.rememberCurrentSong();
         this.currentSong = null;
+        this.stopAfterTracks = null;
         this.queue.clear();
+        this.forgetQueuePositions();
         this.broadcast();
         this.scheduleIdleLeave();
         return;
       }
+      // Otherwise autoplay appended a pick at the read position; it plays
+      // below like any other queued track.
     }
 
     // Song loop: replay current song and advance readIndex so that
     // disabling loop mode mid-playthrough doesn't cause a ghost loop
     if (this.loopMode === 'song' && this.currentSong) {
-      await this.playSong(this.currentSong);
+      await this.playSong(this.currentSong, startFrom);
       this.queue.advance();
       return;
     }
@@ -402,6 +1231,8 @@ export class GuildPlayer {
       return;
     }
 
+    this.rememberCurrentSong();
+    this.currentQueueIndex = this.queue.currentIndex() ?? null;
     this.currentSong = next;
     // Default isSeekable to true (YouTube tracks are virtually always seekable).
     // NodeLink's actual TrackInfo.isSeekable is not captured from the play response.
@@ -410,11 +1241,46 @@ export class GuildPlayer {
     }
     this.queue.advance();
 
-    await this.playSong(next);
+    await this.playSong(next, startFrom);
+  }
+
+  /**
+   * Passes over songs marked unavailable at the front of the priority queue,
+   * or of the queue once that is empty, rather than trying to load them.
+   */
+  private async skipUnavailable(): Promise<void> {
+    const skip = async (song: QueuedSong | undefined) => {
+      if (!song || !(await isMarkedUnavailable(song.youtubeUrl))) return false;
+      logger.info({ guildId: this.guildId, song: song.title }, 'Skipping unavailable song');
+      return true;
+    };
+    while (await skip(this.priorityQueue[0])) this.priorityQueue.shift();
+    if (this.priorityQueue.length > 0) return;
+    while (await skip(this.queue.current())) this.queue.advance();
   }
 
-  private async playSong(next: QueuedSong): Promise<void> {
+  /** Append one autoplay pick to the queue. Returns false if there was none. */
+  private async queueAutoplaySong(): Promise<boolean> {
+    const recent = this.previousSongs.map((entry) => entry.song);
+    if (this.currentSong) recent.push(this.currentSong);
+
+    const song = await pickAutoplaySong(this.guildId, recent);
+    if (!song) {
+      logger.info({ guildId: this.guildId }, 'Autoplay found nothing left to play');
+      return false;
+    }
+    this.queue.append(song);
+    return true;
+  }
+
+  private async playSong(
+    next: QueuedSong,
+    // Used when restoring a saved session: start mid-track and/or paused.
+    resumeFrom: { positionMs: number; paused: boolean } = { positionMs: 0, paused: false }
+  ): Promise<void> {
     this.cancelIdleLeave();
+    // Anything still open here was cut short (replaced queue, override, ...).
+    this.finishHistoryEntry(true);
     this.paused = false;
 
     const hoshimi = getHoshimi();
@@ -432,6 +1298,9 @@ export class GuildPlayer {
         { guildId: this.guildId, track: next.title, error },
         `Failed to get stream URL after 3 attempts`
       );
+      void recordPlaybackFailure(next.youtubeUrl).catch((err) => {
+        logger.error({ err, track: next.title }, 'Failed to record an unavailable song');
+      });
       await this.handlePlaybackFailure('could not load the track from NodeLink');
       return;
     }
@@ -453,8 +1322,30 @@ export class GuildPlayer {
       await player.connect();
     }
 
-    // Apply volume via NodeLink volume filter.
-    const volume = 100 + (next.volumeBoost ?? 0);
+    // Audio settings: fade length and timescale now, all filters once playing.
+    // Filters come from the track's audio profile (song, playlist, tag or guild).
+    const settings = await db
+      .select({ fadeMs: tables.guildSettings.fadeMs })
+      .from(tables.guildSettings)
+      .where(eq(tables.guildSettings.guildId, this.guildId))
+      .get();
+
+    // Apply volume via NodeLink volume filter. With fades on the track starts
+    // silent and fades in below — including when NodeLink already switched to
+    // the gapless preload, which began at the silence the closing fade left.
+    this.cancelFade();
+    this.cancelFadeOut();
+    this.cancelTrimEnd();
+    this.fadeMs = settings?.fadeMs ?? 0;
+    const filters = await buildTrackFilters(this.guildId, next);
+    this.playbackRate = filtersPlaybackRate(filters);
+    this.boost = playbackBoost(next);
+    const volume = this.trackVolume();
+    const fadeIn = this.fadeMs > 0 && !resumeFrom.paused;
+    this.baseVolume = volume;
+    this.volume = fadeIn ? 0 : volume;
+    // Positions count from the start offset; NodeLink's count from the video's start.
+    const startMs = (next.startOffsetMs ?? 0) + resumeFrom.positionMs;
 
     await player.play({
       track: new Track(
@@ -477,113 +1368,45 @@ export class GuildPlayer {
         },
         {}
       ),
-      volume,
+      volume: this.volume,
+      ...(startMs > 0 && { position: startMs }),
+      ...(resumeFrom.paused && { paused: true }),
     });
 
-    // Apply compressor filter if enabled
-    const settings = await db
-      .select({
-        enabled: tables.guildSettings.compressorEnabled,
-        threshold: tables.guildSettings.compressorThreshold,
-        ratio: tables.guildSettings.compressorRatio,
-        attack: tables.guildSettings.compressorAttack,
-        release: tables.guildSettings.compressorRelease,
-        gain: tables.guildSettings.compressorGain,
-        eqBand0: tables.guildSettings.eqBand0,
-        eqBand1: tables.guildSettings.eqBand1,
-        eqBand2: tables.guildSettings.eqBand2,
-        eqBand3: tables.guildSettings.eqBand3,
-        eqBand4: tables.guildSettings.eqBand4,
-        eqBand5: tables.guildSettings.eqBand5,
-        eqBand6: tables.guildSettings.eqBand6,
-        eqBand7: tables.guildSettings.eqBand7,
-        eqBand8: tables.guildSettings.eqBand8,
-        eqBand9: tables.guildSettings.eqBand9,
-        eqBand10: tables.guildSettings.eqBand10,
-        eqBand11: tables.guildSettings.eqBand11,
-        eqBand12: tables.guildSettings.eqBand12,
-        eqBand13: tables.guildSettings.eqBand13,
-        eqBand14: tables.guildSettings.eqBand14,
-      })
-      .from(tables.guildSettings)
-      .where(eq(tables.guildSettings.id, 1))
-      .get();
-
-    if (settings?.enabled) {
-      const node = player.node;
-      if (node) {
-        try {
-          await node.rest.updatePlayer({
-            guildId: this.guildId,
-            playerOptions: {
-              filters: {
-                compressor: {
-                  threshold: settings.threshold,
-                  ratio: settings.ratio,
-                  attack: settings.attack,
-                  release: settings.release,
-                  gain: settings.gain,
-                },
-              },
-            },
-          } as Parameters<typeof node.rest.updatePlayer>[0]);
-        } catch (err) {
-          // Don't fail playback — log and continue
-          logger.error(
-            { err, guildId: this.guildId },
-            'Failed to apply compressor filter on playback start'
-          );
-        }
-      }
-    }
-
-    // Apply equalizer filter if any band is non-neutral
-    const eqBands = settings
-      ? [
-          settings.eqBand0,
-          settings.eqBand1,
-          settings.eqBand2,
-          settings.eqBand3,
-          settings.eqBand4,
-          settings.eqBand5,
-          settings.eqBand6,
-          settings.eqBand7,
-          settings.eqBand8,
-          settings.eqBand9,
-          settings.eqBand10,
-          settings.eqBand11,
-          settings.eqBand12,
-          settings.eqBand13,
-          settings.eqBand14,
-        ]
-      : Array(15).fill(50);
-
+    // Apply all filters in one call; each updatePlayer replaces the whole set.
+    // Sent even when empty, to clear a profile the previous track played with.
     const node = player.node;
-    if (node && eqBands.some((b) => b !== 50)) {
+    if (node) {
       try {
-        const equalizerFilter = eqBands.map((value, index) => ({
-          band: index,
-          gain: (value - 50) / 100,
-        }));
         await node.rest.updatePlayer({
           guildId: this.guildId,
-          playerOptions: {
-            filters: {
-              equalizer: equalizerFilter,
-            },
-          },
+          playerOptions: { filters },
         } as Parameters<typeof node.rest.updatePlayer>[0]);
       } catch (err) {
-        logger.error(
-          { err, guildId: this.guildId },
-          'Failed to apply equalizer filter on playback start'
-        );
+        // Don't fail playback — log and continue
+        logger.error({ err, guildId: this.guildId }, 'Failed to apply filters on playback start');
       }
     }
 
     this.consecutiveFailures = 0;
-    this.trackStartedAt = Date.now();
+    void recordPlaybackSuccess(next.youtubeUrl).catch((err) => {
+      logger.error({ err, track: next.title }, 'Failed to clear an unavailable song');
+    });
+    const historyId = startPlayHistoryEntry(this.guildId, next);
+    this.historyEntry = historyId ? { id: historyId, fromMs: resumeFrom.positionMs } : null;
+    this.trackStartedAt = Date.now() - resumeFrom.positionMs / this.playbackRate;
     this.pausedAt = null;
+    if (resumeFrom.paused) {
+      this.paused = true;
+      this.pauseReason = 'user';
+      this.pausedAt = Date.now();
+      this.scheduleIdleLeave();
+    }
+    if (fadeIn) {
+      void this.fadeTo(this.baseVolume, Math.min(this.fadeMs, (next.duration * 1000) / 2));
+    }
+    this.scheduleFadeOut();
+    this.scheduleTrimEnd();
     this.broadcast();
 
     // Kick off gapless preload for the next track (fire-and-forget)
@@ -645,7 +1468,11 @@ export class GuildPlayer {
     await this.playNext();
   }
 
-  private async onTrackEnd(): Promise<void> {
+  private async onTrackEnd(reason: TrackEndEvent['reason']): Promise<void> {
+    // Only a natural finish counts as played through. Stops and cleanups come
+    // from skip()/stop()/destroy, which close the entry themselves — and by
+    // the time the event arrives it may already belong to the next track.
+    if (reason === 'finished') this.finishHistoryEntry(false);
     this.trackStartedAt = null;
     this.pausedAt = null;
 
@@ -1,4 +1,4 @@
-import { fisherYatesShuffle } from './shared';
+import { fisherYatesShuffle, spreadShuffle } from './shared';
 
 // ---------------------------------------------------------------------------
 // PlaybackCursor
@@ -8,6 +8,27 @@ import { fisherYatesShuffle } from './shared';
 // shuffle via a separate playback order index array.
 // ---------------------------------------------------------------------------
 
+/**
+ * Keys to keep apart when shuffling, e.g. a song's artist; see spreadShuffle.
+ * Without one, shuffles are plain Fisher-Yates.
+ */
+export type SpreadKeys<T> = (item: T) => string[];
+
+/** Serializable form of a cursor, used to persist the queue across restarts. */
+export interface PlaybackCursorSnapshot<T> {
+  items: T[];
+  readIndex: number;
+  playbackOrder: number[] | null;
+}
+
+/**
+ * Maps a buffer index from before an edit to the same item's index after
+ * it, or null if that item was removed.
+ */
+export type BufferIndexMap = (bufferIndex: number) => number | null;
+
+const unchanged: BufferIndexMap = (bufferIndex) => bufferIndex;
+
 export class PlaybackCursor<T> {
   private buffer: T[];
   private readIndex = 0;
@@ -65,10 +86,51 @@ export class PlaybackCursor<T> {
 
   /**
    * Reset the read pointer to the beginning.
-   * Used for queue loop mode to wrap around.
+   * Used for queue loop mode to wrap around. A shuffled queue gets a fresh
+   * order each time round instead of replaying the same one.
    */
-  reset(): void {
+  reset(spreadKeys?: SpreadKeys<T>): void {
+    const lastRound = this.playbackOrder;
     this.readIndex = 0;
+    if (lastRound !== null) {
+      this.playbackOrder = this.shuffledOrder([...lastRound], lastRound, spreadKeys);
+    }
+  }
+
+  /**
+   * Buffer index of the current item, or undefined if at end. Unlike the read
+   * position, it keeps pointing at the same item across shuffle/unshuffle.
+   */
+  currentIndex(): number | undefined {
+    if (this.isAtEnd) return undefined;
+    return this.playbackOrder ? this.playbackOrder[this.readIndex] : this.readIndex;
+  }
+
+  /**
+   * Get the item at a buffer index (as returned by currentIndex()).
+   */
+  at(bufferIndex: number): T | undefined {
+    return this.buffer[bufferIndex];
+  }
+
+  /**
+   * Buffer index of the last item in playback order, or undefined if empty.
+   */
+  lastIndex(): number | undefined {
+    if (this.buffer.length === 0) return undefined;
+    const last = this.buffer.length - 1;
+    return this.playbackOrder ? this.playbackOrder[last] : last;
+  }
+
+  /**
+   * Move the read pointer to the given buffer item, so that current() returns
+   * it. Used to step back to an earlier item. Returns false if the index is
+   * out of range.
+   */
+  seekTo(bufferIndex: number): boolean {
+    if (bufferIndex < 0 || bufferIndex >= this.buffer.length) return false;
+    this.readIndex = this.playbackOrder ? this.playbackOrder.indexOf(bufferIndex) : bufferIndex;
+    return true;
   }
 
   // ---------------------------------------------------------------------------
@@ -76,29 +138,35 @@ export class PlaybackCursor<T> {
   // ---------------------------------------------------------------------------
 
   /**
-   * Shuffle the playback order using Fisher-Yates algorithm.
+   * Shuffle the playback order using Fisher-Yates algorithm, or spread apart
+   * by `spreadKeys` when given.
    * The buffer contents remain unchanged; only the access order is randomized.
    * Only shuffles unplayed items (after current position), keeping already-played
-   * items in their original order. Preserves the current read position.
+   * items in the order they were played. Preserves the current read position.
    */
-  shuffle(): void {
+  shuffle(spreadKeys?: SpreadKeys<T>): void {
     if (this.buffer.length <= 1) {
       return;
     }
 
-    // Keep played items in original order (if any)
-    const played = Array.from({ length: this.readIndex }, (_, i) => i);
+    // Keep played items in the order they played (if any), so stepping back
+    // after a reshuffle retraces the same songs.
+    const order = this.playbackOrder ?? Array.from({ length: this.buffer.length }, (_, i) => i);
+    const played = order.slice(0, this.readIndex);
 
-    // Create array of remaining indices to shuffle
-    const remaining = Array.from(
-      { length: this.buffer.length - this.readIndex },
-      (_, i) => this.readIndex + i
-    );
+    // Remaining indices to shuffle
+    const remaining = order.slice(this.readIndex);
 
-    // Fisher-Yates shuffle only the remaining items
-    fisherYatesShuffle(remaining);
+    this.playbackOrder = [...played, ...this.shuffledOrder(remaining, played, spreadKeys)];
+  }
 
-    this.playbackOrder = [...played, ...remaining];
+  /** Shuffles buffer indices; `before` are those played just before them. */
+  private shuffledOrder(indices: number[], before: number[], spreadKeys?: SpreadKeys<T>): number[] {
+    if (!spreadKeys) {
+      fisherYatesShuffle(indices);
+      return indices;
+    }
+    return spreadShuffle(indices, (i) => spreadKeys(this.buffer[i]), before);
   }
 
   /**
@@ -145,6 +213,94 @@ export class PlaybackCursor<T> {
     }
   }
 
+  // Upcoming-item edits take positions in toRemaining(), so they line up with
+  // the queue as displayed. Items already played are never touched. Each edit
+  // returns a BufferIndexMap so callers holding buffer indices (see
+  // currentIndex()) can follow their items, or null if a position is out of
+  // range. While shuffled, edits apply to the shuffled order; unshuffle()
+  // still restores the original one, with inserted items at the end.
+
+  /** Number of items toRemaining() returns. */
+  get remainingLength(): number {
+    return Math.max(0, this.buffer.length - this.readIndex - 1);
+  }
+
+  /** Get the item at a position in toRemaining(). */
+  upcomingAt(position: number): T | undefined {
+    if (!this.isUpcoming(position)) return undefined;
+    return this.buffer[this.bufferIndexAt(this.readIndex + 1 + position)];
+  }
+
+  /** Remove the item at a position in toRemaining(). */
+  removeUpcoming(position: number): BufferIndexMap | null {
+    if (!this.isUpcoming(position)) return null;
+
+    const orderIndex = this.readIndex + 1 + position;
+    const removed = this.bufferIndexAt(orderIndex);
+    this.buffer.splice(removed, 1);
+    if (this.playbackOrder !== null) {
+      this.playbackOrder.splice(orderIndex, 1);
+      this.playbackOrder = this.playbackOrder.map((i) => (i > removed ? i - 1 : i));
+    }
+
+    return (i) => (i === removed ? null : i > removed ? i - 1 : i);
+  }
+
+  /** Move an item from one position in toRemaining() to another. */
+  moveUpcoming(from: number, to: number): BufferIndexMap | null {
+    if (!this.isUpcoming(from) || !this.isUpcoming(to)) return null;
+    if (from === to) return unchanged;
+
+    const fromIndex = this.readIndex + 1 + from;
+    const toIndex = this.readIndex + 1 + to;
+
+    // Shuffled: only the playback order changes, the buffer stays put.
+    if (this.playbackOrder !== null) {
+      const [moved] = this.playbackOrder.splice(fromIndex, 1);
+      this.playbackOrder.splice(toIndex, 0, moved);
+      return unchanged;
+    }
+
+    const [moved] = this.buffer.splice(fromIndex, 1);
+    this.buffer.splice(toIndex, 0, moved);
+    return (i) => {
+      if (i === fromIndex) return toIndex;
+      if (fromIndex < toIndex && i > fromIndex && i <= toIndex) return i - 1;
+      if (toIndex < fromIndex && i >= toIndex && i < fromIndex) return i + 1;
+      return i;
+    };
+  }
+
+  /**
+   * Insert an item so that it lands at a position in toRemaining(); positions
+   * past the end append. With nothing left to play the item becomes the next
+   * one, the same as append().
+   */
+  insertUpcoming(position: number, item: T): BufferIndexMap | null {
+    if (!Number.isInteger(position) || position < 0) return null;
+
+    const orderIndex = Math.min(this.readIndex + 1 + position, this.buffer.length);
+
+    // Shuffled: the item joins the end of the buffer and is slotted into the
+    // playback order.
+    if (this.playbackOrder !== null) {
+      this.playbackOrder.splice(orderIndex, 0, this.buffer.length);
+      this.buffer.push(item);
+      return unchanged;
+    }
+
+    this.buffer.splice(orderIndex, 0, item);
+    return (i) => (i >= orderIndex ? i + 1 : i);
+  }
+
+  private isUpcoming(position: number): boolean {
+    return Number.isInteger(position) && position >= 0 && position < this.remainingLength;
+  }
+
+  private bufferIndexAt(orderIndex: number): number {
+    return this.playbackOrder ? this.playbackOrder[orderIndex] : orderIndex;
+  }
+
   /**
    * Clear all items from the buffer.
    */
@@ -158,6 +314,31 @@ export class PlaybackCursor<T> {
   // Utility Operations
   // ---------------------------------------------------------------------------
 
+  /**
+   * Capture the buffer, read position and shuffle order.
+   */
+  toSnapshot(): PlaybackCursorSnapshot<T> {
+    return {
+      items: [...this.buffer],
+      readIndex: this.readIndex,
+      playbackOrder: this.playbackOrder ? [...this.playbackOrder] : null,
+    };
+  }
+
+  /**
+   * Rebuild a cursor from a snapshot. A playback order that doesn't cover
+   * the buffer exactly is dropped rather than trusted.
+   */
+  static fromSnapshot<T>(snapshot: PlaybackCursorSnapshot<T>): PlaybackCursor<T> {
+    const cursor = new PlaybackCursor(snapshot.items);
+    cursor.readIndex = Math.max(0, Math.min(snapshot.readIndex, cursor.buffer.length));
+    const order = snapshot.playbackOrder;
+    if (order && order.length === cursor.buffer.length) {
+      cursor.playbackOrder = [...order];
+    }
+    return cursor;
+  }
+
   /**
    * Convert remaining items after the current one to an array.
    * Excludes the item at the current read position (for "queue" display
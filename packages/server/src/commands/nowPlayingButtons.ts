@@ -0,0 +1,110 @@
+import type { ComponentInteraction } from 'seyfert';
+import { MessageFlags } from 'seyfert/lib/types';
+import { isConfiguredGuild } from '../lib/config';
+import { NOW_PLAYING_BUTTON_IDS, type NowPlayingButtonId } from '../lib/nowPlaying';
+import { requirePlayer, requirePlaying } from '../lib/player';
+import { requireUserInVoice } from '../lib/voice';
+import { isAdminUser } from '../routes/auth';
+import type { LoopMode } from '../shared';
+
+// ---------------------------------------------------------------------------
+// Now-playing message buttons
+//
+// Each button runs the same checks as the matching /api/guilds/:guildId/player route. On
+// success the interaction is acknowledged silently — the player broadcast
+// edits the message itself. Failures are reported back ephemerally.
+// ---------------------------------------------------------------------------
+
+const NEXT_LOOP_MODE: Record<LoopMode, LoopMode> = {
+  off: 'song',
+  song: 'queue',
+  queue: 'off',
+};
+
+function replyEphemeral(interaction: ComponentInteraction, content: string): Promise<unknown> {
+  return interaction.write({ content, flags: MessageFlags.Ephemeral });
+}
+
+async function replyWithError(
+  interaction: ComponentInteraction,
+  response: Response
+): Promise<unknown> {
+  const { error } = (await response.json()) as { error?: string };
+  return replyEphemeral(interaction, error ?? 'Something went wrong.');
+}
+
+/** Handles a click on one of the now-playing message's control buttons. */
+export async function handleNowPlayingButton(
+  interaction: ComponentInteraction,
+  buttonId: NowPlayingButtonId
+): Promise<void> {
+  const { guildId } = interaction;
+  if (!isConfiguredGuild(guildId)) {
+    await replyEphemeral(interaction, 'These controls only work in an Alfira server.');
+    return;
+  }
+
+  const inVoice = await requireUserInVoice(guildId, interaction.user.id);
+  if (inVoice instanceof Response) {
+    await replyWithError(interaction, inVoice);
+    return;
+  }
+
+  switch (buttonId) {
+    case NOW_PLAYING_BUTTON_IDS.pause: {
+      const playingResult = requirePlaying(guildId);
+      if (!playingResult.ok) {
+        await replyWithError(interaction, playingResult.response);
+        return;
+      }
+      playingResult.player.togglePause();
+      break;
+    }
+    case NOW_PLAYING_BUTTON_IDS.skip: {
+      const playingResult = requirePlaying(guildId);
+      if (!playingResult.ok) {
+        await replyWithError(interaction, playingResult.response);
+        return;
+      }
+      // Acknowledge first: loading the next track can outlast Discord's
+      // three-second interaction deadline.
+      await interaction.deferUpdate();
+      await playingResult.player.skip();
+      return;
+    }
+    case NOW_PLAYING_BUTTON_IDS.loop: {
+      const playerResult = requirePlayer(guildId);
+      if (!playerResult.ok) {
+        await replyWithError(interaction, playerResult.response);
+        return;
+      }
+      const player = playerResult.player;
+      player.setLoopMode(NEXT_LOOP_MODE[player.getLoopMode()]);
+      break;
+    }
+    case NOW_PLAYING_BUTTON_IDS.shuffle: {
+      // Shuffle is admin only, matching POST /api/guilds/:guildId/player/shuffle.
+      if (!isAdminUser(interaction.member?.roles.keys ?? [])) {
+        await replyEphemeral(interaction, 'Admin access required.');
+        return;
+      }
+      const playerResult = requirePlayer(guildId);
+      if (!playerResult.ok) {
+        await replyWithError(interaction, playerResult.response);
+        return;
+      }
+      const player = playerResult.player;
+      if (player.getQueueState().isShuffled) {
+        player.unshuffle();
+      } else if (player.getQueue().length === 0) {
+        await replyEphemeral(interaction, 'No songs in the queue to shuffle.');
+        return;
+      } else {
+        player.shuffle();
+      }
+      break;
+    }
+  }
+
+  await interaction.deferUpdate();
+}
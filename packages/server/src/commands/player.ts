@@ -0,0 +1,534 @@
+import { DestroyReasons } from 'hoshimi';
+import {
+  type AutocompleteInteraction,
+  Command,
+  type CommandContext,
+  createStringOption,
+  Declare,
+  Options,
+} from 'seyfert';
+import { MessageFlags } from 'seyfert/lib/types';
+import { GUILD_IDS, isConfiguredGuild } from '../lib/config';
+import { requirePlayer, requirePlaying } from '../lib/player';
+import { startLibraryPlayback } from '../lib/playback';
+import { canAccessPlaylist } from '../lib/playlistAccess';
+import { formatSong } from '../lib/serialization';
+import { requireUserInVoice, resolveOrAutoJoinPlayer } from '../lib/voice';
+import { isAdminUser } from '../routes/auth';
+import { formatDuration, type LoopMode, type QueuedSong, toQueuedSong } from '../shared';
+import { db, eq, findPlaylistWithSongs, or, sql, tables } from '../shared/db';
+import { getHoshimi, getPlayer } from '../startDiscord';
+
+const { song: songTable, playlist: playlistTable } = tables;
+
+// ---------------------------------------------------------------------------
+// Slash commands
+//
+// Discord-side mirror of routes/player.ts. Every command runs the same
+// checks as its HTTP counterpart (voice membership, player state, admin
+// role, playlist visibility) by calling the shared lib/ helpers, and
+// reports their error messages back as ephemeral replies.
+//
+// tsconfig does not enable decorators, so seyfert's Declare/Options
+// decorators are applied as plain function calls.
+// ---------------------------------------------------------------------------
+
+/** Discord caps autocomplete responses at 25 choices. */
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+/** Number of upcoming songs listed by /queue. */
+const QUEUE_PREVIEW_LENGTH = 10;
+
+function reply(ctx: CommandContext, content: string): Promise<unknown> {
+  return ctx.editOrReply({ content });
+}
+
+/**
+ * Replies only the caller can see. A deferred reply keeps the visibility it
+ * was deferred with, so after a public deferral the "thinking" message is
+ * removed and the reply goes out as an ephemeral follow-up instead.
+ */
+async function replyEphemeral(ctx: CommandContext, content: string): Promise<unknown> {
+  if (!ctx.deferred) return ctx.write({ content, flags: MessageFlags.Ephemeral });
+  await ctx.deleteResponse();
+  return ctx.followup({ content, flags: MessageFlags.Ephemeral });
+}
+
+/** Relays the `{ error }` body of a lib/ helper's error Response to the user. */
+async function replyWithError(ctx: CommandContext, response: Response): Promise<unknown> {
+  const { error } = (await response.json()) as { error?: string };
+  return replyEphemeral(ctx, error ?? 'Something went wrong.');
+}
+
+/**
+ * Commands are registered for the configured guilds only; anything invoked
+ * elsewhere (DMs, other servers) is rejected before touching a player.
+ * Returns the guild whose player the command should act on.
+ */
+async function requireConfiguredGuild(ctx: CommandContext): Promise<string | null> {
+  if (isConfiguredGuild(ctx.guildId)) return ctx.guildId;
+  await replyEphemeral(ctx, 'This command can only be used in an Alfira server.');
+  return null;
+}
+
+function isAdminMember(ctx: CommandContext): boolean {
+  return isAdminUser(ctx.member?.roles.keys ?? []);
+}
+
+function songLabel(song: { title: string; nickname?: string | null }): string {
+  return song.nickname || song.title;
+}
+
+function describeSong(song: QueuedSong): string {
+  return `**${songLabel(song)}** \`${formatDuration(song.duration)}\` — requested by ${song.requestedBy}`;
+}
+
+// ---------------------------------------------------------------------------
+// /join — connect to the caller's voice channel
+// ---------------------------------------------------------------------------
+const JoinCommand = Declare({
+  name: 'join',
+  description: 'Join your voice channel',
+  guildId: [...GUILD_IDS],
+})(
+  class extends Command {
+    async run(ctx: CommandContext) {
+      const guildId = await requireConfiguredGuild(ctx);
+      if (!guildId) return;
+      await ctx.deferReply();
+
+      const playerResult = await resolveOrAutoJoinPlayer(guildId, ctx.author.id);
+      if (!playerResult.ok) {
+        await replyWithError(ctx, playerResult.response);
+        return;
+      }
+
+      await reply(ctx, 'Joined your voice channel.');
+    }
+  }
+);
+
+// ---------------------------------------------------------------------------
+// /play <query> — queue a playlist, or add a library song to Up Next
+// (songs are admin only, matching POST /api/guilds/:guildId/player/add-to-priority)
+// ---------------------------------------------------------------------------
+
+// Autocomplete choices carry a `song:<id>` or `playlist:<id>` value so the
+// command knows which table the pick came from. Free text that was not
+// picked from the list is resolved by name in resolvePlayQuery().
+const SONG_PREFIX = 'song:';
+const PLAYLIST_PREFIX = 'playlist:';
+
+async function autocompletePlayQuery(interaction: AutocompleteInteraction): Promise<void> {
+  const input = interaction.getInput().trim();
+  const pattern = `%${input}%`;
+  const discordId = interaction.user.id;
+
+  const playlists = await db
+    .select({ id: playlistTable.id, name: playlistTable.name })
+    .from(playlistTable)
+    .where(
+      sql`lower(${playlistTable.name}) LIKE lower(${pattern}) AND (${playlistTable.isPrivate} = 0 OR ${playlistTable.createdBy} = ${discordId})`
+    )
+    .orderBy(playlistTable.name)
+    .limit(MAX_AUTOCOMPLETE_CHOICES);
+
+  const songs = await db
+    .select({ id: songTable.id, title: songTable.title, nickname: songTable.nickname })
+    .from(songTable)
+    .where(
+      or(
+        sql`lower(${songTable.title}) LIKE lower(${pattern})`,
+        sql`lower(${songTable.nickname}) LIKE lower(${pattern})`
+      )
+    )
+    .orderBy(songTable.title)
+    .limit(MAX_AUTOCOMPLETE_CHOICES);
+
+  // Choice names are capped at 100 characters by Discord.
+  const choices = [
+    ...playlists.map((p) => ({
+      name: `Playlist: ${p.name}`.slice(0, 100),
+      value: `${PLAYLIST_PREFIX}${p.id}`,
+    })),
+    ...songs.map((s) => ({
+      name: `Song: ${songLabel(s)}`.slice(0, 100),
+      value: `${SONG_PREFIX}${s.id}`,
+    })),
+  ].slice(0, MAX_AUTOCOMPLETE_CHOICES);
+
+  await interaction.respond(choices);
+}
+
+async function resolvePlayQuery(
+  query: string
+): Promise<{ kind: 'song'; id: string } | { kind: 'playlist'; id: string } | null> {
+  if (query.startsWith(PLAYLIST_PREFIX)) {
+    return { kind: 'playlist', id: query.slice(PLAYLIST_PREFIX.length) };
+  }
+  if (query.startsWith(SONG_PREFIX)) {
+    return { kind: 'song', id: query.slice(SONG_PREFIX.length) };
+  }
+
+  const [playlist] = await db
+    .select({ id: playlistTable.id })
+    .from(playlistTable)
+    .where(sql`lower(${playlistTable.name}) = lower(${query})`)
+    .limit(1);
+  if (playlist) return { kind: 'playlist', id: playlist.id };
+
+  const [song] = await db
+    .select({ id: songTable.id })
+    .from(songTable)
+    .where(
+      or(
+        sql`lower(${songTable.title}) = lower(${query})`,
+        sql`lower(${songTable.nickname}) = lower(${query})`
+      )
+    )
+    .limit(1);
+  if (song) return { kind: 'song', id: song.id };
+
+  return null;
+}
+
+const playOptions = {
+  query: createStringOption({
+    description: 'Song or playlist to play',
+    required: true,
+    autocomplete: autocompletePlayQuery,
+  }),
+};
+
+const PlayCommand = Declare({
+  name: 'play',
+  description: 'Play a playlist or add a song to Up Next',
+  guildId: [...GUILD_IDS],
+})(
+  Options(playOptions)(
+    class extends Command {
+      async run(ctx: CommandContext<typeof playOptions>) {
+        const guildId = await requireConfiguredGuild(ctx);
+        if (!guildId) return;
+        await ctx.deferReply();
+
+        const inVoice = await requireUserInVoice(guildId, ctx.author.id);
+        if (inVoice instanceof Response) {
+          await replyWithError(ctx, inVoice);
+          return;
+        }
+
+        const target = await resolvePlayQuery(ctx.options.query.trim());
+        if (!target) {
+          await replyEphemeral(ctx, 'No song or playlist matches that name.');
+          return;
+        }
+
+        const requestedBy = ctx.author.username;
+
+        if (target.kind === 'song') {
+          if (!isAdminMember(ctx)) {
+            await replyEphemeral(ctx, 'Admin access required.');
+            return;
+          }
+
+          const [song] = await db
+            .select()
+            .from(songTable)
+            .where(eq(songTable.id, target.id))
+            .limit(1);
+          if (!song) {
+            await replyEphemeral(ctx, 'Song not found.');
+            return;
+          }
+
+          const playerResult = await resolveOrAutoJoinPlayer(guildId, ctx.author.id);
+          if (!playerResult.ok) {
+            await replyWithError(ctx, playerResult.response);
+            return;
+          }
+
+          await playerResult.player.addToPriorityQueue(toQueuedSong(formatSong(song), requestedBy));
+          await reply(ctx, `Added "${songLabel(song)}" to Up Next.`);
+          return;
+        }
+
+        const playlist = await findPlaylistWithSongs(target.id);
+        if (!playlist) {
+          await replyEphemeral(ctx, 'Playlist not found.');
+          return;
+        }
+
+        const accessResult = canAccessPlaylist(playlist, { discordId: ctx.author.id }, undefined);
+        if (!accessResult.ok) {
+          await replyEphemeral(ctx, accessResult.error);
+          return;
+        }
+
+        if (playlist.songs.length === 0) {
+          await replyEphemeral(ctx, 'No songs found to play.');
+          return;
+        }
+
+        const playerResult = await resolveOrAutoJoinPlayer(guildId, ctx.author.id);
+        if (!playerResult.ok) {
+          await replyWithError(ctx, playerResult.response);
+          return;
+        }
+
+        // Same path as POST /player/play, so the loop mode and the playlist's
+        // audio preset apply to slash-command playback too.
+        const result = await startLibraryPlayback(
+          playerResult.player,
+          { playlistId: playlist.id },
+          requestedBy,
+          { discordId: ctx.author.id }
+        );
+        if (!result.ok) {
+          await replyEphemeral(ctx, result.error);
+          return;
+        }
+
+        await reply(ctx, `Queued ${result.count} song(s) from "${playlist.name}".`);
+      }
+    }
+  )
+);
+
+// ---------------------------------------------------------------------------
+// /skip — skip current song
+// ---------------------------------------------------------------------------
+const SkipCommand = Declare({
+  name: 'skip',
+  description: 'Skip the current song',
+  guildId: [...GUILD_IDS],
+})(
+  class extends Command {
+    async run(ctx: CommandContext) {
+      const guildId = await requireConfiguredGuild(ctx);
+      if (!guildId) return;
+      await ctx.deferReply();
+
+      const inVoice = await requireUserInVoice(guildId, ctx.author.id);
+      if (inVoice instanceof Response) {
+        await replyWithError(ctx, inVoice);
+        return;
+      }
+
+      const playingResult = requirePlaying(guildId);
+      if (!playingResult.ok) {
+        await replyWithError(ctx, playingResult.response);
+        return;
+      }
+
+      const skipped = playingResult.player.getCurrentSong();
+      await playingResult.player.skip();
+      await reply(ctx, skipped ? `Skipped "${songLabel(skipped)}".` : 'Skipped.');
+    }
+  }
+);
+
+// ---------------------------------------------------------------------------
+// /pause — pause/resume
+// ---------------------------------------------------------------------------
+const PauseCommand = Declare({
+  name: 'pause',
+  description: 'Pause or resume playback',
+  guildId: [...GUILD_IDS],
+})(
+  class extends Command {
+    async run(ctx: CommandContext) {
+      const guildId = await requireConfiguredGuild(ctx);
+      if (!guildId) return;
+
+      const inVoice = await requireUserInVoice(guildId, ctx.author.id);
+      if (inVoice instanceof Response) {
+        await replyWithError(ctx, inVoice);
+        return;
+      }
+
+      const playingResult = requirePlaying(guildId);
+      if (!playingResult.ok) {
+        await replyWithError(ctx, playingResult.response);
+        return;
+      }
+
+      const isPaused = playingResult.player.togglePause();
+      await reply(ctx, isPaused ? 'Paused.' : 'Resumed.');
+    }
+  }
+);
+
+// ---------------------------------------------------------------------------
+// /queue — list the current song and what plays next
+// ---------------------------------------------------------------------------
+const QueueCommand = Declare({
+  name: 'queue',
+  description: 'Show the current queue',
+  guildId: [...GUILD_IDS],
+})(
+  class extends Command {
+    async run(ctx: CommandContext) {
+      const guildId = await requireConfiguredGuild(ctx);
+      if (!guildId) return;
+
+      const state = getPlayer(guildId)?.getQueueState();
+      if (!state?.currentSong) {
+        await replyEphemeral(ctx, 'Nothing is currently playing.');
+        return;
+      }
+
+      const upcoming = [...state.priorityQueue, ...state.queue];
+      const lines = [`Now playing: ${describeSong(state.currentSong)}`];
+
+      if (upcoming.length === 0) {
+        lines.push('', 'The queue is empty.');
+      } else {
+        lines.push('', 'Up next:');
+        for (const [index, song] of upcoming.slice(0, QUEUE_PREVIEW_LENGTH).entries()) {
+          lines.push(`${index + 1}. ${describeSong(song)}`);
+        }
+        if (upcoming.length > QUEUE_PREVIEW_LENGTH) {
+          lines.push(`…and ${upcoming.length - QUEUE_PREVIEW_LENGTH} more.`);
+        }
+      }
+
+      lines.push(
+        '',
+        `Loop: ${state.loopMode} · Shuffle: ${state.isShuffled ? (state.smartShuffle ? 'smart' : 'on') : 'off'}`
+      );
+      await replyEphemeral(ctx, lines.join('\n'));
+    }
+  }
+);
+
+// ---------------------------------------------------------------------------
+// /nowplaying — show the current song and its progress
+// ---------------------------------------------------------------------------
+const NowPlayingCommand = Declare({
+  name: 'nowplaying',
+  description: 'Show the song that is currently playing',
+  guildId: [...GUILD_IDS],
+})(
+  class extends Command {
+    async run(ctx: CommandContext) {
+      const guildId = await requireConfiguredGuild(ctx);
+      if (!guildId) return;
+
+      const playingResult = requirePlaying(guildId);
+      if (!playingResult.ok) {
+        await replyWithError(ctx, playingResult.response);
+        return;
+      }
+
+      const player = playingResult.player;
+      const song = player.getCurrentSong();
+      if (!song) return;
+
+      // trackStartedAt keeps moving while paused, so only report a position
+      // for audible playback.
+      const { trackStartedAt, isPaused, playbackRate } = player.getQueueState();
+      const elapsedSec = trackStartedAt
+        ? Math.min(song.duration, Math.floor(((Date.now() - trackStartedAt) * playbackRate) / 1000))
+        : 0;
+      const position = isPaused
+        ? 'paused'
+        : `${formatDuration(elapsedSec)} / ${formatDuration(song.duration)}`;
+
+      await reply(ctx, `Now playing: ${describeSong(song)} (${position})\n${song.youtubeUrl}`);
+    }
+  }
+);
+
+// ---------------------------------------------------------------------------
+// /loop <mode> — set loop mode
+// ---------------------------------------------------------------------------
+const loopOptions = {
+  mode: createStringOption({
+    description: 'What to repeat',
+    required: true,
+    choices: [
+      { name: 'Off', value: 'off' },
+      { name: 'Song', value: 'song' },
+      { name: 'Queue', value: 'queue' },
+    ] as const,
+  }),
+};
+
+const LoopCommand = Declare({
+  name: 'loop',
+  description: 'Set the loop mode',
+  guildId: [...GUILD_IDS],
+})(
+  Options(loopOptions)(
+    class extends Command {
+      async run(ctx: CommandContext<typeof loopOptions>) {
+        const guildId = await requireConfiguredGuild(ctx);
+        if (!guildId) return;
+
+        const inVoice = await requireUserInVoice(guildId, ctx.author.id);
+        if (inVoice instanceof Response) {
+          await replyWithError(ctx, inVoice);
+          return;
+        }
+
+        const playerResult = requirePlayer(guildId);
+        if (!playerResult.ok) {
+          await replyWithError(ctx, playerResult.response);
+          return;
+        }
+
+        const mode = ctx.options.mode as LoopMode;
+        playerResult.player.setLoopMode(mode);
+        await reply(ctx, `Loop mode set to ${mode}.`);
+      }
+    }
+  )
+);
+
+// ---------------------------------------------------------------------------
+// /leave — stop and disconnect
+// ---------------------------------------------------------------------------
+const LeaveCommand = Declare({
+  name: 'leave',
+  description: 'Stop playback and leave the voice channel',
+  guildId: [...GUILD_IDS],
+})(
+  class extends Command {
+    async run(ctx: CommandContext) {
+      const guildId = await requireConfiguredGuild(ctx);
+      if (!guildId) return;
+
+      const inVoice = await requireUserInVoice(guildId, ctx.author.id);
+      if (inVoice instanceof Response) {
+        await replyWithError(ctx, inVoice);
+        return;
+      }
+
+      const player = getPlayer(guildId);
+      const hoshimiPlayer = getHoshimi()?.players.get(guildId);
+
+      if (!player && !hoshimiPlayer) {
+        await replyEphemeral(ctx, 'The bot is not in a voice channel.');
+        return;
+      }
+
+      // A voice connection can outlive its GuildPlayer; tear it down directly.
+      if (player) player.stop({ fadeOut: true });
+      else hoshimiPlayer?.destroy(DestroyReasons.Requested);
+
+      await reply(ctx, 'Left the voice channel.');
+    }
+  }
+);
+
+export const playerCommands = [
+  JoinCommand,
+  PlayCommand,
+  SkipCommand,
+  PauseCommand,
+  QueueCommand,
+  NowPlayingCommand,
+  LoopCommand,
+  LeaveCommand,
+];
@@ -4,20 +4,30 @@ import { readdirSync, readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { parse } from 'cookie';
 import { sql } from 'drizzle-orm';
-import { logger } from './lib/config';
+import { startAvailabilityScanner, stopAvailabilityScanner } from './lib/availability';
+import { isConfiguredGuild, logger } from './lib/config';
+import { ensureGuildSettingsMigrated } from './lib/ensureGuildSettingsMigrated';
 import { ensureTagsMigrated } from './lib/ensureTagsMigrated';
 import { json } from './lib/json';
+import { stopLoudnessAnalysis } from './lib/loudness';
+import { loadSavedSessions } from './lib/playerSnapshots';
+import { startScheduler, stopScheduler } from './lib/scheduler';
 import { closeAllClients, registerClient, unregisterClient } from './lib/socket';
+import { loadMasterVolumes } from './lib/volume';
 import { verifySessionToken } from './middleware/requireAuth';
 import { handleAuth } from './routes/auth';
 import { handleCompressor } from './routes/compressor';
 import { handleEqualizerGet, handleEqualizerPatch } from './routes/equalizer';
+import { handleFadeGet, handleFadePatch } from './routes/fade';
+import { handleFiltersGet, handleFiltersPatch } from './routes/filters';
 import { handlePlayer } from './routes/player';
 import { handlePlaylists } from './routes/playlists';
+import { handlePresets } from './routes/presets';
+import { handleSchedules } from './routes/schedules';
 import { handleSongs } from './routes/songs';
 import { handleTags } from './routes/tags';
 import { $client, db } from './shared/db';
-import { destroyAllPlayers, startDiscord } from './startDiscord';
+import { destroyAllPlayers, persistAllPlayers, startDiscord } from './startDiscord';
 
 // ---------------------------------------------------------------------------
 // Validate required environment variables.
@@ -27,7 +37,6 @@ const requiredVars = [
   'DISCORD_CLIENT_ID',
   'DISCORD_CLIENT_SECRET',
   'DISCORD_REDIRECT_URI',
-  'GUILD_ID',
   'DATABASE_URL',
   'JWT_SECRET',
 ];
@@ -61,6 +70,11 @@ export type RouteContext = {
   cookies: Record<string, string>;
 };
 
+/** Context for routes under /api/guilds/:guildId — isAdmin is scoped to that guild. */
+export type GuildRouteContext = RouteContext & { guildId: string };
+
+const GUILD_ROUTE_PATTERN = /^\/api\/guilds\/([^/]+)(\/.*)$/;
+
 // ---------------------------------------------------------------------------
 // Response helpers
 // ---------------------------------------------------------------------------
@@ -112,6 +126,24 @@ function createContext(request: Request): RouteContext {
   return { user, isAdmin: user?.isAdmin ?? false, cookies };
 }
 
+/**
+ * Narrows a route context to one guild. Unknown guilds are 404s and
+ * authenticated users must be members of the guild; unauthenticated requests
+ * pass through so the handlers can answer with their usual 401.
+ */
+function createGuildContext(ctx: RouteContext, guildId: string): GuildRouteContext | Response {
+  if (!isConfiguredGuild(guildId)) {
+    return json({ error: 'Guild not found.' }, 404);
+  }
+  if (!ctx.user) return { ...ctx, guildId };
+
+  const membership = ctx.user.guilds.find((guild) => guild.id === guildId);
+  if (!membership) {
+    return json({ error: 'You are not a member of this server.' }, 403);
+  }
+  return { ...ctx, isAdmin: membership.isAdmin, guildId };
+}
+
 // ---------------------------------------------------------------------------
 // Health check
 // ---------------------------------------------------------------------------
@@ -147,9 +179,14 @@ const server = Bun.serve({
       if (!user) {
         return new Response('Unauthorized', { status: 401 });
       }
+      // Each socket follows one guild's player, chosen with ?guildId=.
+      const guildId = url.searchParams.get('guildId');
+      if (!isConfiguredGuild(guildId) || !user.guilds.some((guild) => guild.id === guildId)) {
+        return new Response('Forbidden', { status: 403 });
+      }
       // Use server.upgrade() instead of WebSocketPair — it auto-returns 101
       // and attaches data to the WebSocket accessible in the websocket handler.
-      const success = server.upgrade(request, { data: { user } });
+      const success = server.upgrade(request, { data: { user, guildId } });
       if (success) return undefined;
       return new Response('WebSocket upgrade failed', { status: 500 });
     }
@@ -182,16 +219,41 @@ const server = Bun.serve({
     if (url.pathname.startsWith('/api/playlists')) {
       return setSecurityHeaders(await handlePlaylists(ctx, request));
     }
-    if (url.pathname.startsWith('/api/player')) {
-      return setSecurityHeaders(await handlePlayer(ctx, request));
-    }
-    if (url.pathname.startsWith('/api/settings/compressor')) {
-      return setSecurityHeaders(await handleCompressor(ctx, request));
-    }
-    if (url.pathname.startsWith('/api/settings/equalizer')) {
-      if (request.method === 'GET') return setSecurityHeaders(await handleEqualizerGet(ctx));
-      if (request.method === 'PATCH')
-        return setSecurityHeaders(await handleEqualizerPatch(ctx, request));
+
+    // Guild-scoped routes: /api/guilds/:guildId/...
+    const guildMatch = url.pathname.match(GUILD_ROUTE_PATTERN);
+    if (guildMatch) {
+      const guildCtx = createGuildContext(ctx, guildMatch[1]);
+      if (guildCtx instanceof Response) return setSecurityHeaders(guildCtx);
+      const guildPath = guildMatch[2];
+
+      if (guildPath.startsWith('/player')) {
+        return setSecurityHeaders(await handlePlayer(guildCtx, request));
+      }
+      if (guildPath.startsWith('/settings/compressor')) {
+        return setSecurityHeaders(await handleCompressor(guildCtx, request));
+      }
+      if (guildPath.startsWith('/settings/equalizer')) {
+        if (request.method === 'GET') return setSecurityHeaders(await handleEqualizerGet(guildCtx));
+        if (request.method === 'PATCH')
+          return setSecurityHeaders(await handleEqualizerPatch(guildCtx, request));
+      }
+      if (guildPath.startsWith('/settings/fade')) {
+        if (request.method === 'GET') return setSecurityHeaders(await handleFadeGet(guildCtx));
+        if (request.method === 'PATCH')
+          return setSecurityHeaders(await handleFadePatch(guildCtx, request));
+      }
+      if (guildPath.startsWith('/settings/filters')) {
+        if (request.method === 'GET') return setSecurityHeaders(await handleFiltersGet(guildCtx));
+        if (request.method === 'PATCH')
+          return setSecurityHeaders(await handleFiltersPatch(guildCtx, request));
+      }
+      if (guildPath.startsWith('/settings/presets')) {
+        return setSecurityHeaders(await handlePresets(guildCtx, request));
+      }
+      if (guildPath.startsWith('/settings/schedules')) {
+        return setSecurityHeaders(await handleSchedules(guildCtx, request));
+      }
     }
     if (url.pathname.startsWith('/auth')) {
       return setSecurityHeaders(await handleAuth(ctx, request));
@@ -203,7 +265,7 @@ const server = Bun.serve({
     );
   },
   websocket: {
-    data: {} as { user: NonNullable<ReturnType<typeof verifySessionToken>> },
+    data: {} as { user: NonNullable<ReturnType<typeof verifySessionToken>>; guildId: string },
     open(ws) {
       // Log only — user was stored via server.upgrade() data.
       // biome-ignore lint/suspicious/noExplicitAny: ServerWebSocket doesn't expose id at type level
@@ -337,6 +399,27 @@ async function main(): Promise<void> {
     logger.error(error, 'Tag migration failed (tags may not appear in autocomplete)');
   }
 
+  // 1.6. Hand the pre-multi-guild settings row to the first configured guild.
+  try {
+    await ensureGuildSettingsMigrated();
+  } catch (error) {
+    logger.error(error, 'Guild settings migration failed (audio settings may be reset)');
+  }
+
+  // 1.7. Load player sessions saved before the last shutdown so they can be offered for restore.
+  try {
+    await loadSavedSessions();
+  } catch (error) {
+    logger.error(error, 'Could not load saved player sessions');
+  }
+
+  // 1.8. Cache each guild's master volume for the player state.
+  try {
+    await loadMasterVolumes();
+  } catch (error) {
+    logger.error(error, 'Could not load master volumes (guilds will play at 100%)');
+  }
+
   // 2. Verify database connectivity.
   try {
     await db.all(sql`SELECT 1`);
@@ -359,6 +442,12 @@ async function main(): Promise<void> {
   } catch (error) {
     logger.error(error, 'Failed to start the Discord bot');
   }
+
+  // 5. Start running playback schedules.
+  startScheduler();
+
+  // 6. Start checking the library for songs that no longer play.
+  startAvailabilityScanner();
 }
 
 main().catch((err) => {
@@ -382,12 +471,17 @@ function shutdown(signal: string): void {
   nodelinkProcess?.kill();
   logger.info('NodeLink stopped');
 
-  // 2. Stop accepting connections and close all WebSocket clients.
+  // 2. Stop accepting connections and close all WebSocket clients. No schedule may start a
+  // player after this point.
+  stopScheduler();
+  stopLoudnessAnalysis();
+  stopAvailabilityScanner();
   server.stop();
   closeAllClients();
   logger.info('Server stopped');
 
-  // 3. Destroy all players (FFmpeg + voice connections).
+  // 3. Save the queues for the next start, then destroy all players (FFmpeg + voice connections).
+  persistAllPlayers();
   destroyAllPlayers();
   logger.info('All players destroyed');
 
@@ -0,0 +1,268 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import {
+  type AudioFilters,
+  type AudioPreset,
+  type AudioProfile,
+  BUILT_IN_PRESETS,
+  DEFAULT_AUDIO_PROFILE,
+  filtersPlaybackRate,
+  type QueuedSong,
+} from '../shared';
+import { db, tables } from '../shared/db';
+import { logger } from '../shared/logger';
+import { getHoshimi, getPlayer } from '../startDiscord';
+import { GUILD_IDS } from './config';
+
+// ---------------------------------------------------------------------------
+// Player filters
+//
+// NodeLink replaces the whole filter set on every updatePlayer call, so the
+// compressor, equalizer and extended filters are always sent together. A
+// track plays with the audio profile of its song's preset, else its
+// playlist's, else the first of its tags with one, else the guild's saved
+// settings. Anything that changes one of those re-applies the lot through
+// applyGuildFilters.
+// ---------------------------------------------------------------------------
+
+/** Everything sent as NodeLink's `filters`. */
+export type PlayerFilters = AudioFilters & {
+  compressor?: { threshold: number; ratio: number; attack: number; release: number; gain: number };
+  equalizer?: { band: number; gain: number }[];
+};
+
+type GuildSettingsRow = typeof tables.guildSettings.$inferSelect;
+
+function bandsOf(settings: GuildSettingsRow): number[] {
+  return [
+    settings.eqBand0,
+    settings.eqBand1,
+    settings.eqBand2,
+    settings.eqBand3,
+    settings.eqBand4,
+    settings.eqBand5,
+    settings.eqBand6,
+    settings.eqBand7,
+    settings.eqBand8,
+    settings.eqBand9,
+    settings.eqBand10,
+    settings.eqBand11,
+    settings.eqBand12,
+    settings.eqBand13,
+    settings.eqBand14,
+  ];
+}
+
+/** The NodeLink `filters` object for an audio profile. */
+function profileFilters(profile: AudioProfile): PlayerFilters {
+  const { bands, compressor } = profile;
+  const filters: PlayerFilters = { ...profile.filters };
+
+  if (compressor.enabled) {
+    filters.compressor = {
+      threshold: compressor.threshold,
+      ratio: compressor.ratio,
+      attack: compressor.attack,
+      release: compressor.release,
+      gain: compressor.gain,
+    };
+  }
+
+  // Maps band values 0→-0.5, 50→0.0 (neutral/flat), 100→0.5
+  if (bands.some((b) => b !== 50)) {
+    filters.equalizer = bands.map((value, index) => ({ band: index, gain: (value - 50) / 100 }));
+  }
+
+  return filters;
+}
+
+/** The guild's saved extended filters. */
+export async function getGuildAudioFilters(guildId: string): Promise<AudioFilters> {
+  const row = await db
+    .select({ filters: tables.guildSettings.filters })
+    .from(tables.guildSettings)
+    .where(eq(tables.guildSettings.guildId, guildId))
+    .get();
+  return row?.filters ?? {};
+}
+
+/** The guild's saved equalizer, compressor and extended filters, as one profile. */
+export async function readGuildAudioProfile(guildId: string): Promise<AudioProfile> {
+  const settings = await db
+    .select()
+    .from(tables.guildSettings)
+    .where(eq(tables.guildSettings.guildId, guildId))
+    .get();
+  if (!settings) return DEFAULT_AUDIO_PROFILE;
+
+  return {
+    bands: bandsOf(settings),
+    compressor: {
+      enabled: settings.compressorEnabled,
+      threshold: settings.compressorThreshold,
+      ratio: settings.compressorRatio,
+      attack: settings.compressorAttack,
+      release: settings.compressorRelease,
+      gain: settings.compressorGain,
+    },
+    filters: settings.filters,
+  };
+}
+
+/**
+ * Saves a whole profile as the guild's audio settings and applies it to the
+ * live player, including any change in playback speed.
+ */
+export async function writeGuildAudioProfile(
+  guildId: string,
+  profile: AudioProfile
+): Promise<void> {
+  const { bands, compressor, filters } = profile;
+  const values = {
+    compressorEnabled: compressor.enabled,
+    compressorThreshold: compressor.threshold,
+    compressorRatio: compressor.ratio,
+    compressorAttack: compressor.attack,
+    compressorRelease: compressor.release,
+    compressorGain: compressor.gain,
+    ...Object.fromEntries(bands.map((value, index) => [`eqBand${index}`, value])),
+    filters,
+  };
+  await db
+    .insert(tables.guildSettings)
+    .values({ guildId, ...values })
+    .onConflictDoUpdate({ target: tables.guildSettings.guildId, set: values })
+    .run();
+
+  await applyGuildFilters(guildId);
+}
+
+export function formatAudioPreset(row: typeof tables.audioPreset.$inferSelect): AudioPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    builtIn: false,
+    profile: row.profile,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/** A built-in preset, or one saved in this guild. */
+export async function findAudioPreset(guildId: string, id: string): Promise<AudioPreset | null> {
+  const builtIn = BUILT_IN_PRESETS.find((preset) => preset.id === id);
+  if (builtIn) return builtIn;
+
+  const row = await db
+    .select()
+    .from(tables.audioPreset)
+    .where(and(eq(tables.audioPreset.id, id), eq(tables.audioPreset.guildId, guildId)))
+    .get();
+  return row ? formatAudioPreset(row) : null;
+}
+
+/**
+ * Whether a preset id can be attached to a song, playlist or tag: a built-in,
+ * or a preset saved in one of the given guilds.
+ */
+export async function audioPresetExists(id: string, guildIds: string[]): Promise<boolean> {
+  if (BUILT_IN_PRESETS.some((preset) => preset.id === id)) return true;
+  if (guildIds.length === 0) return false;
+  const row = await db
+    .select({ id: tables.audioPreset.id })
+    .from(tables.audioPreset)
+    .where(and(eq(tables.audioPreset.id, id), inArray(tables.audioPreset.guildId, guildIds)))
+    .get();
+  return !!row;
+}
+
+/** Preset ids that apply to a track, most specific first. */
+async function trackPresetIds(song: QueuedSong): Promise<string[]> {
+  const ids: (string | null | undefined)[] = [];
+
+  // Read from the library, not the queued copy, so changes reach queued songs too.
+  const row = await db
+    .select({ audioPresetId: tables.song.audioPresetId, tags: tables.song.tags })
+    .from(tables.song)
+    .where(eq(tables.song.id, song.id))
+    .get();
+  ids.push(row?.audioPresetId);
+
+  if (song.playlistId) {
+    const playlist = await db
+      .select({ audioPresetId: tables.playlist.audioPresetId })
+      .from(tables.playlist)
+      .where(eq(tables.playlist.id, song.playlistId))
+      .get();
+    ids.push(playlist?.audioPresetId);
+  }
+
+  const tagNames = (row?.tags ?? song.tags ?? []).map((tag) => tag.toLowerCase());
+  if (tagNames.length > 0) {
+    const tagRows = await db
+      .select({ nameLower: tables.tag.nameLower, audioPresetId: tables.tag.audioPresetId })
+      .from(tables.tag)
+      .where(inArray(tables.tag.nameLower, tagNames));
+    // In the song's own tag order.
+    for (const name of tagNames) {
+      ids.push(tagRows.find((tag) => tag.nameLower === name)?.audioPresetId);
+    }
+  }
+
+  return ids.filter((id): id is string => !!id);
+}
+
+/**
+ * The audio profile a track plays with in a guild. Presets that were deleted,
+ * or saved in another server, are skipped. With no track, the guild's settings.
+ */
+export async function resolveTrackAudioProfile(
+  guildId: string,
+  song: QueuedSong | null
+): Promise<AudioProfile> {
+  for (const presetId of song ? await trackPresetIds(song) : []) {
+    const preset = await findAudioPreset(guildId, presetId);
+    if (preset) return preset.profile;
+  }
+  return readGuildAudioProfile(guildId);
+}
+
+/** The NodeLink `filters` object a track plays with. */
+export async function buildTrackFilters(
+  guildId: string,
+  song: QueuedSong | null
+): Promise<PlayerFilters> {
+  return profileFilters(await resolveTrackAudioProfile(guildId, song));
+}
+
+/**
+ * Re-sends the filters of the track playing in a guild to its live NodeLink
+ * player, if one is connected, and retimes the player for the new speed.
+ * Failures are logged, not thrown, so a settings save still succeeds while
+ * playback keeps its old filters.
+ */
+export async function applyGuildFilters(guildId: string): Promise<void> {
+  const player = getHoshimi()?.players.get(guildId);
+  if (!player?.connected) return;
+
+  try {
+    const guildPlayer = getPlayer(guildId);
+    const filters = await buildTrackFilters(guildId, guildPlayer?.getCurrentSong() ?? null);
+    await player.node.rest.updatePlayer({
+      guildId,
+      playerOptions: { filters },
+    } as Parameters<typeof player.node.rest.updatePlayer>[0]);
+    guildPlayer?.setPlaybackRate(filtersPlaybackRate(filters));
+  } catch (err) {
+    logger.error({ err, guildId }, 'Failed to update NodeLink filters');
+  }
+}
+
+/**
+ * Re-applies filters in every guild whose playing track `matches`, after a
+ * song, playlist or tag changed its audio preset.
+ */
+export async function reapplyTrackFilters(matches: (song: QueuedSong) => boolean): Promise<void> {
+  for (const guildId of GUILD_IDS) {
+    const song = getPlayer(guildId)?.getCurrentSong();
+    if (song && matches(song)) await applyGuildFilters(guildId);
+  }
+}
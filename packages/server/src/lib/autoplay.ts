@@ -0,0 +1,126 @@
+import { type QueuedSong, toQueuedSong } from '../shared';
+import { db, desc, eq, tables } from '../shared/db';
+import { logger } from './config';
+import { formatSong } from './serialization';
+
+const { song: songTable, playHistory: playHistoryTable } = tables;
+
+// ---------------------------------------------------------------------------
+// Autoplay
+//
+// When the queue runs out with autoplay on, GuildPlayer asks for one more
+// song from the library. Candidates are scored by the tags, artist and album
+// they share with the recently played songs and one is drawn at random,
+// weighted by score. Anything played in the guild's last
+// AUTOPLAY_AVOID_RECENT tracks (PlayHistory) is left out.
+// ---------------------------------------------------------------------------
+
+export const AUTOPLAY_REQUESTED_BY = 'Autoplay';
+
+// How many of the most recent songs the picks are based on.
+const SEED_COUNT = 5;
+
+const TAG_WEIGHT = 2;
+const ARTIST_WEIGHT = 3;
+const ALBUM_WEIGHT = 2;
+
+function getAvoidRecentCount(): number {
+  const parsed = Number(process.env.AUTOPLAY_AVOID_RECENT);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : 20;
+}
+
+function normalize(value: string | null | undefined): string {
+  return value?.trim().toLowerCase() ?? '';
+}
+
+interface Candidate {
+  id: string;
+  tags: string[];
+  artist: string | null;
+  album: string | null;
+}
+
+function score(candidate: Candidate, seeds: QueuedSong[]): number {
+  const tags = new Set(candidate.tags.map(normalize));
+  const artist = normalize(candidate.artist);
+  const album = normalize(candidate.album);
+
+  let total = 0;
+  for (const seed of seeds) {
+    for (const tag of seed.tags ?? []) {
+      if (tags.has(normalize(tag))) total += TAG_WEIGHT;
+    }
+    if (artist && artist === normalize(seed.artist)) total += ARTIST_WEIGHT;
+    if (album && album === normalize(seed.album)) total += ALBUM_WEIGHT;
+  }
+  return total;
+}
+
+function weightedPick(candidates: Candidate[], weights: number[]): Candidate {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  let roll = Math.random() * sum;
+  for (let i = 0; i < candidates.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return candidates[i];
+  }
+  return candidates[candidates.length - 1];
+}
+
+/**
+ * Picks the next autoplay song for a guild, or returns null if the library
+ * has nothing left to offer. `recent` lists the songs played most recently,
+ * newest last; they steer the pick and are never picked themselves.
+ */
+export async function pickAutoplaySong(
+  guildId: string,
+  recent: QueuedSong[]
+): Promise<QueuedSong | null> {
+  try {
+    const avoidCount = getAvoidRecentCount();
+    const history =
+      avoidCount > 0
+        ? await db
+            .select({ songId: playHistoryTable.songId })
+            .from(playHistoryTable)
+            .where(eq(playHistoryTable.guildId, guildId))
+            .orderBy(desc(playHistoryTable.startedAt))
+            .limit(avoidCount)
+        : [];
+    const excluded = new Set([
+      ...history.flatMap((row) => (row.songId ? [row.songId] : [])),
+      ...recent.map((song) => song.id),
+    ]);
+
+    const library = await db
+      .select({
+        id: songTable.id,
+        tags: songTable.tags,
+        artist: songTable.artist,
+        album: songTable.album,
+      })
+      .from(songTable);
+    const candidates = library.filter((song) => !excluded.has(song.id));
+    if (candidates.length === 0) return null;
+
+    const seeds = recent.slice(-SEED_COUNT);
+    const scores = candidates.map((candidate) => score(candidate, seeds));
+    // With no related songs at all, fall back to an even draw over the library.
+    const pick = scores.some((s) => s > 0)
+      ? weightedPick(candidates, scores)
+      : weightedPick(
+          candidates,
+          scores.map(() => 1)
+        );
+
+    const row = await db.select().from(songTable).where(eq(songTable.id, pick.id)).get();
+    if (!row) return null;
+
+    return {
+      ...toQueuedSong(formatSong(row), AUTOPLAY_REQUESTED_BY),
+      autoplayed: true,
+    };
+  } catch (err) {
+    logger.error({ err, guildId }, 'Failed to pick an autoplay song');
+    return null;
+  }
+}
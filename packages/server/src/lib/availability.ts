@@ -0,0 +1,197 @@
+import type { AvailabilityStatus } from '../shared';
+import { and, count, db, desc, eq, isNotNull, isNull, lt, or, sql, tables } from '../shared/db';
+import { checkTrackAvailability } from '../utils/nodelink';
+import { logger } from './config';
+import { formatSong } from './serialization';
+import { emitSongUpdated } from './socket';
+
+const { song: songTable } = tables;
+
+// ---------------------------------------------------------------------------
+// Song availability
+//
+// A song whose video stops resolving (taken down, made private, ...) is
+// marked unavailable, either when it fails to play or by the availability
+// scan, which re-resolves each video through NodeLink every
+// AVAILABILITY_SCAN_HOURS. Marked songs are skipped in the queue and listed
+// for admins to remove or point at a new URL; a later successful load clears
+// the mark. Segments share their parent's video, so they are marked with it.
+// When NodeLink itself is unreachable nothing is marked.
+// ---------------------------------------------------------------------------
+
+// How often the scanner looks for songs due a check, and the pause between
+// checks so a scan doesn't crowd out playback.
+const TICK_MS = 60 * 60_000;
+const CHECK_DELAY_MS = 1_000;
+
+let interval: ReturnType<typeof setInterval> | null = null;
+let stopped = false;
+const run = { running: false, total: 0, done: 0 };
+
+function getScanIntervalHours(): number {
+  const parsed = Number(process.env.AVAILABILITY_SCAN_HOURS);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 24;
+}
+
+/**
+ * Records the result of loading a video on every song that plays it:
+ * `reason` null for a video that loaded, else why it didn't. A song stays
+ * unavailable from the first failure until a load succeeds.
+ */
+async function setAvailability(youtubeUrl: string, reason: string | null): Promise<void> {
+  const now = new Date();
+  const [before] = await db
+    .select({ unavailableAt: songTable.unavailableAt })
+    .from(songTable)
+    .where(eq(songTable.youtubeUrl, youtubeUrl))
+    .limit(1);
+  if (!before) return;
+
+  const updated = await db
+    .update(songTable)
+    .set(
+      reason === null
+        ? { unavailableAt: null, unavailableReason: null, availabilityCheckedAt: now }
+        : {
+            unavailableAt: sql`coalesce(${songTable.unavailableAt}, ${now.getTime()})`,
+            unavailableReason: reason,
+            availabilityCheckedAt: now,
+          }
+    )
+    .where(eq(songTable.youtubeUrl, youtubeUrl))
+    .returning();
+
+  if ((before.unavailableAt === null) !== (reason === null)) {
+    if (reason !== null) logger.warn({ youtubeUrl, reason }, 'Song marked unavailable');
+    for (const song of updated) emitSongUpdated(formatSong(song));
+  }
+}
+
+/** Whether a library song playing this video is marked unavailable. */
+export async function isMarkedUnavailable(youtubeUrl: string): Promise<boolean> {
+  const row = await db
+    .select({ id: songTable.id })
+    .from(songTable)
+    .where(and(eq(songTable.youtubeUrl, youtubeUrl), isNotNull(songTable.unavailableAt)))
+    .get();
+  return !!row;
+}
+
+/**
+ * Called when a track could not be loaded for playback. The video is
+ * checked once more, so a failure on NodeLink's side doesn't mark it.
+ */
+export async function recordPlaybackFailure(youtubeUrl: string): Promise<void> {
+  let reason: string | null;
+  try {
+    reason = await checkTrackAvailability(youtubeUrl);
+  } catch (err) {
+    logger.warn({ err, youtubeUrl }, 'Could not check a failed track; leaving it unmarked');
+    return;
+  }
+  if (reason !== null) await setAvailability(youtubeUrl, reason);
+}
+
+/** Called when a track loaded for playback; clears a mark it may have had. */
+export async function recordPlaybackSuccess(youtubeUrl: string): Promise<void> {
+  if (await isMarkedUnavailable(youtubeUrl)) await setAvailability(youtubeUrl, null);
+}
+
+/** Library songs marked unavailable, most recently broken first. Segments are left out. */
+export function getUnavailableSongs() {
+  return db
+    .select()
+    .from(songTable)
+    .where(and(isNotNull(songTable.unavailableAt), isNull(songTable.parentSongId)))
+    .orderBy(desc(songTable.unavailableAt));
+}
+
+async function scan(youtubeUrls: string[]): Promise<void> {
+  run.running = true;
+  run.total = youtubeUrls.length;
+  run.done = 0;
+  try {
+    for (const youtubeUrl of youtubeUrls) {
+      if (stopped) return;
+      let reason: string | null;
+      try {
+        reason = await checkTrackAvailability(youtubeUrl);
+      } catch (err) {
+        logger.warn({ err }, 'Availability scan stopped: NodeLink is unreachable');
+        return;
+      }
+      await setAvailability(youtubeUrl, reason);
+      run.done++;
+      await new Promise((resolve) => setTimeout(resolve, CHECK_DELAY_MS));
+    }
+    logger.info({ checked: run.done }, 'Availability scan finished');
+  } finally {
+    run.running = false;
+  }
+}
+
+/**
+ * Starts a scan of the whole library, or of the songs not checked in the
+ * last `staleAfterMs`, least recently checked first. Does nothing while a
+ * scan is running.
+ */
+export async function scanLibraryAvailability(staleAfterMs?: number): Promise<void> {
+  if (run.running) return;
+  const rows = await db
+    .select({ youtubeUrl: songTable.youtubeUrl })
+    .from(songTable)
+    .where(
+      and(
+        isNull(songTable.parentSongId),
+        staleAfterMs === undefined
+          ? undefined
+          : or(
+              isNull(songTable.availabilityCheckedAt),
+              lt(songTable.availabilityCheckedAt, new Date(Date.now() - staleAfterMs))
+            )
+      )
+    )
+    .orderBy(songTable.availabilityCheckedAt);
+  if (rows.length === 0) return;
+  void scan(rows.map((row) => row.youtubeUrl)).catch((err) => {
+    logger.error({ err }, 'Availability scan failed');
+  });
+}
+
+export async function getAvailabilityStatus(): Promise<AvailabilityStatus> {
+  const [{ unavailable }] = await db
+    .select({ unavailable: count() })
+    .from(songTable)
+    .where(and(isNotNull(songTable.unavailableAt), isNull(songTable.parentSongId)));
+  const [{ lastCheckedAt }] = await db
+    .select({ lastCheckedAt: sql<number | null>`max(${songTable.availabilityCheckedAt})` })
+    .from(songTable);
+  return {
+    ...run,
+    unavailable,
+    lastCheckedAt: lastCheckedAt === null ? null : new Date(lastCheckedAt).toISOString(),
+  };
+}
+
+/**
+ * Starts the scheduled availability scan. Off when AVAILABILITY_SCAN_HOURS is 0.
+ *
+ * Called on startup once the Discord bot (and so NodeLink) is up.
+ */
+export function startAvailabilityScanner(): void {
+  const hours = getScanIntervalHours();
+  if (hours === 0 || interval) return;
+  const tick = () =>
+    void scanLibraryAvailability(hours * 60 * 60_000).catch((err) => {
+      logger.error({ err }, 'Scheduled availability scan failed');
+    });
+  interval = setInterval(tick, TICK_MS);
+  tick();
+}
+
+/** Stops scanning after the check in progress. Called on shutdown. */
+export function stopAvailabilityScanner(): void {
+  stopped = true;
+  if (interval) clearInterval(interval);
+  interval = null;
+}
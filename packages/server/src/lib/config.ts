@@ -3,8 +3,18 @@ import { logger } from '../shared/logger';
 export { logger };
 export const WEB_UI_ORIGIN = process.env.WEB_UI_ORIGIN ?? 'http://localhost:3001';
 
-const _GUILD_ID = process.env.GUILD_ID;
-if (!_GUILD_ID) {
-  throw new Error('GUILD_ID environment variable is not set');
+// GUILD_IDS is a comma-separated list of the Discord servers this deployment
+// serves. GUILD_ID (a single ID) is still accepted for older .env files, and
+// used whenever GUILD_IDS is unset or empty.
+const _GUILD_IDS = (process.env.GUILD_IDS || process.env.GUILD_ID || '')
+  .split(',')
+  .map((id) => id.trim())
+  .filter(Boolean);
+if (_GUILD_IDS.length === 0) {
+  throw new Error('GUILD_IDS environment variable is not set');
+}
+export const GUILD_IDS: readonly string[] = _GUILD_IDS;
+
+export function isConfiguredGuild(guildId: string | undefined | null): guildId is string {
+  return !!guildId && GUILD_IDS.includes(guildId);
 }
-export const GUILD_ID = _GUILD_ID as string;
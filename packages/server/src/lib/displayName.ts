@@ -1,18 +1,25 @@
 import { getClient } from '../startDiscord';
-import { GUILD_ID } from './config';
+import { GUILD_IDS } from './config';
 
+/**
+ * Resolves a member's display name from the first configured guild they are
+ * in. Songs and playlists are shared across guilds, so any membership will do.
+ */
 export async function getUserDisplayName(discordId: string): Promise<string> {
   const client = getClient();
   if (!client) return discordId;
 
-  try {
-    const guild = await client.guilds.fetch(GUILD_ID);
-    const member = await guild.members.resolve(discordId);
-    if (!member) return discordId;
-    // GuildMemberStructure has 'nick' (server nickname) and the user object
-    const user = member.user;
-    return member.displayName || user.username || discordId;
-  } catch {
-    return discordId;
+  for (const guildId of GUILD_IDS) {
+    try {
+      const guild = await client.guilds.fetch(guildId);
+      const member = await guild.members.resolve(discordId);
+      if (!member) continue;
+      // GuildMemberStructure has 'nick' (server nickname) and the user object
+      const user = member.user;
+      return member.displayName || user.username || discordId;
+    } catch {
+      // Not a member of this guild (or Discord is unreachable) — try the next.
+    }
   }
+  return discordId;
 }
@@ -0,0 +1,41 @@
+import { db, eq, tables } from '../shared/db';
+import { GUILD_IDS, logger } from './config';
+
+const { guildSettings: guildSettingsTable } = tables;
+
+/** guildId given to the pre-multi-guild settings row by migration 0053. */
+const LEGACY_GUILD_ID = 'legacy';
+
+/**
+ * Hands the settings saved before guildSettings became per-guild over to the
+ * first configured guild — the one GUILD_ID used to point at. If that guild
+ * already has its own row, the legacy row is dropped instead.
+ *
+ * Called automatically on startup after DB migrations.
+ */
+export async function ensureGuildSettingsMigrated(): Promise<void> {
+  const legacy = await db
+    .select({ guildId: guildSettingsTable.guildId })
+    .from(guildSettingsTable)
+    .where(eq(guildSettingsTable.guildId, LEGACY_GUILD_ID))
+    .get();
+  if (!legacy) return;
+
+  const [targetGuildId] = GUILD_IDS;
+  const existing = await db
+    .select({ guildId: guildSettingsTable.guildId })
+    .from(guildSettingsTable)
+    .where(eq(guildSettingsTable.guildId, targetGuildId))
+    .get();
+
+  if (existing) {
+    await db.delete(guildSettingsTable).where(eq(guildSettingsTable.guildId, LEGACY_GUILD_ID));
+    return;
+  }
+
+  await db
+    .update(guildSettingsTable)
+    .set({ guildId: targetGuildId })
+    .where(eq(guildSettingsTable.guildId, LEGACY_GUILD_ID));
+  logger.info({ guildId: targetGuildId }, 'Assigned legacy audio settings to guild');
+}
@@ -0,0 +1,35 @@
+import type { QueuedSong } from '../shared';
+
+// ---------------------------------------------------------------------------
+// Fair queue
+//
+// With fair queue on, Up Next is played round-robin by requester: everyone's
+// first song, then everyone's second, and so on. Within a round, requesters
+// keep the order their songs were already in.
+// ---------------------------------------------------------------------------
+
+/**
+ * The round each song falls in. `justServed` names whoever requested the
+ * song playing now (when it came from Up Next); they have had this round's
+ * turn, so their next song waits for the following round.
+ */
+export function fairRounds(songs: QueuedSong[], justServed: string | null): number[] {
+  const counts = new Map<string, number>();
+  return songs.map((song) => {
+    const seen = counts.get(song.requestedBy) ?? (song.requestedBy === justServed ? 1 : 0);
+    counts.set(song.requestedBy, seen + 1);
+    return seen;
+  });
+}
+
+/**
+ * Reorders songs into fair order. Stable, so an already fair list with a
+ * song appended only moves that song, to the end of its round.
+ */
+export function fairOrder(songs: QueuedSong[], justServed: string | null): QueuedSong[] {
+  const rounds = fairRounds(songs, justServed);
+  return songs
+    .map((song, i) => ({ song, round: rounds[i] }))
+    .sort((a, b) => a.round - b.round)
+    .map(({ song }) => song);
+}
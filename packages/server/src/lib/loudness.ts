@@ -0,0 +1,234 @@
+import type { NormalizationStatus } from '../shared';
+import { count, db, eq, isNull, tables } from '../shared/db';
+import {
+  getStreamFormat,
+  PCM_CHANNELS,
+  PCM_SAMPLE_RATE,
+  streamTrackAudio,
+} from '../utils/nodelink';
+import { logger } from './config';
+import { formatSong } from './serialization';
+import { emitSongUpdated } from './socket';
+
+const { song: songTable } = tables;
+
+// ---------------------------------------------------------------------------
+// Loudness normalization
+//
+// Songs are measured one at a time in the background: NodeLink decodes the
+// (trimmed) track and its integrated loudness is computed here per
+// ITU-R BS.1770 (K-weighted, gated). The gain that brings a song to
+// TARGET_LUFS is stored with it and applied at playback through playbackBoost.
+// Songs already queued keep the gain they were queued with.
+// ---------------------------------------------------------------------------
+
+/** Loudness every song is brought to, in LUFS. */
+const TARGET_LUFS = -14;
+
+// K-weighting at 48 kHz: a high-shelf pre-filter, then the RLB high-pass.
+const PRE_FILTER = {
+  b: [1.53512485958697, -2.69169618940638, 1.19839281085285],
+  a: [-1.69065929318241, 0.73248077421585],
+};
+const RLB_FILTER = {
+  b: [1, -2, 1],
+  a: [-1.99004745483398, 0.99007225036621],
+};
+
+const STEP_FRAMES = PCM_SAMPLE_RATE / 10; // 100 ms; blocks are 400 ms at 75% overlap
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+type SongRow = typeof songTable.$inferSelect;
+
+const pending: string[] = [];
+let working = false;
+let stopped = false;
+const run = { running: false, total: 0, done: 0, failed: 0 };
+const runIds = new Set<string>();
+
+class Biquad {
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(private readonly coeffs: { b: number[]; a: number[] }) {}
+
+  process(x: number): number {
+    const { b, a } = this.coeffs;
+    const y = b[0] * x + b[1] * this.x1 + b[2] * this.x2 - a[0] * this.y1 - a[1] * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+function blockLoudness(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+/**
+ * Integrated loudness, in LUFS, of interleaved 16-bit PCM. Reads at most
+ * `maxFrames` frames; silence measures at the absolute gate.
+ */
+async function measureLoudness(
+  stream: ReadableStream<Uint8Array>,
+  maxFrames: number
+): Promise<number> {
+  const filters = Array.from({ length: PCM_CHANNELS }, () => [
+    new Biquad(PRE_FILTER),
+    new Biquad(RLB_FILTER),
+  ]);
+  // Sum over channels of the K-weighted energy in each 100 ms step.
+  const steps: number[] = [];
+  let stepEnergy = 0;
+  let stepFrames = 0;
+  let frames = 0;
+  let leftover = new Uint8Array(0);
+  const frameBytes = 2 * PCM_CHANNELS;
+
+  const reader = stream.getReader();
+  try {
+    while (frames < maxFrames) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      let chunk = value;
+      if (leftover.length > 0) {
+        chunk = new Uint8Array(leftover.length + value.length);
+        chunk.set(leftover);
+        chunk.set(value, leftover.length);
+      }
+      const usable = chunk.length - (chunk.length % frameBytes);
+      const view = new DataView(chunk.buffer, chunk.byteOffset, usable);
+      leftover = chunk.slice(usable);
+
+      for (let offset = 0; offset < usable && frames < maxFrames; offset += frameBytes) {
+        for (let ch = 0; ch < PCM_CHANNELS; ch++) {
+          const sample = view.getInt16(offset + ch * 2, true) / 32768;
+          const weighted = filters[ch][1].process(filters[ch][0].process(sample));
+          stepEnergy += weighted * weighted;
+        }
+        frames++;
+        if (++stepFrames === STEP_FRAMES) {
+          steps.push(stepEnergy / STEP_FRAMES);
+          stepEnergy = 0;
+          stepFrames = 0;
+        }
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  const blocks: number[] = [];
+  for (let i = 3; i < steps.length; i++) {
+    blocks.push((steps[i - 3] + steps[i - 2] + steps[i - 1] + steps[i]) / 4);
+  }
+
+  const aboveAbsolute = blocks.filter((e) => blockLoudness(e) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return ABSOLUTE_GATE_LUFS;
+  const mean = (energies: number[]) => energies.reduce((sum, e) => sum + e, 0) / energies.length;
+
+  const relativeGate = blockLoudness(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter((e) => blockLoudness(e) > relativeGate);
+  return blockLoudness(mean(gated));
+}
+
+/** Boost (as in volumeBoost, percentage points) that takes `lufs` to the target. */
+function gainFor(lufs: number): number {
+  const factor = 10 ** ((TARGET_LUFS - lufs) / 20);
+  return Math.min(200, Math.max(-100, Math.round((factor - 1) * 100)));
+}
+
+async function analyseSong(song: SongRow): Promise<void> {
+  const startMs = song.startOffsetMs ?? 0;
+  const endMs = song.endOffsetMs ?? song.duration * 1000;
+
+  const { track } = await getStreamFormat(song.youtubeUrl);
+  const stream = await streamTrackAudio(track, startMs);
+  const lufs = await measureLoudness(
+    stream,
+    Math.ceil(((endMs - startMs) / 1000) * PCM_SAMPLE_RATE)
+  );
+
+  const [updated] = await db
+    .update(songTable)
+    .set({ loudnessLufs: lufs, normalizationGain: lufs > ABSOLUTE_GATE_LUFS ? gainFor(lufs) : 0 })
+    .where(eq(songTable.id, song.id))
+    .returning();
+  if (updated) emitSongUpdated(formatSong(updated));
+}
+
+async function work(): Promise<void> {
+  if (working) return;
+  working = true;
+  try {
+    let id = pending.shift();
+    while (id && !stopped) {
+      const inRun = runIds.delete(id);
+      try {
+        const song = await db.select().from(songTable).where(eq(songTable.id, id)).get();
+        if (song) await analyseSong(song);
+      } catch (err) {
+        if (inRun) run.failed++;
+        logger.warn({ err, songId: id }, 'Loudness analysis failed');
+      }
+      if (inRun) run.done++;
+      id = pending.shift();
+    }
+  } finally {
+    working = false;
+    run.running = runIds.size > 0;
+  }
+}
+
+/**
+ * Queues songs for loudness analysis, e.g. right after they're added.
+ */
+export function queueLoudnessAnalysis(songIds: string[]): void {
+  for (const id of songIds) {
+    if (!pending.includes(id)) pending.push(id);
+  }
+  void work();
+}
+
+/**
+ * Starts the "normalize library" run: every song without a measurement, or
+ * every song when `remeasure` is set. Returns the number of songs queued.
+ */
+export async function normalizeLibrary(remeasure: boolean): Promise<number> {
+  const rows = await db
+    .select({ id: songTable.id })
+    .from(songTable)
+    .where(remeasure ? undefined : isNull(songTable.loudnessLufs));
+  const ids = rows.map((row) => row.id).filter((id) => !runIds.has(id));
+
+  if (!run.running) {
+    run.total = 0;
+    run.done = 0;
+    run.failed = 0;
+  }
+  run.total += ids.length;
+  run.running = run.total > run.done;
+  for (const id of ids) runIds.add(id);
+  queueLoudnessAnalysis(ids);
+  return ids.length;
+}
+
+export async function getNormalizationStatus(): Promise<NormalizationStatus> {
+  const [{ unanalysed }] = await db
+    .select({ unanalysed: count() })
+    .from(songTable)
+    .where(isNull(songTable.loudnessLufs));
+  return { ...run, unanalysed };
+}
+
+/** Stops analysing after the song in progress. Called on shutdown. */
+export function stopLoudnessAnalysis(): void {
+  stopped = true;
+  pending.length = 0;
+}
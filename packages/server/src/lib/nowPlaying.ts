@@ -0,0 +1,207 @@
+import { ActionRow, Button, Embed } from 'seyfert';
+import { ButtonStyle } from 'seyfert/lib/types';
+import { formatDuration, type QueueState } from '../shared';
+import { getClient } from '../startDiscord';
+import { logger } from './config';
+
+// ---------------------------------------------------------------------------
+// Now-playing message
+//
+// One bot message per guild that mirrors that guild's player state: it is
+// posted when the first track starts and edited in place on every
+// broadcastQueueUpdate after that.
+//
+// NOW_PLAYING_CHANNEL_IDS lists text channels (comma-separated); each guild
+// uses the listed channel that belongs to it. Guilds without one, or an unset
+// variable, get no message.
+// ---------------------------------------------------------------------------
+
+const NOW_PLAYING_CHANNEL_IDS = (process.env.NOW_PLAYING_CHANNEL_IDS ?? '')
+  .split(',')
+  .map((id) => id.trim())
+  .filter(Boolean);
+
+/** Custom IDs of the control buttons, handled in commands/nowPlayingButtons.ts. */
+export const NOW_PLAYING_BUTTON_IDS = {
+  pause: 'nowplaying:pause',
+  skip: 'nowplaying:skip',
+  loop: 'nowplaying:loop',
+  shuffle: 'nowplaying:shuffle',
+} as const;
+
+export type NowPlayingButtonId =
+  (typeof NOW_PLAYING_BUTTON_IDS)[keyof typeof NOW_PLAYING_BUTTON_IDS];
+
+export function isNowPlayingButtonId(customId: string): customId is NowPlayingButtonId {
+  return (Object.values(NOW_PLAYING_BUTTON_IDS) as string[]).includes(customId);
+}
+
+// Accent colour of the web UI's "artificer" theme.
+const EMBED_COLOR = 0xf97316;
+
+// guildId -> channelId, resolved from NOW_PLAYING_CHANNEL_IDS on first use.
+let channelsByGuild: Promise<Map<string, string>> | null = null;
+
+// guildId -> ID of the message we keep editing.
+const messageIds = new Map<string, string>();
+
+// Broadcasts can arrive in bursts (skip → play → preload), so edits are
+// coalesced per guild: while one is in flight only the newest state is kept
+// and sent once it finishes. This keeps us well inside Discord's edit rate
+// limit.
+const pendingStates = new Map<string, QueueState>();
+const syncingGuilds = new Set<string>();
+
+async function resolveChannelsByGuild(): Promise<Map<string, string>> {
+  const client = getClient();
+  const map = new Map<string, string>();
+  if (!client) return map;
+
+  for (const channelId of NOW_PLAYING_CHANNEL_IDS) {
+    try {
+      const channel = (await client.channels.fetch(channelId)) as { guildId?: string };
+      if (channel.guildId) map.set(channel.guildId, channelId);
+    } catch (err) {
+      logger.error({ err, channelId }, 'Could not resolve now-playing channel');
+    }
+  }
+  return map;
+}
+
+function getChannelId(guildId: string): Promise<string | undefined> {
+  channelsByGuild ??= resolveChannelsByGuild();
+  return channelsByGuild.then((map) => map.get(guildId));
+}
+
+function buildEmbed(state: QueueState): Embed {
+  const song = state.currentSong;
+  if (!song) {
+    return new Embed()
+      .setColor(EMBED_COLOR)
+      .setTitle('Nothing is playing')
+      .setDescription('Queue something with /play or from the web UI.');
+  }
+
+  const durationMs = song.duration * 1000;
+  const elapsedMs = state.trackStartedAt
+    ? Math.min(durationMs, Math.max(0, (Date.now() - state.trackStartedAt) * state.playbackRate))
+    : 0;
+  const position = `${formatDuration(Math.floor(elapsedMs / 1000))} / ${formatDuration(song.duration)}`;
+
+  // Discord renders <t:…:R> as a live countdown, so the embed does not need
+  // to be edited every second to show progress.
+  const progress =
+    state.pauseReason === 'channel-empty'
+      ? `Auto-paused (channel empty) at ${position}`
+      : state.isPaused || !state.trackStartedAt
+        ? `Paused at ${position}`
+        : `${position} · ends <t:${Math.floor((state.trackStartedAt + durationMs / state.playbackRate) / 1000)}:R>`;
+
+  const upNext = state.priorityQueue.length + state.queue.length;
+  const footer = [
+    `Loop: ${state.loopMode}`,
+    `Shuffle: ${state.isShuffled ? 'on' : 'off'}`,
+    `${upNext} in queue`,
+  ].join(' · ');
+
+  const embed = new Embed()
+    .setColor(EMBED_COLOR)
+    .setTitle((song.nickname || song.title).slice(0, 256))
+    .setURL(song.youtubeUrl)
+    .setThumbnail(song.artwork || song.thumbnailUrl)
+    .addFields(
+      { name: 'Requested by', value: song.requestedBy, inline: true },
+      { name: 'Progress', value: progress, inline: true }
+    )
+    .setFooter({ text: footer });
+
+  const byline = [song.artist, song.album].filter(Boolean).join(' — ');
+  if (byline) embed.setDescription(byline);
+
+  return embed;
+}
+
+function buildControls(state: QueueState): ActionRow<Button> {
+  const disabled = !state.currentSong;
+  return new ActionRow<Button>().setComponents([
+    new Button()
+      .setCustomId(NOW_PLAYING_BUTTON_IDS.pause)
+      .setLabel(state.isPaused ? 'Resume' : 'Pause')
+      .setStyle(ButtonStyle.Primary)
+      .setDisabled(disabled),
+    new Button()
+      .setCustomId(NOW_PLAYING_BUTTON_IDS.skip)
+      .setLabel('Skip')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(disabled),
+    new Button()
+      .setCustomId(NOW_PLAYING_BUTTON_IDS.loop)
+      .setLabel(`Loop: ${state.loopMode}`)
+      .setStyle(state.loopMode === 'off' ? ButtonStyle.Secondary : ButtonStyle.Success)
+      .setDisabled(disabled),
+    new Button()
+      .setCustomId(NOW_PLAYING_BUTTON_IDS.shuffle)
+      .setLabel(state.isShuffled ? 'Unshuffle' : 'Shuffle')
+      .setStyle(state.isShuffled ? ButtonStyle.Success : ButtonStyle.Secondary)
+      .setDisabled(disabled),
+  ]);
+}
+
+async function writeMessage(guildId: string, state: QueueState): Promise<void> {
+  const client = getClient();
+  if (!client) return;
+
+  const channelId = await getChannelId(guildId);
+  if (!channelId) return;
+
+  // Don't post a fresh "nothing playing" message; only keep an existing one
+  // up to date once playback has ended.
+  const messageId = messageIds.get(guildId);
+  if (!messageId && !state.currentSong) return;
+
+  const body = { embeds: [buildEmbed(state)], components: [buildControls(state)] };
+
+  if (messageId) {
+    try {
+      await client.messages.edit(messageId, channelId, body);
+      return;
+    } catch (err) {
+      // Most likely deleted by a moderator — fall through and post a new one.
+      logger.warn({ err, messageId }, 'Failed to edit now-playing message, posting a new one');
+      messageIds.delete(guildId);
+      if (!state.currentSong) return;
+    }
+  }
+
+  const message = await client.messages.write(channelId, body);
+  messageIds.set(guildId, message.id);
+}
+
+/**
+ * Brings the guild's now-playing message in line with the given queue state.
+ * Called from broadcastQueueUpdate; no-op when no channel is configured.
+ */
+export function syncNowPlayingMessage(guildId: string, state: QueueState): void {
+  if (NOW_PLAYING_CHANNEL_IDS.length === 0) return;
+
+  pendingStates.set(guildId, state);
+  if (syncingGuilds.has(guildId)) return;
+
+  syncingGuilds.add(guildId);
+  void (async () => {
+    try {
+      let next = pendingStates.get(guildId);
+      while (next) {
+        pendingStates.delete(guildId);
+        try {
+          await writeMessage(guildId, next);
+        } catch (err) {
+          logger.error({ err, guildId }, 'Failed to update now-playing message');
+        }
+        next = pendingStates.get(guildId);
+      }
+    } finally {
+      syncingGuilds.delete(guildId);
+    }
+  })();
+}
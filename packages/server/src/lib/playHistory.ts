@@ -0,0 +1,52 @@
+import type { QueuedSong } from '../shared';
+import { db, eq, tables } from '../shared/db';
+import { logger } from './config';
+
+const { playHistory: playHistoryTable } = tables;
+
+// ---------------------------------------------------------------------------
+// Play history
+//
+// GuildPlayer opens a PlayHistory row when a track starts and closes it with
+// the time actually played once the track ends, is skipped, or is replaced.
+// Writes are synchronous so a row can't be closed before it has been opened.
+// ---------------------------------------------------------------------------
+
+/**
+ * Records the start of a track. Returns the new row's ID, or null if the
+ * write failed — history must never get in the way of playback.
+ */
+export function startPlayHistoryEntry(guildId: string, song: QueuedSong): string | null {
+  try {
+    const row = db
+      .insert(playHistoryTable)
+      .values({
+        guildId,
+        songId: song.id.startsWith('temp-') ? null : song.id,
+        title: song.nickname || song.title,
+        youtubeUrl: song.youtubeUrl,
+        thumbnailUrl: song.artwork || song.thumbnailUrl,
+        duration: song.duration,
+        requestedBy: song.requestedBy,
+        startedAt: new Date(),
+      })
+      .returning({ id: playHistoryTable.id })
+      .get();
+    return row.id;
+  } catch (err) {
+    logger.error({ err, guildId }, 'Failed to record play history entry');
+    return null;
+  }
+}
+
+/** Closes a row opened by startPlayHistoryEntry. */
+export function finishPlayHistoryEntry(id: string, playedMs: number, skipped: boolean): void {
+  try {
+    db.update(playHistoryTable)
+      .set({ playedMs: Math.max(0, Math.round(playedMs)), skipped })
+      .where(eq(playHistoryTable.id, id))
+      .run();
+  } catch (err) {
+    logger.error({ err, id }, 'Failed to finish play history entry');
+  }
+}
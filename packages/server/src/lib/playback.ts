@@ -0,0 +1,83 @@
+import { type LoopMode, toQueuedSong } from '../shared';
+import { db, findPlaylistWithSongs, tables } from '../shared/db';
+import type { GuildPlayer } from '../startDiscord';
+import { canAccessPlaylist, type UserContext } from './playlistAccess';
+import { formatSong } from './serialization';
+import { shuffleSongs } from './smartShuffle';
+
+const { song: songTable } = tables;
+
+export interface PlaybackRequest {
+  playlistId?: string;
+  mode?: 'sequential' | 'random';
+  loop?: LoopMode;
+  startFromSongId?: string;
+}
+
+/**
+ * Loads a playlist (or the whole library when no playlistId is given) into
+ * the player and starts it. Shared by POST /player/play and scheduled
+ * playback, which have already resolved the player.
+ */
+export async function startLibraryPlayback(
+  player: GuildPlayer,
+  request: PlaybackRequest,
+  requestedBy: string,
+  user: UserContext | undefined
+): Promise<{ ok: true; count: number } | { ok: false; status: number; error: string }> {
+  const { playlistId, mode, loop, startFromSongId } = request;
+
+  let dbSongs: (typeof songTable.$inferSelect)[];
+
+  if (playlistId) {
+    const playlist = await findPlaylistWithSongs(playlistId);
+
+    if (!playlist) {
+      return { ok: false, status: 404, error: 'Playlist not found.' };
+    }
+
+    const accessResult = canAccessPlaylist(playlist, user, undefined);
+    if (!accessResult.ok) {
+      return { ok: false, status: 403, error: accessResult.error };
+    }
+
+    dbSongs = playlist.songs.map((ps) => ps.song);
+  } else {
+    dbSongs = await db.select().from(songTable).orderBy(songTable.createdAt);
+  }
+
+  if (dbSongs.length === 0) {
+    return { ok: false, status: 422, error: 'No songs found to play.' };
+  }
+
+  if (startFromSongId) {
+    const startIndex = dbSongs.findIndex((s) => s.id === startFromSongId);
+
+    if (startIndex === -1) {
+      return { ok: false, status: 404, error: 'Start song not found in playlist.' };
+    }
+
+    dbSongs = [...dbSongs.slice(startIndex), ...dbSongs.slice(0, startIndex)];
+  }
+
+  const targetLoopMode = loop ?? player.getLoopMode();
+  player.setLoopMode(targetLoopMode);
+
+  // The playlist is kept on each track for its audio preset.
+  let queuedSongs = dbSongs.map((song) => ({
+    ...toQueuedSong(formatSong(song), requestedBy),
+    ...(playlistId && { playlistId }),
+  }));
+
+  if (mode === 'random') {
+    queuedSongs = shuffleSongs(queuedSongs, player.isSmartShuffle());
+  }
+
+  if (startFromSongId) {
+    await player.replaceQueueAndPlay(queuedSongs);
+  } else {
+    await player.addToQueue(queuedSongs);
+  }
+
+  return { ok: true, count: queuedSongs.length };
+}
@@ -1,12 +1,45 @@
+import type { QueueState } from '../shared';
 import type { GuildPlayer } from '../startDiscord';
-import { getPlayer } from '../startDiscord';
-import { GUILD_ID } from './config';
+import { getHoshimi, getPlayer } from '../startDiscord';
 import { json } from './json';
+import { getSavedSession } from './playerSnapshots';
+import { getMasterVolume } from './volume';
 
-export function requirePlaying():
-  | { ok: true; player: GuildPlayer }
-  | { ok: false; response: Response } {
-  const player = getPlayer(GUILD_ID);
+/**
+ * The guild's queue state, or an idle state when no player exists yet.
+ */
+export function getGuildQueueState(guildId: string): QueueState {
+  const player = getPlayer(guildId);
+  if (player) return player.getQueueState();
+
+  const hoshimiPlayer = getHoshimi()?.players.get(guildId);
+  return {
+    isPlaying: false,
+    isPaused: false,
+    pauseReason: null,
+    isConnectedToVoice: !!hoshimiPlayer?.connected,
+    loopMode: 'off',
+    isShuffled: false,
+    currentSong: null,
+    priorityQueue: [],
+    queue: [],
+    trackStartedAt: null,
+    nextTrack: null,
+    autoplay: false,
+    fairQueue: false,
+    smartShuffle: false,
+    playbackRate: 1,
+    masterVolume: getMasterVolume(guildId),
+    sleepTimer: null,
+    stopAfterTracks: null,
+    savedSession: getSavedSession(guildId),
+  };
+}
+
+export function requirePlaying(
+  guildId: string
+): { ok: true; player: GuildPlayer } | { ok: false; response: Response } {
+  const player = getPlayer(guildId);
   if (!player?.getCurrentSong()) {
     return {
       ok: false,
@@ -16,10 +49,10 @@ export function requirePlaying():
   return { ok: true, player };
 }
 
-export function requirePlayer():
-  | { ok: true; player: GuildPlayer }
-  | { ok: false; response: Response } {
-  const player = getPlayer(GUILD_ID);
+export function requirePlayer(
+  guildId: string
+): { ok: true; player: GuildPlayer } | { ok: false; response: Response } {
+  const player = getPlayer(guildId);
   if (!player) {
     return {
       ok: false,
@@ -0,0 +1,147 @@
+import type { PlaybackCursorSnapshot } from '../PlaybackCursor';
+import type { LoopMode, QueuedSong, SavedSession } from '../shared';
+import { db, eq, tables } from '../shared/db';
+import { logger } from './config';
+
+const { playerSnapshot: playerSnapshotTable } = tables;
+
+// ---------------------------------------------------------------------------
+// Player snapshots
+//
+// Every GuildPlayer broadcast writes the player's state to the PlayerSnapshot
+// table, and shutdown writes it one last time. On startup the rows are loaded
+// as saved sessions, which stay on offer (QueueState.savedSession) until they
+// are restored, dismissed, or superseded by new playback in the same guild.
+// ---------------------------------------------------------------------------
+
+export interface PlayerSnapshot {
+  queue: PlaybackCursorSnapshot<QueuedSong>;
+  priorityQueue: QueuedSong[];
+  currentSong: QueuedSong | null;
+  loopMode: LoopMode;
+  autoplay?: boolean; // Missing from snapshots written before autoplay existed
+  fairQueue?: boolean; // Likewise for fair queue
+  smartShuffle?: boolean; // And smart shuffle
+  positionMs: number;
+  isPaused: boolean;
+}
+
+interface StoredSession {
+  voiceId: string;
+  snapshot: PlayerSnapshot;
+  savedAt: number;
+}
+
+// guildId -> session saved before the last restart, still waiting for a decision.
+const savedSessions = new Map<string, StoredSession>();
+
+// Set during shutdown so that players tearing down don't overwrite the final
+// snapshot with their emptied queues.
+let frozen = false;
+
+function isEmpty(snapshot: PlayerSnapshot): boolean {
+  return (
+    snapshot.currentSong === null &&
+    snapshot.priorityQueue.length === 0 &&
+    snapshot.queue.readIndex >= snapshot.queue.items.length
+  );
+}
+
+/**
+ * Loads the snapshots left by the previous run as saved sessions.
+ *
+ * Called automatically on startup after DB migrations.
+ */
+export async function loadSavedSessions(): Promise<void> {
+  const rows = await db.select().from(playerSnapshotTable);
+  for (const row of rows) {
+    try {
+      const snapshot = JSON.parse(row.state) as PlayerSnapshot;
+      if (isEmpty(snapshot)) continue;
+      savedSessions.set(row.guildId, {
+        voiceId: row.voiceId,
+        snapshot,
+        savedAt: row.updatedAt.getTime(),
+      });
+      logger.info({ guildId: row.guildId }, 'Found a saved player session to offer for restore');
+    } catch (err) {
+      logger.error({ err, guildId: row.guildId }, 'Discarding unreadable player snapshot');
+      await db.delete(playerSnapshotTable).where(eq(playerSnapshotTable.guildId, row.guildId));
+    }
+  }
+}
+
+/** Summary of the guild's saved session for QueueState, or null if there is none. */
+export function getSavedSession(guildId: string): SavedSession | null {
+  const session = savedSessions.get(guildId);
+  if (!session) return null;
+  const { snapshot } = session;
+  return {
+    savedAt: session.savedAt,
+    currentSong: snapshot.currentSong,
+    positionMs: snapshot.positionMs,
+    queueLength:
+      snapshot.priorityQueue.length +
+      Math.max(0, snapshot.queue.items.length - snapshot.queue.readIndex),
+  };
+}
+
+/** Full saved session for restoring, or undefined if there is none. */
+export function peekSavedSession(
+  guildId: string
+): { voiceId: string; snapshot: PlayerSnapshot } | undefined {
+  return savedSessions.get(guildId);
+}
+
+/**
+ * Drops the guild's saved session from the offer. The row itself is left
+ * alone; the restored player overwrites it on its first broadcast.
+ */
+export function takeSavedSession(guildId: string): void {
+  savedSessions.delete(guildId);
+}
+
+/** Discards the guild's saved session and its row. */
+export async function dismissSavedSession(guildId: string): Promise<boolean> {
+  if (!savedSessions.delete(guildId)) return false;
+  await db.delete(playerSnapshotTable).where(eq(playerSnapshotTable.guildId, guildId));
+  return true;
+}
+
+/**
+ * Persists a player's state. Non-empty state replaces any saved session for
+ * the guild; empty state removes the row unless a saved session is still on
+ * offer, so joining a channel doesn't silently throw the old session away.
+ */
+export function savePlayerSnapshot(
+  guildId: string,
+  voiceId: string,
+  snapshot: PlayerSnapshot
+): void {
+  if (frozen) return;
+
+  try {
+    if (isEmpty(snapshot)) {
+      if (savedSessions.has(guildId)) return;
+      db.delete(playerSnapshotTable).where(eq(playerSnapshotTable.guildId, guildId)).run();
+      return;
+    }
+
+    savedSessions.delete(guildId);
+    const values = { voiceId, state: JSON.stringify(snapshot), updatedAt: new Date() };
+    db.insert(playerSnapshotTable)
+      .values({ guildId, ...values })
+      .onConflictDoUpdate({ target: playerSnapshotTable.guildId, set: values })
+      .run();
+  } catch (err) {
+    logger.error({ err, guildId }, 'Failed to save player snapshot');
+  }
+}
+
+/**
+ * Stops all further snapshot writes. Called during graceful shutdown right
+ * after the final snapshots are written.
+ */
+export function freezePlayerSnapshots(): void {
+  frozen = true;
+}
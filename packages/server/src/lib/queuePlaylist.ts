@@ -0,0 +1,90 @@
+import type { QueuedSong } from '../shared';
+import { and, asc, db, eq, inArray, isNull, tables } from '../shared/db';
+
+const { song: songTable, playlistSong: playlistSongTable } = tables;
+
+// ---------------------------------------------------------------------------
+// Saving the queue as a playlist
+//
+// Queued songs are copies, so each is matched back to the library: by id, or
+// for a quick-added track by its video. Tracks that aren't in the library
+// can't go in a playlist, and a playlist holds each song once, so both are
+// left out.
+// ---------------------------------------------------------------------------
+
+/** Library song ids for queued songs, in queue order, each once. */
+export async function librarySongIds(songs: QueuedSong[]): Promise<string[]> {
+  if (songs.length === 0) return [];
+
+  const byId = await db
+    .select({ id: songTable.id })
+    .from(songTable)
+    .where(inArray(songTable.id, [...new Set(songs.map((song) => song.id))]));
+  const known = new Set(byId.map((row) => row.id));
+
+  const videoIds = [...new Set(songs.filter((s) => !known.has(s.id)).map((s) => s.youtubeId))];
+  const byVideo =
+    videoIds.length > 0
+      ? await db
+          .select({ id: songTable.id, youtubeId: songTable.youtubeId })
+          .from(songTable)
+          .where(and(inArray(songTable.youtubeId, videoIds), isNull(songTable.parentSongId)))
+      : [];
+  const idByVideo = new Map(byVideo.map((row) => [row.youtubeId, row.id]));
+
+  const ids = new Set<string>();
+  for (const song of songs) {
+    const id = known.has(song.id) ? song.id : idByVideo.get(song.youtubeId);
+    if (id) ids.add(id);
+  }
+  return [...ids];
+}
+
+/**
+ * Appends songs to the end of a playlist in the given order. Songs it
+ * already has keep their place, or with `moveExisting` move down to theirs
+ * in the new order. Returns how many songs were added and how many moved.
+ */
+export function appendToPlaylist(
+  playlistId: string,
+  songIds: string[],
+  { moveExisting = false }: { moveExisting?: boolean } = {}
+): { added: number; moved: number } {
+  return db.transaction((tx) => {
+    const rows = tx
+      .select({
+        id: playlistSongTable.id,
+        songId: playlistSongTable.songId,
+        position: playlistSongTable.position,
+      })
+      .from(playlistSongTable)
+      .where(eq(playlistSongTable.playlistId, playlistId))
+      .orderBy(asc(playlistSongTable.position))
+      .all();
+    const rowBySong = new Map(rows.map((row) => [row.songId, row]));
+
+    const appended = moveExisting ? songIds : songIds.filter((id) => !rowBySong.has(id));
+    if (appended.length === 0) return { added: 0, moved: 0 };
+    const appendedSet = new Set(appended);
+
+    // Positions stay contiguous, as after any other playlist edit.
+    const order = [
+      ...rows.filter((row) => !appendedSet.has(row.songId)).map((row) => row.songId),
+      ...appended,
+    ];
+    let added = 0;
+    order.forEach((songId, position) => {
+      const row = rowBySong.get(songId);
+      if (!row) {
+        tx.insert(playlistSongTable).values({ playlistId, songId, position }).run();
+        added++;
+      } else if (row.position !== position) {
+        tx.update(playlistSongTable)
+          .set({ position })
+          .where(eq(playlistSongTable.id, row.id))
+          .run();
+      }
+    });
+    return { added, moved: appended.length - added };
+  });
+}
@@ -0,0 +1,137 @@
+import { db, eq, tables } from '../shared/db';
+import { getClient, getHoshimi, getPlayer } from '../startDiscord';
+import { isConfiguredGuild, logger } from './config';
+import { startLibraryPlayback } from './playback';
+import { connectToVoiceChannel } from './voice';
+
+const { playbackSchedule: scheduleTable } = tables;
+
+// ---------------------------------------------------------------------------
+// Scheduled playback
+//
+// Every tick, enabled schedules whose weekday and HH:MM match the current
+// time in their own time zone are run: the bot joins the schedule's voice
+// channel and starts its playlist through the same path as POST /player/play.
+// A schedule that comes due while the server is down is skipped, not caught
+// up on.
+// ---------------------------------------------------------------------------
+
+type Schedule = typeof scheduleTable.$inferSelect;
+
+const TICK_MS = 20_000;
+
+// Ticks land several times inside the matching minute; a schedule that ran
+// this recently has already had its turn.
+const RERUN_GUARD_MS = 2 * 60_000;
+
+/** requestedBy shown on songs queued by a schedule. */
+export const SCHEDULE_REQUESTER = 'Schedule';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+let interval: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+/** Whether `timeZone` is an IANA zone this runtime knows. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Weekday (0 = Sunday) and 24-hour HH:MM of `date` in a time zone. */
+function localSlot(date: Date, timeZone: string): { day: number; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+  return { day: WEEKDAYS.indexOf(part('weekday')), time: `${part('hour')}:${part('minute')}` };
+}
+
+function isDue(schedule: Schedule, now: Date): boolean {
+  if (schedule.lastRunAt && now.getTime() - schedule.lastRunAt.getTime() < RERUN_GUARD_MS) {
+    return false;
+  }
+  const slot = localSlot(now, schedule.timeZone);
+  return schedule.days.includes(slot.day) && slot.time === schedule.time;
+}
+
+/**
+ * Runs one schedule. An already connected player is reused, the same as
+ * POST /player/play does, so a schedule joins its channel only when the bot
+ * isn't in voice yet.
+ */
+async function runSchedule(schedule: Schedule): Promise<void> {
+  const { id, guildId } = schedule;
+  await db
+    .update(scheduleTable)
+    .set({ lastRunAt: new Date() })
+    .where(eq(scheduleTable.id, id))
+    .run();
+
+  if (!getClient() || !getHoshimi()) {
+    logger.warn({ scheduleId: id, guildId }, 'Skipping scheduled playback: bot is not ready');
+    return;
+  }
+
+  const existing = getPlayer(guildId);
+  const player =
+    existing && getHoshimi()?.players.get(guildId)?.connected
+      ? existing
+      : await connectToVoiceChannel(guildId, schedule.voiceChannelId);
+
+  const result = await startLibraryPlayback(
+    player,
+    { playlistId: schedule.playlistId, mode: schedule.mode, loop: schedule.loopMode },
+    SCHEDULE_REQUESTER,
+    { discordId: schedule.createdBy }
+  );
+  if (!result.ok) {
+    logger.warn({ scheduleId: id, guildId, error: result.error }, 'Scheduled playback failed');
+    return;
+  }
+  logger.info({ scheduleId: id, guildId, count: result.count }, 'Started scheduled playback');
+}
+
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const now = new Date();
+    const schedules = await db.select().from(scheduleTable).where(eq(scheduleTable.enabled, true));
+    for (const schedule of schedules) {
+      if (!isConfiguredGuild(schedule.guildId) || !isDue(schedule, now)) continue;
+      try {
+        await runSchedule(schedule);
+      } catch (err) {
+        logger.error({ err, scheduleId: schedule.id }, 'Scheduled playback failed');
+      }
+    }
+  } catch (err) {
+    logger.error({ err }, 'Could not check playback schedules');
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Starts checking playback schedules.
+ *
+ * Called on startup once the Discord bot is up.
+ */
+export function startScheduler(): void {
+  interval ??= setInterval(() => void tick(), TICK_MS);
+}
+
+export function stopScheduler(): void {
+  if (interval) clearInterval(interval);
+  interval = null;
+}
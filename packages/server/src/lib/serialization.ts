@@ -1,20 +1,54 @@
-import type { Song } from '../shared';
-
-// Accept both Date and string createdAt — Drizzle uses Date at the DB level,
-// but we serialize to ISO string for JSON serialization.
-type SerializedSong = Omit<Song, 'createdAt'> & { createdAt: string | Date };
+import type { PlayHistoryEntry, Song, SongLyrics } from '../shared';
+import type { tables } from '../shared/db';
 
 // ---------------------------------------------------------------------------
 // Serialization helpers
 // ---------------------------------------------------------------------------
 
+// Accept both Date and string timestamps — Drizzle uses Date at the DB level,
+// but we serialize to ISO string for JSON serialization.
 export function formatSong(s: {
   createdAt: Date | string;
   tags?: string[] | null;
-}): SerializedSong {
+  unavailableAt?: Date | string | null;
+  availabilityCheckedAt?: Date | string | null;
+}): Song {
   return {
     ...s,
     createdAt: s.createdAt instanceof Date ? s.createdAt.toISOString() : s.createdAt,
     tags: s.tags ?? [],
-  } as SerializedSong;
+    ...(s.unavailableAt instanceof Date && { unavailableAt: s.unavailableAt.toISOString() }),
+    ...(s.availabilityCheckedAt instanceof Date && {
+      availabilityCheckedAt: s.availabilityCheckedAt.toISOString(),
+    }),
+  } as Song;
+}
+
+export function formatPlaylist(pl: typeof tables.playlist.$inferSelect, songCount?: number) {
+  return {
+    ...pl,
+    createdAt: pl.createdAt.toISOString(),
+    ...(songCount !== undefined && { _count: { songs: songCount } }),
+  };
+}
+
+export function formatPlayHistoryEntry(
+  row: Omit<PlayHistoryEntry, 'startedAt'> & { startedAt: Date; guildId?: string }
+): PlayHistoryEntry {
+  const { guildId: _guildId, ...entry } = row;
+  return { ...entry, startedAt: row.startedAt.toISOString() };
+}
+
+export function formatSongLyrics(row: {
+  songId: string;
+  text: string;
+  synced: boolean;
+  updatedAt: Date;
+}): SongLyrics {
+  return {
+    songId: row.songId,
+    text: row.text,
+    synced: row.synced,
+    updatedAt: row.updatedAt.toISOString(),
+  };
 }
@@ -0,0 +1,45 @@
+import { fisherYatesShuffle, type QueuedSong, spreadShuffle } from '../shared';
+
+// ---------------------------------------------------------------------------
+// Smart shuffle
+//
+// With smart shuffle on, a shuffled queue keeps songs by the same artist,
+// from the same album or with the same dominant tag apart (see spreadShuffle
+// in shared/shuffle.ts). A song's dominant tag is whichever of its tags is
+// most common among the songs being shuffled, so a tag that runs through the
+// whole queue spreads out, while one-off tags don't get in the way.
+// ---------------------------------------------------------------------------
+
+/** The spread keys of each song, for the set of songs being shuffled. */
+export function smartShuffleKeys(songs: QueuedSong[]): (song: QueuedSong) => string[] {
+  const tagCounts = new Map<string, number>();
+  for (const song of songs) {
+    for (const tag of new Set((song.tags ?? []).map((t) => t.toLowerCase()))) {
+      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return (song) => {
+    const keys: string[] = [];
+    if (song.artist) keys.push(`artist:${song.artist.toLowerCase()}`);
+    if (song.album) keys.push(`album:${song.album.toLowerCase()}`);
+
+    let dominant: string | null = null;
+    for (const tag of (song.tags ?? []).map((t) => t.toLowerCase())) {
+      if (dominant === null || (tagCounts.get(tag) ?? 0) > (tagCounts.get(dominant) ?? 0)) {
+        dominant = tag;
+      }
+    }
+    if (dominant !== null) keys.push(`tag:${dominant}`);
+
+    return keys;
+  };
+}
+
+/** Songs in random order; spread apart as above when `smart` is set. */
+export function shuffleSongs(songs: QueuedSong[], smart: boolean): QueuedSong[] {
+  if (smart) return spreadShuffle(songs, smartShuffleKeys(songs));
+  const shuffled = [...songs];
+  fisherYatesShuffle(shuffled);
+  return shuffled;
+}
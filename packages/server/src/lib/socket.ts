@@ -14,10 +14,12 @@ type SerializedPlaylist = Omit<Playlist, 'createdAt'> & { createdAt: string | Da
 // WebSocket client registry
 // ---------------------------------------------------------------------------
 
+// Each client subscribes to one guild's player on connect (ws.data.guildId);
+// library events (songs, playlists) go to everyone since the library is shared.
 // biome-ignore lint/suspicious/noExplicitAny: Bun's WebSocket type is incompatible with global WebSocket
 const clients = new Set<any>();
 
-export async function getCompressorSettings(): Promise<CompressorSettings | null> {
+export async function getCompressorSettings(guildId: string): Promise<CompressorSettings | null> {
   const row = await db
     .select({
       enabled: tables.guildSettings.compressorEnabled,
@@ -28,7 +30,7 @@ export async function getCompressorSettings(): Promise<CompressorSettings | null
       gain: tables.guildSettings.compressorGain,
     })
     .from(tables.guildSettings)
-    .where(eq(tables.guildSettings.id, 1))
+    .where(eq(tables.guildSettings.guildId, guildId))
     .get();
   if (!row) return null;
   return {
@@ -50,7 +52,10 @@ export function registerClient(
   user: User
 ): void {
   clients.add(ws);
-  logger.info({ socketId: ws.id, username: user.username }, 'WebSocket client connected');
+  logger.info(
+    { socketId: ws.id, username: user.username, guildId: ws.data.guildId },
+    'WebSocket client connected'
+  );
 }
 
 /**
@@ -69,15 +74,16 @@ export function unregisterClient(
 // ---------------------------------------------------------------------------
 
 /**
- * Emit the full queue state to all connected clients.
+ * Emit the full queue state to the clients watching this guild's player.
  */
-export async function emitPlayerUpdate(state: QueueState): Promise<void> {
-  const compressor = await getCompressorSettings();
+export async function emitPlayerUpdate(guildId: string, state: QueueState): Promise<void> {
+  const compressor = await getCompressorSettings(guildId);
   const message = JSON.stringify({
     event: 'player:update',
     data: { ...state, compressorSettings: compressor },
   });
   for (const client of clients) {
+    if (client.data.guildId !== guildId) continue;
     client.send(message);
   }
 }
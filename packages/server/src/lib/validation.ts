@@ -1,9 +1,11 @@
+import type { UserGuild } from '../shared';
 import {
   getMetadata,
   getPlaylistMetadataWithVideos,
   isValidYouTubeUrl,
   isYouTubePlaylistUrl,
 } from '../startDiscord';
+import { audioPresetExists } from './audioFilters';
 import { json } from './json';
 
 const MAX_URL_LENGTH = 2000;
@@ -137,6 +139,44 @@ export function validatePlaylistName(name: unknown): ValidationResult<string> {
   return { ok: true, value: name.trim() };
 }
 
+/** Validates and trims an audio preset name. */
+export function validatePresetName(name: unknown): ValidationResult<string> {
+  const MAX_NAME_LENGTH = 50;
+  if (!name || typeof name !== 'string' || name.trim().length === 0) {
+    return { ok: false, response: json({ error: 'name is required.' }, 400) };
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return {
+      ok: false,
+      response: json({ error: `name must be ${MAX_NAME_LENGTH} characters or less.` }, 400),
+    };
+  }
+  return { ok: true, value: name.trim() };
+}
+
+/**
+ * Validates an audio preset reference: a built-in or a preset saved in one of
+ * the guilds the user administers, or null to clear it. Presets from other
+ * guilds are reported as not found.
+ */
+export async function validateAudioPresetId(
+  value: unknown,
+  user: { guilds: UserGuild[] }
+): Promise<ValidationResult<string | null>> {
+  if (value === null) return { ok: true, value: null };
+  if (typeof value !== 'string') {
+    return {
+      ok: false,
+      response: json({ error: 'audioPresetId must be a preset id or null.' }, 400),
+    };
+  }
+  const adminGuildIds = user.guilds.filter((guild) => guild.isAdmin).map((guild) => guild.id);
+  if (!(await audioPresetExists(value, adminGuildIds))) {
+    return { ok: false, response: json({ error: 'Audio preset not found.' }, 404) };
+  }
+  return { ok: true, value };
+}
+
 /** Validates and trims a nickname. Returns null for empty/missing, error Response for invalid type/length. */
 export function validateNickname(nickname: unknown): ValidationResult<string | null> {
   const MAX_NICKNAME_LENGTH = 50;
@@ -218,3 +258,124 @@ export function validateVolumeBoost(
   }
   return { ok: true, value };
 }
+
+/**
+ * Validates trim offsets for a song, merging a PATCH body over the song's
+ * current values. Each offset is null (untrimmed) or a whole number of
+ * milliseconds inside the video, and the start must come before the end.
+ * Returns only the offsets present in the body.
+ */
+export function validateTrimOffsets(
+  body: Record<string, unknown>,
+  song: { duration: number; startOffsetMs: number | null; endOffsetMs: number | null }
+):
+  | { ok: true; value: { startOffsetMs?: number | null; endOffsetMs?: number | null } }
+  | { ok: false; response: Response } {
+  const value: { startOffsetMs?: number | null; endOffsetMs?: number | null } = {};
+  const durationMs = song.duration * 1000;
+
+  for (const field of ['startOffsetMs', 'endOffsetMs'] as const) {
+    if (!(field in body)) continue;
+    const offset = body[field];
+    if (offset === null) {
+      value[field] = null;
+      continue;
+    }
+    if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) {
+      return {
+        ok: false,
+        response: json({ error: `${field} must be a non-negative integer or null.` }, 400),
+      };
+    }
+    if (offset > durationMs) {
+      return {
+        ok: false,
+        response: json({ error: `${field} is past the end of the song.` }, 400),
+      };
+    }
+    value[field] = offset;
+  }
+
+  const start = value.startOffsetMs !== undefined ? value.startOffsetMs : song.startOffsetMs;
+  const end = value.endOffsetMs !== undefined ? value.endOffsetMs : song.endOffsetMs;
+  if ((start ?? 0) >= (end ?? durationMs)) {
+    return {
+      ok: false,
+      response: json({ error: 'The start offset must be before the end offset.' }, 400),
+    };
+  }
+
+  return { ok: true, value };
+}
+
+const MAX_SEGMENTS = 200;
+
+/**
+ * Validates the segments to cut from a song: a non-empty list of titled
+ * ranges, each checked like a trim on the whole video.
+ */
+export function validateSegments(
+  value: unknown,
+  durationSec: number
+): ValidationResult<{ title: string; startOffsetMs: number; endOffsetMs: number | null }[]> {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { ok: false, response: json({ error: 'segments must be a non-empty array.' }, 400) };
+  }
+  if (value.length > MAX_SEGMENTS) {
+    return {
+      ok: false,
+      response: json({ error: `At most ${MAX_SEGMENTS} segments can be added at once.` }, 400),
+    };
+  }
+
+  const segments: { title: string; startOffsetMs: number; endOffsetMs: number | null }[] = [];
+  for (const entry of value as Record<string, unknown>[]) {
+    const title = typeof entry?.title === 'string' ? entry.title.trim() : '';
+    if (!title || title.length > 200) {
+      return {
+        ok: false,
+        response: json({ error: 'Each segment needs a title of at most 200 characters.' }, 400),
+      };
+    }
+    if (typeof entry.startOffsetMs !== 'number') {
+      return {
+        ok: false,
+        response: json({ error: 'Each segment needs a startOffsetMs.' }, 400),
+      };
+    }
+    const trimResult = validateTrimOffsets(
+      { startOffsetMs: entry.startOffsetMs, endOffsetMs: entry.endOffsetMs ?? null },
+      { duration: durationSec, startOffsetMs: null, endOffsetMs: null }
+    );
+    if (!trimResult.ok) return trimResult;
+    segments.push({
+      title,
+      startOffsetMs: trimResult.value.startOffsetMs ?? 0,
+      endOffsetMs: trimResult.value.endOffsetMs ?? null,
+    });
+  }
+  return { ok: true, value: segments };
+}
+
+const MAX_LYRICS_LENGTH = 50_000;
+
+/**
+ * Validates lyrics text, plain or LRC. Returns null when cleared (null or
+ * blank), so the song's lyrics are removed.
+ */
+export function validateLyrics(value: unknown): ValidationResult<string | null> {
+  if (value !== null && typeof value !== 'string') {
+    return { ok: false, response: json({ error: 'lyrics must be a string or null.' }, 400) };
+  }
+  const trimmed = value?.trim() || null;
+  if (trimmed && trimmed.length > MAX_LYRICS_LENGTH) {
+    return {
+      ok: false,
+      response: json(
+        { error: `Lyrics must be ${MAX_LYRICS_LENGTH.toLocaleString('en')} characters or fewer.` },
+        400
+      ),
+    };
+  }
+  return { ok: true, value: trimmed };
+}
@@ -1,19 +1,24 @@
+import { ChannelType } from 'seyfert/lib/types';
+import type { VoiceChannel } from '../shared';
 import { createPlayer, getClient, getHoshimi, getPlayer } from '../startDiscord';
-import { GUILD_ID, logger } from './config';
+import { logger } from './config';
 import { json } from './json';
 
 /**
- * Verifies the requesting user is in a voice channel.
+ * Verifies the requesting user is in a voice channel in the given guild.
  * Returns true if in voice, error Response otherwise.
  */
-export async function requireUserInVoice(discordId: string): Promise<true | Response> {
+export async function requireUserInVoice(
+  guildId: string,
+  discordId: string
+): Promise<true | Response> {
   const client = getClient();
   if (!client) {
     return json({ error: 'Discord bot is not ready yet.' }, 503);
   }
 
   try {
-    const guild = await client.guilds.fetch(GUILD_ID);
+    const guild = await client.guilds.fetch(guildId);
     const member = await guild.members.resolve(discordId);
 
     if (!member) {
@@ -33,19 +38,20 @@ export async function requireUserInVoice(discordId: string): Promise<true | Resp
 }
 
 /**
- * Returns existing player or auto-joins the user's voice channel.
+ * Returns the guild's existing player or auto-joins the user's voice channel.
  * Returns the player on success, error Response on failure.
  */
 export async function resolveOrAutoJoinPlayer(
+  guildId: string,
   discordId: string
 ): Promise<
   | { ok: true; player: NonNullable<ReturnType<typeof getPlayer>> }
   | { ok: false; response: Response }
 > {
-  const existingPlayer = getPlayer(GUILD_ID);
+  const existingPlayer = getPlayer(guildId);
   if (existingPlayer) {
     const hoshimi = getHoshimi();
-    const hoshimiPlayer = hoshimi?.players.get(GUILD_ID);
+    const hoshimiPlayer = hoshimi?.players.get(guildId);
     if (hoshimiPlayer?.connected) {
       return { ok: true, player: existingPlayer };
     }
@@ -62,7 +68,7 @@ export async function resolveOrAutoJoinPlayer(
   }
 
   try {
-    const guild = await discordClient.guilds.fetch(GUILD_ID);
+    const guild = await discordClient.guilds.fetch(guildId);
     const member = await guild.members.resolve(discordId);
 
     if (!member) {
@@ -87,15 +93,7 @@ export async function resolveOrAutoJoinPlayer(
       };
     }
 
-    // Create Hoshimi player and connect to the voice channel.
-    const player = hoshimi.createPlayer({ guildId: GUILD_ID, voiceId: voiceChannelId });
-    await player.connect();
-    player.setVoice({ voiceId: voiceChannelId });
-
-    // Wait briefly for connection to establish.
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    return { ok: true, player: createPlayer(GUILD_ID, voiceChannelId) };
+    return { ok: true, player: await connectToVoiceChannel(guildId, voiceChannelId) };
   } catch (error) {
     logger.error({ err: error as Error }, 'Failed to auto-join voice channel');
     return {
@@ -109,3 +107,51 @@ export async function resolveOrAutoJoinPlayer(
     };
   }
 }
+
+/**
+ * Connects the bot to a voice channel and returns the guild's player.
+ * Throws if the audio node is not ready or the connection fails.
+ */
+export async function connectToVoiceChannel(
+  guildId: string,
+  voiceChannelId: string
+): Promise<NonNullable<ReturnType<typeof getPlayer>>> {
+  const hoshimi = getHoshimi();
+  if (!hoshimi) {
+    throw new Error('Audio node is not ready yet.');
+  }
+
+  // Create Hoshimi player and connect to the voice channel.
+  const player = hoshimi.createPlayer({ guildId, voiceId: voiceChannelId });
+  await player.connect();
+  player.setVoice({ voiceId: voiceChannelId });
+
+  // Wait briefly for connection to establish.
+  await new Promise((resolve) => setTimeout(resolve, 500));
+
+  return createPlayer(guildId, voiceChannelId);
+}
+
+/**
+ * Lists the guild's voice and stage channels, sorted by name.
+ * Throws if the bot is not ready or the guild can't be fetched.
+ */
+export async function listVoiceChannels(guildId: string): Promise<VoiceChannel[]> {
+  const client = getClient();
+  if (!client) {
+    throw new Error('Discord bot is not ready yet.');
+  }
+
+  const channels = (await client.guilds.channels.list(guildId)) as {
+    id: string;
+    name: string;
+    type: ChannelType;
+  }[];
+  return channels
+    .filter(
+      (channel) =>
+        channel.type === ChannelType.GuildVoice || channel.type === ChannelType.GuildStageVoice
+    )
+    .map((channel) => ({ id: channel.id, name: channel.name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
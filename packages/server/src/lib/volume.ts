@@ -0,0 +1,59 @@
+import { db, tables } from '../shared/db';
+import { broadcastQueueUpdate, getPlayer } from '../startDiscord';
+import { getGuildQueueState } from './player';
+
+const { guildSettings: guildSettingsTable } = tables;
+
+// ---------------------------------------------------------------------------
+// Master volume
+//
+// Each guild has a master volume, in percent, saved in guildSettings. It
+// scales every track's volume (100 + its boost), so per-song boosts keep their
+// relative loudness. The values are cached here because QueueState reads them
+// on every broadcast.
+// ---------------------------------------------------------------------------
+
+export const MAX_MASTER_VOLUME = 200;
+
+// guildId -> master volume; guilds without a row play at 100.
+const masterVolumes = new Map<string, number>();
+
+/**
+ * Loads every guild's master volume into the cache.
+ *
+ * Called automatically on startup after DB migrations.
+ */
+export async function loadMasterVolumes(): Promise<void> {
+  const rows = await db
+    .select({
+      guildId: guildSettingsTable.guildId,
+      masterVolume: guildSettingsTable.masterVolume,
+    })
+    .from(guildSettingsTable);
+  for (const row of rows) masterVolumes.set(row.guildId, row.masterVolume);
+}
+
+export function getMasterVolume(guildId: string): number {
+  return masterVolumes.get(guildId) ?? 100;
+}
+
+/**
+ * Saves a guild's master volume, applies it to the playing track without
+ * restarting it, and broadcasts the new state to every client.
+ */
+export async function setMasterVolume(guildId: string, masterVolume: number): Promise<void> {
+  await db
+    .insert(guildSettingsTable)
+    .values({ guildId, masterVolume })
+    .onConflictDoUpdate({ target: guildSettingsTable.guildId, set: { masterVolume } })
+    .run();
+  masterVolumes.set(guildId, masterVolume);
+
+  const player = getPlayer(guildId);
+  if (player) {
+    // Broadcasts on its own.
+    player.applyMasterVolume();
+  } else {
+    broadcastQueueUpdate(guildId, getGuildQueueState(guildId));
+  }
+}
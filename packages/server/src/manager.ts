@@ -1,5 +1,6 @@
 import { DestroyReasons } from 'hoshimi';
 import { GuildPlayer } from './GuildPlayer';
+import { freezePlayerSnapshots } from './lib/playerSnapshots';
 import { getHoshimi } from './startDiscord';
 
 // ---------------------------------------------------------------------------
@@ -44,6 +45,18 @@ export function createPlayer(guildId: string, voiceId: string): GuildPlayer {
   return player;
 }
 
+/**
+ * Write every player's state one last time, then stop further snapshot
+ * writes. Used during graceful shutdown before destroyAllPlayers() empties
+ * the queues, so the session can be restored on the next start.
+ */
+export function persistAllPlayers(): void {
+  for (const player of players.values()) {
+    player.persist();
+  }
+  freezePlayerSnapshots();
+}
+
 /**
  * Stop all active players and destroy their voice connections.
  * Used during graceful shutdown to clean up players and voice connections.
@@ -10,7 +10,11 @@ export function verifySessionToken(token: string): User | null {
   if (!JWT_SECRET) return null;
 
   try {
-    return jwt.verify(token, JWT_SECRET) as User;
+    const user = jwt.verify(token, JWT_SECRET) as User;
+    // Tokens issued before multi-guild support carry no guild list; treat
+    // them as invalid so the client refreshes and gets a new one.
+    if (!Array.isArray(user.guilds)) return null;
+    return user;
   } catch {
     return null;
   }
@@ -2,8 +2,9 @@ import crypto from 'node:crypto';
 import { and, eq, lt } from 'drizzle-orm';
 import jwt from 'jsonwebtoken';
 import type { RouteContext } from '../index';
-import { logger, WEB_UI_ORIGIN } from '../lib/config';
+import { GUILD_IDS, logger, WEB_UI_ORIGIN } from '../lib/config';
 import { json } from '../lib/json';
+import type { User, UserGuild } from '../shared';
 import { db, tables } from '../shared/db';
 
 const { refreshToken: refreshTokenTable } = tables;
@@ -13,7 +14,6 @@ const {
   DISCORD_CLIENT_SECRET,
   DISCORD_REDIRECT_URI,
   DISCORD_BOT_TOKEN,
-  GUILD_ID,
   JWT_SECRET,
   ADMIN_ROLE_IDS,
 } = process.env as Record<string, string>;
@@ -27,7 +27,7 @@ const ADMIN_ROLE_ID_SET = new Set(
 
 const isProduction = process.env.NODE_ENV === 'production';
 
-function isAdminUser(memberRoles: string[]): boolean {
+export function isAdminUser(memberRoles: string[]): boolean {
   return memberRoles.some((roleId) => ADMIN_ROLE_ID_SET.has(roleId));
 }
 
@@ -52,12 +52,7 @@ function hashToken(token: string): string {
   return crypto.createHash('sha256').update(token).digest('hex');
 }
 
-function generateAccessToken(payload: {
-  discordId: string;
-  username: string;
-  avatar: string | null;
-  isAdmin: boolean;
-}): string {
+function generateAccessToken(payload: User): string {
   return jwt.sign(payload, JWT_SECRET as string, {
     expiresIn: ACCESS_TOKEN_EXPIRES_IN,
   });
@@ -116,10 +111,13 @@ function authRateLimit(ip: string): boolean {
 // ---------------------------------------------------------------------------
 
 /** Fetches guild member roles. Returns 'not-in-guild' on 404, null on other errors. */
-async function fetchGuildMemberRoles(discordId: string): Promise<string[] | null | 'not-in-guild'> {
+async function fetchGuildMemberRoles(
+  guildId: string,
+  discordId: string
+): Promise<string[] | null | 'not-in-guild'> {
   try {
     const memberRes = await fetch(
-      `https://discord.com/api/guilds/${GUILD_ID}/members/${discordId}`,
+      `https://discord.com/api/guilds/${guildId}/members/${discordId}`,
       { headers: { Authorization: `Bot ${DISCORD_BOT_TOKEN}` } }
     );
     if (memberRes.status === 404) {
@@ -132,17 +130,71 @@ async function fetchGuildMemberRoles(discordId: string): Promise<string[] | null
     return data.roles ?? [];
   } catch (err: unknown) {
     logger.error(
-      { err: err instanceof Error ? err.message : String(err) },
+      { err: err instanceof Error ? err.message : String(err), guildId },
       'Failed to fetch guild member roles'
     );
     return null;
   }
 }
 
-/** Returns null if the user is not in the guild or Discord is unreachable. */
-async function fetchUserAdminStatus(
-  discordId: string
-): Promise<{ isAdmin: boolean; username: string; avatar: string | null } | null> {
+// Guild names and icons rarely change, so they are fetched once per process.
+const guildInfoCache = new Map<string, { name: string; iconUrl: string | null }>();
+
+/** Fetches a guild's display name and icon. Falls back to the raw ID on errors. */
+async function fetchGuildInfo(guildId: string): Promise<{ name: string; iconUrl: string | null }> {
+  const cached = guildInfoCache.get(guildId);
+  if (cached) return cached;
+
+  try {
+    const guildRes = await fetch(`https://discord.com/api/guilds/${guildId}`, {
+      headers: { Authorization: `Bot ${DISCORD_BOT_TOKEN}` },
+    });
+    if (!guildRes.ok) {
+      throw new Error(`Discord API error: ${guildRes.status}`);
+    }
+    const data = (await guildRes.json()) as { name: string; icon: string | null };
+    const info = {
+      name: data.name,
+      iconUrl: data.icon ? `https://cdn.discordapp.com/icons/${guildId}/${data.icon}.png` : null,
+    };
+    guildInfoCache.set(guildId, info);
+    return info;
+  } catch (err: unknown) {
+    logger.error(
+      { err: err instanceof Error ? err.message : String(err), guildId },
+      'Failed to fetch guild info'
+    );
+    return { name: guildId, iconUrl: null };
+  }
+}
+
+/**
+ * Returns the configured guilds the user is a member of, with their admin
+ * status in each. A guild Discord won't answer for (e.g. one the bot has
+ * left) is skipped, so it doesn't lock the user out of the others.
+ */
+async function fetchUserGuilds(discordId: string): Promise<UserGuild[]> {
+  const guilds: UserGuild[] = [];
+  for (const guildId of GUILD_IDS) {
+    const roles = await fetchGuildMemberRoles(guildId, discordId);
+    if (roles === null) {
+      logger.warn({ guildId }, 'Skipping a guild whose membership could not be checked');
+      continue;
+    }
+    if (roles === 'not-in-guild') continue;
+    const { name, iconUrl } = await fetchGuildInfo(guildId);
+    guilds.push({ id: guildId, name, iconUrl, isAdmin: isAdminUser(roles) });
+  }
+  return guilds;
+}
+
+/** Returns null if the user is in none of the guilds or Discord is unreachable. */
+async function fetchUserAdminStatus(discordId: string): Promise<{
+  isAdmin: boolean;
+  username: string;
+  avatar: string | null;
+  guilds: UserGuild[];
+} | null> {
   try {
     const userRes = await fetch(`https://discord.com/api/users/${discordId}`, {
       headers: { Authorization: `Bot ${DISCORD_BOT_TOKEN}` },
@@ -153,13 +205,14 @@ async function fetchUserAdminStatus(
     const userData = (await userRes.json()) as { username: string; avatar: string | null };
     const { username, avatar } = userData;
 
-    const roles = await fetchGuildMemberRoles(discordId);
-    if (roles === null || roles === 'not-in-guild') return null;
+    const guilds = await fetchUserGuilds(discordId);
+    if (guilds.length === 0) return null;
 
     return {
-      isAdmin: isAdminUser(roles),
+      isAdmin: guilds.some((guild) => guild.isAdmin),
       username,
       avatar: avatar ? `https://cdn.discordapp.com/avatars/${discordId}/${avatar}.png` : null,
+      guilds,
     };
   } catch (err: unknown) {
     logger.error(
@@ -222,15 +275,16 @@ async function fetchDiscordIdentity(
  */
 async function generateAndStoreTokens(
   discordUser: { id: string; username: string; avatar: string | null },
-  isAdmin: boolean
+  guilds: UserGuild[]
 ): Promise<{ accessToken: string; refreshToken: string }> {
-  const payload = {
+  const payload: User = {
     discordId: discordUser.id,
     username: discordUser.username,
     avatar: discordUser.avatar
       ? `https://cdn.discordapp.com/avatars/${discordUser.id}/${discordUser.avatar}.png`
       : null,
-    isAdmin,
+    isAdmin: guilds.some((guild) => guild.isAdmin),
+    guilds,
   };
   const accessToken = generateAccessToken(payload);
   const refreshToken = generateRefreshToken(discordUser.id);
@@ -323,20 +377,16 @@ async function handleCallback(request: Request, url: URL): Promise<Response> {
     return json({ error: 'Failed to fetch Discord user info.' }, 502);
   }
 
-  // 3. Verify guild membership and get member roles.
-  const rolesResult = await fetchGuildMemberRoles(discordUser.id);
-  if (rolesResult === null || rolesResult === 'not-in-guild') {
+  // 3. Verify guild membership and get admin status per guild.
+  const guilds = await fetchUserGuilds(discordUser.id);
+  if (guilds.length === 0) {
     return json({ error: 'You must be a member of the server to use this app.' }, 403);
   }
-  const memberRoles = rolesResult;
-
-  // 4. Determine admin status.
-  const isAdmin = isAdminUser(memberRoles);
 
-  // 5. Generate and store tokens.
-  const { accessToken, refreshToken } = await generateAndStoreTokens(discordUser, isAdmin);
+  // 4. Generate and store tokens.
+  const { accessToken, refreshToken } = await generateAndStoreTokens(discordUser, guilds);
 
-  // 6. Set cookies and redirect.
+  // 5. Set cookies and redirect.
   const headers = new Headers();
   headers.append(
     'Set-Cookie',
@@ -405,11 +455,12 @@ async function handleRefresh(ctx: RouteContext): Promise<Response> {
   }
 
   // 7. Generate new tokens.
-  const payload = {
+  const payload: User = {
     discordId: decoded.discordId,
     username: userInfo.username,
     avatar: userInfo.avatar,
     isAdmin: userInfo.isAdmin,
+    guilds: userInfo.guilds,
   };
   const newAccessToken = generateAccessToken(payload);
   const newRefreshToken = generateRefreshToken(decoded.discordId);
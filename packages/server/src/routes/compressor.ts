@@ -1,8 +1,7 @@
-import type { RouteContext } from '../index';
+import type { GuildRouteContext } from '../index';
+import { applyGuildFilters } from '../lib/audioFilters';
 import { json } from '../lib/json';
 import { db, tables } from '../shared/db';
-import { logger } from '../shared/logger';
-import { getHoshimi } from '../startDiscord';
 
 interface CompressorPayload {
   enabled: boolean;
@@ -13,19 +12,10 @@ interface CompressorPayload {
   gain: number;
 }
 
-function buildFilters(payload: CompressorPayload) {
-  return {
-    compressor: {
-      threshold: payload.threshold,
-      ratio: payload.ratio,
-      attack: payload.attack,
-      release: payload.release,
-      gain: payload.gain,
-    },
-  };
-}
-
-export async function handleCompressor(ctx: RouteContext, request: Request): Promise<Response> {
+export async function handleCompressor(
+  ctx: GuildRouteContext,
+  request: Request
+): Promise<Response> {
   if (!ctx.isAdmin) return json({ error: 'Admin access required.' }, 403);
 
   let body: CompressorPayload;
@@ -36,6 +26,7 @@ export async function handleCompressor(ctx: RouteContext, request: Request): Pro
   }
 
   const { enabled, threshold, ratio, attack, release, gain } = body;
+  const { guildId } = ctx;
 
   // Validate ranges
   if (typeof enabled !== 'boolean') return json({ error: 'enabled must be boolean' }, 400);
@@ -54,7 +45,7 @@ export async function handleCompressor(ctx: RouteContext, request: Request): Pro
   await db
     .insert(tables.guildSettings)
     .values({
-      id: 1,
+      guildId,
       compressorEnabled: enabled,
       compressorThreshold: threshold,
       compressorRatio: ratio,
@@ -63,7 +54,7 @@ export async function handleCompressor(ctx: RouteContext, request: Request): Pro
       compressorGain: gain,
     })
     .onConflictDoUpdate({
-      target: tables.guildSettings.id,
+      target: tables.guildSettings.guildId,
       set: {
         compressorEnabled: enabled,
         compressorThreshold: threshold,
@@ -75,27 +66,8 @@ export async function handleCompressor(ctx: RouteContext, request: Request): Pro
     })
     .run();
 
-  // Apply to live NodeLink player if connected
-  const guildId = process.env.GUILD_ID ?? '';
-  if (!guildId) {
-    logger.warn('GUILD_ID not set, skipping NodeLink filter update');
-  } else {
-    const hoshimi = getHoshimi();
-    if (hoshimi) {
-      const player = hoshimi.players.get(guildId);
-      if (player?.connected) {
-        try {
-          const filters = enabled ? buildFilters(body) : {};
-          await player.node.rest.updatePlayer({
-            guildId,
-            playerOptions: { filters },
-          });
-        } catch (err) {
-          logger.error({ err }, 'Failed to update NodeLink compressor filter');
-        }
-      }
-    }
-  }
+  // Apply to live NodeLink player if connected, together with the other filters
+  await applyGuildFilters(guildId);
 
   return json({ enabled, threshold, ratio, attack, release, gain });
 }
@@ -1,24 +1,14 @@
 import { eq } from 'drizzle-orm';
-import type { RouteContext } from '../index';
+import type { GuildRouteContext } from '../index';
+import { applyGuildFilters } from '../lib/audioFilters';
 import { json } from '../lib/json';
 import { db, tables } from '../shared/db';
-import { logger } from '../shared/logger';
-import { getHoshimi } from '../startDiscord';
 
 interface EqualizerPayload {
   bands: number[]; // length 15, each 0-100
 }
 
-// Build NodeLink equalizer filter array from band values (0-100)
-// Maps: 0→-0.5, 50→0.0 (neutral/flat), 100→0.5
-function buildEqualizerFilter(bands: number[]) {
-  return bands.map((value, index) => ({
-    band: index,
-    gain: (value - 50) / 100,
-  }));
-}
-
-export async function handleEqualizerGet(ctx: RouteContext): Promise<Response> {
+export async function handleEqualizerGet(ctx: GuildRouteContext): Promise<Response> {
   if (!ctx.isAdmin) return json({ error: 'Admin access required.' }, 403);
 
   const row = await db
@@ -40,7 +30,7 @@ export async function handleEqualizerGet(ctx: RouteContext): Promise<Response> {
       eqBand14: tables.guildSettings.eqBand14,
     })
     .from(tables.guildSettings)
-    .where(eq(tables.guildSettings.id, 1))
+    .where(eq(tables.guildSettings.guildId, ctx.guildId))
     .get();
 
   const bands = row
@@ -66,7 +56,10 @@ export async function handleEqualizerGet(ctx: RouteContext): Promise<Response> {
   return json({ bands });
 }
 
-export async function handleEqualizerPatch(ctx: RouteContext, request: Request): Promise<Response> {
+export async function handleEqualizerPatch(
+  ctx: GuildRouteContext,
+  request: Request
+): Promise<Response> {
   if (!ctx.isAdmin) return json({ error: 'Admin access required.' }, 403);
 
   let body: EqualizerPayload;
@@ -77,6 +70,7 @@ export async function handleEqualizerPatch(ctx: RouteContext, request: Request):
   }
 
   const { bands } = body;
+  const { guildId } = ctx;
 
   // Validate: must be array of 15 integers, each 0-100
   if (!Array.isArray(bands) || bands.length !== 15) {
@@ -93,7 +87,7 @@ export async function handleEqualizerPatch(ctx: RouteContext, request: Request):
   await db
     .insert(tables.guildSettings)
     .values({
-      id: 1,
+      guildId,
       eqBand0: bands[0],
       eqBand1: bands[1],
       eqBand2: bands[2],
@@ -111,7 +105,7 @@ export async function handleEqualizerPatch(ctx: RouteContext, request: Request):
       eqBand14: bands[14],
     })
     .onConflictDoUpdate({
-      target: tables.guildSettings.id,
+      target: tables.guildSettings.guildId,
       set: {
         eqBand0: bands[0],
         eqBand1: bands[1],
@@ -132,26 +126,8 @@ export async function handleEqualizerPatch(ctx: RouteContext, request: Request):
     })
     .run();
 
-  // Apply to live NodeLink player if connected
-  const guildId = process.env.GUILD_ID ?? '';
-  if (!guildId) {
-    logger.warn('GUILD_ID not set, skipping NodeLink equalizer filter update');
-  } else {
-    const hoshimi = getHoshimi();
-    if (hoshimi) {
-      const player = hoshimi.players.get(guildId);
-      if (player?.connected) {
-        try {
-          await player.node.rest.updatePlayer({
-            guildId,
-            playerOptions: { filters: { equalizer: buildEqualizerFilter(bands) } },
-          });
-        } catch (err) {
-          logger.error({ err }, 'Failed to update NodeLink equalizer filter');
-        }
-      }
-    }
-  }
+  // Apply to live NodeLink player if connected, together with the other filters
+  await applyGuildFilters(guildId);
 
   return json({ bands });
 }
@@ -0,0 +1,44 @@
+import { eq } from 'drizzle-orm';
+import type { GuildRouteContext } from '../index';
+import { json } from '../lib/json';
+import type { FadeSettings } from '../shared';
+import { db, tables } from '../shared/db';
+
+const MAX_FADE_MS = 10_000;
+
+export async function handleFadeGet(ctx: GuildRouteContext): Promise<Response> {
+  if (!ctx.isAdmin) return json({ error: 'Admin access required.' }, 403);
+
+  const row = await db
+    .select({ fadeMs: tables.guildSettings.fadeMs })
+    .from(tables.guildSettings)
+    .where(eq(tables.guildSettings.guildId, ctx.guildId))
+    .get();
+
+  return json({ fadeMs: row?.fadeMs ?? 0 } satisfies FadeSettings);
+}
+
+export async function handleFadePatch(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.isAdmin) return json({ error: 'Admin access required.' }, 403);
+
+  let body: FadeSettings;
+  try {
+    body = (await request.json()) as FadeSettings;
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
+
+  const { fadeMs } = body;
+  if (!Number.isInteger(fadeMs) || fadeMs < 0 || fadeMs > MAX_FADE_MS) {
+    return json({ error: `fadeMs must be integer 0 to ${MAX_FADE_MS}` }, 400);
+  }
+
+  // Upsert into DB. Players pick the new value up when their next track starts.
+  await db
+    .insert(tables.guildSettings)
+    .values({ guildId: ctx.guildId, fadeMs })
+    .onConflictDoUpdate({ target: tables.guildSettings.guildId, set: { fadeMs } })
+    .run();
+
+  return json({ fadeMs } satisfies FadeSettings);
+}
@@ -0,0 +1,68 @@
+import type { GuildRouteContext } from '../index';
+import { applyGuildFilters, getGuildAudioFilters } from '../lib/audioFilters';
+import { json } from '../lib/json';
+import { AUDIO_FILTER_SPECS, type AudioFilterName, type AudioFilters } from '../shared';
+import { db, tables } from '../shared/db';
+
+/**
+ * Checks a full AudioFilters object against AUDIO_FILTER_SPECS. Returns an
+ * error message, or null when every filter and parameter is known and in range.
+ */
+function validateFilters(body: unknown): string | null {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return 'filters must be an object';
+  }
+
+  for (const [name, params] of Object.entries(body)) {
+    const spec = AUDIO_FILTER_SPECS[name as AudioFilterName];
+    if (!spec) return `unknown filter ${name}`;
+    if (typeof params !== 'object' || params === null) return `${name} must be an object`;
+
+    for (const [param, range] of Object.entries(spec.params)) {
+      const value = (params as Record<string, unknown>)[param];
+      if (typeof value !== 'number' || value < range.min || value > range.max) {
+        return `${name}.${param} must be number ${range.min} to ${range.max}`;
+      }
+    }
+    for (const param of Object.keys(params)) {
+      if (!(param in spec.params)) return `unknown parameter ${name}.${param}`;
+    }
+  }
+  return null;
+}
+
+export async function handleFiltersGet(ctx: GuildRouteContext): Promise<Response> {
+  if (!ctx.isAdmin) return json({ error: 'Admin access required.' }, 403);
+
+  return json(await getGuildAudioFilters(ctx.guildId));
+}
+
+export async function handleFiltersPatch(
+  ctx: GuildRouteContext,
+  request: Request
+): Promise<Response> {
+  if (!ctx.isAdmin) return json({ error: 'Admin access required.' }, 403);
+
+  let body: AudioFilters;
+  try {
+    body = (await request.json()) as AudioFilters;
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
+
+  // The body is the full set: filters left out are switched off.
+  const error = validateFilters(body);
+  if (error) return json({ error }, 400);
+
+  const { guildId } = ctx;
+  await db
+    .insert(tables.guildSettings)
+    .values({ guildId, filters: body })
+    .onConflictDoUpdate({ target: tables.guildSettings.guildId, set: { filters: body } })
+    .run();
+
+  // Apply to live NodeLink player if connected, together with the compressor and equalizer
+  await applyGuildFilters(guildId);
+
+  return json(body);
+}
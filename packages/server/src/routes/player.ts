@@ -1,190 +1,270 @@
-import type { RouteContext } from '../index';
-import { GUILD_ID } from '../lib/config';
+import type { GuildRouteContext } from '../index';
+import { logger } from '../lib/config';
 import { json } from '../lib/json';
-import { requirePlayer, requirePlaying } from '../lib/player';
+import { type PlaybackRequest, startLibraryPlayback } from '../lib/playback';
+import { getGuildQueueState, requirePlayer, requirePlaying } from '../lib/player';
+import { dismissSavedSession, peekSavedSession, takeSavedSession } from '../lib/playerSnapshots';
 import { canAccessPlaylist } from '../lib/playlistAccess';
+import { appendToPlaylist, librarySongIds } from '../lib/queuePlaylist';
+import { formatPlayHistoryEntry, formatPlaylist, formatSong } from '../lib/serialization';
+import { emitPlaylistUpdated } from '../lib/socket';
 import {
   clampMaxVideos,
   fetchPlaylistMetadata,
   fetchYouTubeMetadata,
+  validatePlaylistName,
   validateYouTubePlaylistUrl,
   validateYouTubeUrl,
   youTubeUrl,
 } from '../lib/validation';
-import { requireUserInVoice, resolveOrAutoJoinPlayer } from '../lib/voice';
-import {
-  fisherYatesShuffle as fisherYatesShuffleImpl,
-  type LoopMode,
-  toQueuedSong,
-} from '../shared';
-import { db, eq, findPlaylistWithSongs, tables } from '../shared/db';
-import { getHoshimi, getPlayer } from '../startDiscord';
-
-const { song: songTable } = tables;
+import { connectToVoiceChannel, requireUserInVoice, resolveOrAutoJoinPlayer } from '../lib/voice';
+import { MAX_MASTER_VOLUME, setMasterVolume } from '../lib/volume';
+import { type LoopMode, type QueueList, type QueueSaveResult, toQueuedSong } from '../shared';
+import { and, count, db, desc, eq, gte, lte, sql, tables } from '../shared/db';
+import { broadcastQueueUpdate, getHoshimi, getPlayer } from '../startDiscord';
+
+const {
+  song: songTable,
+  playHistory: playHistoryTable,
+  playlist: playlistTable,
+  playlistSong: playlistSongTable,
+} = tables;
 
 // ---------------------------------------------------------------------------
-// GET /api/player/queue — returns current queue state
+// GET /api/guilds/:guildId/player/queue — returns current queue state
 // ---------------------------------------------------------------------------
-function handleGetQueue(ctx: RouteContext): Response {
+function handleGetQueue(ctx: GuildRouteContext): Response {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
 
-  const hoshimi = getHoshimi();
-  const player = getPlayer(GUILD_ID);
-  const hoshimiPlayer = hoshimi?.players.get(GUILD_ID);
-
-  if (!player) {
-    return json({
-      isPlaying: false,
-      isPaused: false,
-      isConnectedToVoice: !!hoshimiPlayer?.connected,
-      loopMode: 'off',
-      isShuffled: false,
-      currentSong: null,
-      priorityQueue: [],
-      queue: [],
-      trackStartedAt: null,
-    });
-  }
-
-  return json(player.getQueueState());
+  return json(getGuildQueueState(ctx.guildId));
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/play — load songs and start playback
+// POST /api/guilds/:guildId/player/play — load songs and start playback
 // ---------------------------------------------------------------------------
-async function handlePlay(ctx: RouteContext, request: Request): Promise<Response> {
+async function handlePlay(ctx: GuildRouteContext, request: Request): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
-  let body: {
-    playlistId?: string;
-    mode?: 'sequential' | 'random';
-    loop?: LoopMode;
-    startFromSongId?: string;
-  };
+  let body: PlaybackRequest;
   try {
-    body = (await request.json()) as typeof body;
+    body = (await request.json()) as PlaybackRequest;
   } catch {
     return json({ error: 'Invalid JSON body.' }, 400);
   }
 
-  const { playlistId, mode, loop, startFromSongId } = body;
-
-  const playerResult = await resolveOrAutoJoinPlayer(ctx.user.discordId ?? '');
+  const playerResult = await resolveOrAutoJoinPlayer(ctx.guildId, ctx.user.discordId ?? '');
   if (!playerResult.ok) return playerResult.response;
   const player = playerResult.player;
 
-  let dbSongs: (typeof songTable.$inferSelect)[];
+  const result = await startLibraryPlayback(player, body, ctx.user.username, ctx.user);
+  if (!result.ok) return json({ error: result.error }, result.status);
 
-  if (playlistId) {
-    const playlist = await findPlaylistWithSongs(playlistId);
+  return json({ message: `Queued ${result.count} song(s).` });
+}
 
-    if (!playlist) {
-      return json({ error: 'Playlist not found.' }, 404);
-    }
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/skip — skip current song
+// ---------------------------------------------------------------------------
+async function handleSkip(ctx: GuildRouteContext): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
 
-    const accessResult = canAccessPlaylist(playlist, ctx.user, undefined);
-    if (!accessResult.ok) {
-      return json({ error: accessResult.error }, 403);
-    }
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
 
-    dbSongs = playlist.songs.map((ps) => ps.song);
-  } else {
-    dbSongs = await db.select().from(songTable).orderBy(songTable.createdAt);
+  const playingResult = requirePlaying(ctx.guildId);
+  if (!playingResult.ok) return playingResult.response;
+
+  await playingResult.player.skip();
+  return json({ message: 'Skipped.' });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/previous — replay the previous track, or
+// restart the current one if it is more than a few seconds in
+// ---------------------------------------------------------------------------
+async function handlePrevious(ctx: GuildRouteContext): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
 
-  if (dbSongs.length === 0) {
-    return json({ error: 'No songs found to play.' }, 422);
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
+
+  const playingResult = requirePlaying(ctx.guildId);
+  if (!playingResult.ok) return playingResult.response;
+
+  const result = await playingResult.player.previous();
+  return json({
+    message: result === 'restarted' ? 'Restarted the current track.' : 'Went back a track.',
+  });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/leave — stop and disconnect
+// ---------------------------------------------------------------------------
+async function handleLeave(ctx: GuildRouteContext): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
 
-  if (startFromSongId) {
-    const startIndex = dbSongs.findIndex((s) => s.id === startFromSongId);
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
 
-    if (startIndex === -1) {
-      return json({ error: 'Start song not found in playlist.' }, 404);
-    }
+  const player = getPlayer(ctx.guildId);
+  const hoshimi = getHoshimi();
+  const hoshimiPlayer = hoshimi?.players.get(ctx.guildId);
 
-    dbSongs = [...dbSongs.slice(startIndex), ...dbSongs.slice(0, startIndex)];
+  if (!player && !hoshimiPlayer) {
+    return json({ error: 'The bot is not in a voice channel.' }, 409);
   }
 
-  if (mode === 'random') {
-    fisherYatesShuffleImpl(dbSongs);
+  if (player) player.stop({ fadeOut: true });
+
+  return json({ message: 'Left the voice channel.' });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/sleep-timer — stop or leave after a while
+//
+// Body: { minutes } for a countdown of playing time, or { at } (ISO 8601) for
+// a clock time, plus optional action ('stop' or 'leave', default 'stop') and
+// fadeOut (defaults to true for a clock time, false for a countdown).
+// ---------------------------------------------------------------------------
+const MAX_SLEEP_MINUTES = 24 * 60;
+
+async function handleSetSleepTimer(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
 
-  const targetLoopMode = loop ?? player.getLoopMode();
-  player.setLoopMode(targetLoopMode);
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
 
-  const requestedBy = ctx.user.username;
-  const queuedSongs = dbSongs.map((song) =>
-    toQueuedSong({ ...song, createdAt: song.createdAt.toISOString() }, requestedBy)
-  );
+  let body: { minutes?: unknown; at?: unknown; action?: unknown; fadeOut?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const { minutes, at, action = 'stop', fadeOut } = body;
+  if (action !== 'stop' && action !== 'leave') {
+    return json({ error: 'action must be "stop" or "leave".' }, 400);
+  }
+  if (fadeOut !== undefined && typeof fadeOut !== 'boolean') {
+    return json({ error: 'fadeOut must be a boolean.' }, 400);
+  }
+  if ((minutes === undefined) === (at === undefined)) {
+    return json({ error: 'Provide either minutes or at.' }, 400);
+  }
 
-  if (startFromSongId) {
-    await player.replaceQueueAndPlay(queuedSongs);
+  let when: { afterMs: number } | { at: number };
+  if (minutes !== undefined) {
+    if (
+      typeof minutes !== 'number' ||
+      !Number.isInteger(minutes) ||
+      minutes < 1 ||
+      minutes > MAX_SLEEP_MINUTES
+    ) {
+      return json({ error: `minutes must be an integer from 1 to ${MAX_SLEEP_MINUTES}.` }, 400);
+    }
+    when = { afterMs: minutes * 60_000 };
   } else {
-    await player.addToQueue(queuedSongs);
+    const time = typeof at === 'string' ? new Date(at).getTime() : Number.NaN;
+    if (Number.isNaN(time)) {
+      return json({ error: 'at must be an ISO 8601 date.' }, 400);
+    }
+    const now = Date.now();
+    if (time <= now || time > now + MAX_SLEEP_MINUTES * 60_000) {
+      return json({ error: 'at must be within the next 24 hours.' }, 400);
+    }
+    when = { at: time };
   }
 
-  return json({ message: `Queued ${queuedSongs.length} song(s).` });
+  const playingResult = requirePlaying(ctx.guildId);
+  if (!playingResult.ok) return playingResult.response;
+
+  playingResult.player.setSleepTimer(when, action, fadeOut ?? 'at' in when);
+  return json(playingResult.player.getQueueState());
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/skip — skip current song
+// DELETE /api/guilds/:guildId/player/sleep-timer — cancel the sleep timer
 // ---------------------------------------------------------------------------
-async function handleSkip(ctx: RouteContext): Promise<Response> {
+async function handleCancelSleepTimer(ctx: GuildRouteContext): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
-  const playingResult = requirePlaying();
-  if (!playingResult.ok) return playingResult.response;
+  const playerResult = requirePlayer(ctx.guildId);
+  if (!playerResult.ok) return playerResult.response;
 
-  await playingResult.player.skip();
-  return json({ message: 'Skipped.' });
+  playerResult.player.cancelSleepTimer();
+  return json(playerResult.player.getQueueState());
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/leave — stop and disconnect
+// POST /api/guilds/:guildId/player/stop-after — stop after N tracks, or { tracks: null } to cancel
 // ---------------------------------------------------------------------------
-async function handleLeave(ctx: RouteContext): Promise<Response> {
+const MAX_STOP_AFTER_TRACKS = 100;
+
+async function handleStopAfter(ctx: GuildRouteContext, request: Request): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
-  const player = getPlayer(GUILD_ID);
-  const hoshimi = getHoshimi();
-  const hoshimiPlayer = hoshimi?.players.get(GUILD_ID);
+  let body: { tracks?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
 
-  if (!player && !hoshimiPlayer) {
-    return json({ error: 'The bot is not in a voice channel.' }, 409);
+  const { tracks } = body;
+  if (
+    tracks !== null &&
+    (typeof tracks !== 'number' ||
+      !Number.isInteger(tracks) ||
+      tracks < 1 ||
+      tracks > MAX_STOP_AFTER_TRACKS)
+  ) {
+    return json(
+      { error: `tracks must be an integer from 1 to ${MAX_STOP_AFTER_TRACKS}, or null.` },
+      400
+    );
   }
 
-  if (player) player.stop();
+  const playingResult = requirePlaying(ctx.guildId);
+  if (!playingResult.ok) return playingResult.response;
 
-  return json({ message: 'Left the voice channel.' });
+  playingResult.player.setStopAfterTracks(tracks);
+  return json(playingResult.player.getQueueState());
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/loop — set loop mode
+// POST /api/guilds/:guildId/player/loop — set loop mode
 // ---------------------------------------------------------------------------
-async function handleLoop(ctx: RouteContext, request: Request): Promise<Response> {
+async function handleLoop(ctx: GuildRouteContext, request: Request): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
   let body: { mode?: LoopMode };
@@ -200,7 +280,7 @@ async function handleLoop(ctx: RouteContext, request: Request): Promise<Response
     return json({ error: 'mode must be "off", "song", or "queue".' }, 400);
   }
 
-  const playerResult = requirePlayer();
+  const playerResult = requirePlayer(ctx.guildId);
   if (!playerResult.ok) return playerResult.response;
 
   playerResult.player.setLoopMode(mode);
@@ -208,9 +288,69 @@ async function handleLoop(ctx: RouteContext, request: Request): Promise<Response
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/shuffle — shuffle queue (admin only)
+// POST /api/guilds/:guildId/player/autoplay — turn autoplay on or off
 // ---------------------------------------------------------------------------
-async function handleShuffle(ctx: RouteContext): Promise<Response> {
+async function handleAutoplay(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
+
+  let body: { enabled?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const { enabled } = body;
+  if (typeof enabled !== 'boolean') {
+    return json({ error: 'enabled must be a boolean.' }, 400);
+  }
+
+  const playerResult = requirePlayer(ctx.guildId);
+  if (!playerResult.ok) return playerResult.response;
+
+  playerResult.player.setAutoplay(enabled);
+  return json({ autoplay: enabled });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/fair-queue — turn fair queue on or off (admin only)
+// ---------------------------------------------------------------------------
+async function handleFairQueue(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  let body: { enabled?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const { enabled } = body;
+  if (typeof enabled !== 'boolean') {
+    return json({ error: 'enabled must be a boolean.' }, 400);
+  }
+
+  const playerResult = requirePlayer(ctx.guildId);
+  if (!playerResult.ok) return playerResult.response;
+
+  playerResult.player.setFairQueue(enabled);
+  return json({ fairQueue: enabled });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/smart-shuffle — turn smart shuffle on or off (admin only)
+// ---------------------------------------------------------------------------
+async function handleSmartShuffle(ctx: GuildRouteContext, request: Request): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
@@ -218,10 +358,72 @@ async function handleShuffle(ctx: RouteContext): Promise<Response> {
     return json({ error: 'Admin access required.' }, 403);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  let body: { enabled?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const { enabled } = body;
+  if (typeof enabled !== 'boolean') {
+    return json({ error: 'enabled must be a boolean.' }, 400);
+  }
+
+  const playerResult = requirePlayer(ctx.guildId);
+  if (!playerResult.ok) return playerResult.response;
+
+  playerResult.player.setSmartShuffle(enabled);
+  return json({ smartShuffle: enabled });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/volume — set the guild's master volume
+// ---------------------------------------------------------------------------
+async function handleVolume(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
-  const player = getPlayer(GUILD_ID);
+  let body: { volume?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const { volume } = body;
+  if (
+    typeof volume !== 'number' ||
+    !Number.isInteger(volume) ||
+    volume < 0 ||
+    volume > MAX_MASTER_VOLUME
+  ) {
+    return json({ error: `volume must be an integer from 0 to ${MAX_MASTER_VOLUME}.` }, 400);
+  }
+
+  await setMasterVolume(ctx.guildId, volume);
+  return json({ volume });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/shuffle — shuffle queue (admin only)
+// ---------------------------------------------------------------------------
+async function handleShuffle(ctx: GuildRouteContext): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
+
+  const player = getPlayer(ctx.guildId);
 
   if (!player || player.getQueue().length === 0) {
     return json({ error: 'No songs in the queue to shuffle.' }, 409);
@@ -232,9 +434,9 @@ async function handleShuffle(ctx: RouteContext): Promise<Response> {
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/unshuffle — restore original queue order (admin only)
+// POST /api/guilds/:guildId/player/unshuffle — restore original queue order (admin only)
 // ---------------------------------------------------------------------------
-async function handleUnshuffle(ctx: RouteContext): Promise<Response> {
+async function handleUnshuffle(ctx: GuildRouteContext): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
@@ -242,10 +444,10 @@ async function handleUnshuffle(ctx: RouteContext): Promise<Response> {
     return json({ error: 'Admin access required.' }, 403);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
-  const playerResult = requirePlayer();
+  const playerResult = requirePlayer(ctx.guildId);
   if (!playerResult.ok) return playerResult.response;
 
   playerResult.player.unshuffle();
@@ -253,9 +455,9 @@ async function handleUnshuffle(ctx: RouteContext): Promise<Response> {
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/quick-add — add YouTube URL to priority queue (admin only)
+// POST /api/guilds/:guildId/player/quick-add — add YouTube URL to priority queue (admin only)
 // ---------------------------------------------------------------------------
-async function handleQuickAdd(ctx: RouteContext, request: Request): Promise<Response> {
+async function handleQuickAdd(ctx: GuildRouteContext, request: Request): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
@@ -263,7 +465,7 @@ async function handleQuickAdd(ctx: RouteContext, request: Request): Promise<Resp
     return json({ error: 'Admin access required.' }, 403);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
   let body: { youtubeUrl?: unknown };
@@ -277,7 +479,7 @@ async function handleQuickAdd(ctx: RouteContext, request: Request): Promise<Resp
   if (!urlResult.ok) return urlResult.response;
   const url = urlResult.value;
 
-  const playerResult = await resolveOrAutoJoinPlayer(ctx.user.discordId ?? '');
+  const playerResult = await resolveOrAutoJoinPlayer(ctx.guildId, ctx.user.discordId ?? '');
   if (!playerResult.ok) return playerResult.response;
   const player = playerResult.player;
 
@@ -308,9 +510,9 @@ async function handleQuickAdd(ctx: RouteContext, request: Request): Promise<Resp
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/quick-add-playlist — add playlist to queue (admin only)
+// POST /api/guilds/:guildId/player/quick-add-playlist — add playlist to queue (admin only)
 // ---------------------------------------------------------------------------
-async function handleQuickAddPlaylist(ctx: RouteContext, request: Request): Promise<Response> {
+async function handleQuickAddPlaylist(ctx: GuildRouteContext, request: Request): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
@@ -318,7 +520,7 @@ async function handleQuickAddPlaylist(ctx: RouteContext, request: Request): Prom
     return json({ error: 'Admin access required.' }, 403);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
   let body: { youtubeUrl?: unknown; maxVideos?: number };
@@ -333,7 +535,7 @@ async function handleQuickAddPlaylist(ctx: RouteContext, request: Request): Prom
   if (!urlResult.ok) return urlResult.response;
   const url = urlResult.value;
 
-  const playerResult = await resolveOrAutoJoinPlayer(ctx.user.discordId ?? '');
+  const playerResult = await resolveOrAutoJoinPlayer(ctx.guildId, ctx.user.discordId ?? '');
   if (!playerResult.ok) return playerResult.response;
   const player = playerResult.player;
 
@@ -367,17 +569,17 @@ async function handleQuickAddPlaylist(ctx: RouteContext, request: Request): Prom
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/pause-toggle — pause/resume
+// POST /api/guilds/:guildId/player/pause-toggle — pause/resume
 // ---------------------------------------------------------------------------
-async function handlePauseToggle(ctx: RouteContext): Promise<Response> {
+async function handlePauseToggle(ctx: GuildRouteContext): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
-  const playingResult = requirePlaying();
+  const playingResult = requirePlaying(ctx.guildId);
   if (!playingResult.ok) return playingResult.response;
 
   const isPaused = playingResult.player.togglePause();
@@ -385,14 +587,14 @@ async function handlePauseToggle(ctx: RouteContext): Promise<Response> {
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/seek — seek to position in current track
+// POST /api/guilds/:guildId/player/seek — seek to position in current track
 // ---------------------------------------------------------------------------
-async function handleSeek(ctx: RouteContext, request: Request): Promise<Response> {
+async function handleSeek(ctx: GuildRouteContext, request: Request): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
   let body: { position?: unknown };
@@ -408,7 +610,7 @@ async function handleSeek(ctx: RouteContext, request: Request): Promise<Response
     return json({ error: 'position must be a non-negative number (milliseconds).' }, 400);
   }
 
-  const playingResult = requirePlaying();
+  const playingResult = requirePlaying(ctx.guildId);
   if (!playingResult.ok) return playingResult.response;
 
   await playingResult.player.seek(position);
@@ -416,9 +618,9 @@ async function handleSeek(ctx: RouteContext, request: Request): Promise<Response
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/clear — clear queue (admin only)
+// POST /api/guilds/:guildId/player/clear — clear queue (admin only)
 // ---------------------------------------------------------------------------
-async function handleClear(ctx: RouteContext): Promise<Response> {
+async function handleClear(ctx: GuildRouteContext): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
@@ -426,10 +628,10 @@ async function handleClear(ctx: RouteContext): Promise<Response> {
     return json({ error: 'Admin access required.' }, 403);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
-  const playerResult = requirePlayer();
+  const playerResult = requirePlayer(ctx.guildId);
   if (!playerResult.ok) return playerResult.response;
 
   playerResult.player.clearQueue();
@@ -437,9 +639,274 @@ async function handleClear(ctx: RouteContext): Promise<Response> {
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/add-to-priority — add library song to Up Next (admin only)
+// POST /api/guilds/:guildId/player/undo — bring back the queue as it was
+// before the last clear, override or play-from-song
 // ---------------------------------------------------------------------------
-async function handleAddToPriority(ctx: RouteContext, request: Request): Promise<Response> {
+async function handleUndo(ctx: GuildRouteContext): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
+
+  const playerResult = requirePlayer(ctx.guildId);
+  if (!playerResult.ok) return playerResult.response;
+
+  if (!(await playerResult.player.undo())) {
+    return json({ error: 'Nothing to undo.' }, 409);
+  }
+  return json({ message: 'Queue restored.' });
+}
+
+// ---------------------------------------------------------------------------
+// Queue editing (admin only)
+//
+// Entries are addressed by list ('queue' or 'priority') and their index in
+// that list as QueueState shows it. Remove and move also take the entry's
+// songId, so an edit made against a stale view is refused rather than
+// applied to whatever has moved into that slot.
+// ---------------------------------------------------------------------------
+
+function isQueueList(value: unknown): value is QueueList {
+  return value === 'queue' || value === 'priority';
+}
+
+function isIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function queueChanged(): Response {
+  return json({ error: 'The queue has changed. Refresh and try again.' }, 409);
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/queue/remove — remove one queue entry (admin only)
+// ---------------------------------------------------------------------------
+async function handleQueueRemove(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
+
+  let body: { list?: unknown; index?: unknown; songId?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const { list, index, songId } = body;
+  if (!isQueueList(list)) {
+    return json({ error: 'list must be "queue" or "priority".' }, 400);
+  }
+  if (!isIndex(index)) {
+    return json({ error: 'index must be a non-negative integer.' }, 400);
+  }
+  if (!songId || typeof songId !== 'string') {
+    return json({ error: 'songId is required.' }, 400);
+  }
+
+  const playerResult = requirePlayer(ctx.guildId);
+  if (!playerResult.ok) return playerResult.response;
+  const player = playerResult.player;
+
+  if (player.getQueueEntry(list, index)?.id !== songId) return queueChanged();
+  player.removeQueueEntry(list, index);
+  return json(player.getQueueState());
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/queue/move — move a queue entry within its list (admin only)
+// ---------------------------------------------------------------------------
+async function handleQueueMove(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
+
+  let body: { list?: unknown; from?: unknown; to?: unknown; songId?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const { list, from, to, songId } = body;
+  if (!isQueueList(list)) {
+    return json({ error: 'list must be "queue" or "priority".' }, 400);
+  }
+  if (!isIndex(from) || !isIndex(to)) {
+    return json({ error: 'from and to must be non-negative integers.' }, 400);
+  }
+  if (!songId || typeof songId !== 'string') {
+    return json({ error: 'songId is required.' }, 400);
+  }
+
+  const playerResult = requirePlayer(ctx.guildId);
+  if (!playerResult.ok) return playerResult.response;
+  const player = playerResult.player;
+
+  if (player.getQueueEntry(list, from)?.id !== songId) return queueChanged();
+  if (!player.moveQueueEntry(list, from, to)) {
+    return json({ error: 'to is past the end of the list.' }, 400);
+  }
+  return json(player.getQueueState());
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/queue/insert — insert a library song at a position (admin only)
+// ---------------------------------------------------------------------------
+async function handleQueueInsert(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
+
+  let body: { list?: unknown; index?: unknown; songId?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const { list, index, songId } = body;
+  if (!isQueueList(list)) {
+    return json({ error: 'list must be "queue" or "priority".' }, 400);
+  }
+  if (!isIndex(index)) {
+    return json({ error: 'index must be a non-negative integer.' }, 400);
+  }
+  if (!songId || typeof songId !== 'string') {
+    return json({ error: 'songId is required.' }, 400);
+  }
+
+  const [song] = await db.select().from(songTable).where(eq(songTable.id, songId)).limit(1);
+
+  if (!song) {
+    return json({ error: 'Song not found.' }, 404);
+  }
+
+  const playerResult = await resolveOrAutoJoinPlayer(ctx.guildId, ctx.user.discordId ?? '');
+  if (!playerResult.ok) return playerResult.response;
+  const player = playerResult.player;
+
+  const queuedSong = toQueuedSong(formatSong(song), ctx.user.username);
+
+  await player.insertQueueEntry(list, index, queuedSong);
+
+  return json({
+    message: `Inserted "${song.nickname || song.title}" at position ${index + 1}.`,
+    song: queuedSong,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/queue/save — save the queue as a playlist
+//
+// Body: { name } for a new playlist, or { playlistId } to append to one the
+// user may edit; { includeHistory: true } puts the songs already played
+// first. Saves the current song, then Up Next, then the rest of the queue in
+// its current order. Songs not in the library are skipped. A playlist holds
+// each song once: with { dedupe: true } (the default) songs it already has
+// are skipped; with { dedupe: false } they move down to their place in the
+// queue's order.
+// ---------------------------------------------------------------------------
+async function handleQueueSave(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+
+  let body: { name?: unknown; playlistId?: unknown; includeHistory?: unknown; dedupe?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const playerResult = requirePlayer(ctx.guildId);
+  if (!playerResult.ok) return playerResult.response;
+  const player = playerResult.player;
+
+  const current = player.getCurrentSong();
+  const songs = [
+    ...(body.includeHistory === true ? player.getPlayedSongs() : []),
+    ...(current ? [current] : []),
+    ...getGuildQueueState(ctx.guildId).priorityQueue,
+    ...player.getUpcomingSongs(),
+  ];
+  if (songs.length === 0) {
+    return json({ error: 'There is nothing in the queue to save.' }, 400);
+  }
+  const songIds = await librarySongIds(songs);
+
+  let playlist: typeof playlistTable.$inferSelect;
+  let created = false;
+  if (typeof body.playlistId === 'string') {
+    const [existing] = await db
+      .select()
+      .from(playlistTable)
+      .where(eq(playlistTable.id, body.playlistId))
+      .limit(1);
+    if (!existing) {
+      return json({ error: 'Playlist not found.' }, 404);
+    }
+    if (!canAccessPlaylist(existing, ctx.user, undefined).ok) {
+      return json(
+        { error: 'Only the playlist owner or admins can add songs to this playlist.' },
+        403
+      );
+    }
+    playlist = existing;
+  } else {
+    const nameResult = validatePlaylistName(body.name);
+    if (!nameResult.ok) return nameResult.response;
+    [playlist] = await db
+      .insert(playlistTable)
+      .values({ name: nameResult.value, createdBy: ctx.user.discordId ?? '' })
+      .returning();
+    created = true;
+  }
+
+  const { added, moved } = appendToPlaylist(playlist.id, songIds, {
+    moveExisting: body.dedupe === false,
+  });
+
+  const [{ value }] = await db
+    .select({ value: count() })
+    .from(playlistSongTable)
+    .where(eq(playlistSongTable.playlistId, playlist.id));
+  const formatted = formatPlaylist(playlist, value);
+  emitPlaylistUpdated(formatted);
+
+  const result: QueueSaveResult = {
+    playlist: formatted,
+    added,
+    moved,
+    skipped: songs.length - added - moved,
+  };
+  return json(result, created ? 201 : 200);
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/add-to-priority — add library song to Up Next (admin only)
+// ---------------------------------------------------------------------------
+async function handleAddToPriority(ctx: GuildRouteContext, request: Request): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
@@ -447,7 +914,7 @@ async function handleAddToPriority(ctx: RouteContext, request: Request): Promise
     return json({ error: 'Admin access required.' }, 403);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
   let body: { songId?: unknown };
@@ -469,15 +936,12 @@ async function handleAddToPriority(ctx: RouteContext, request: Request): Promise
     return json({ error: 'Song not found.' }, 404);
   }
 
-  const playerResult = await resolveOrAutoJoinPlayer(ctx.user.discordId ?? '');
+  const playerResult = await resolveOrAutoJoinPlayer(ctx.guildId, ctx.user.discordId ?? '');
   if (!playerResult.ok) return playerResult.response;
   const player = playerResult.player;
 
   const requestedBy = ctx.user.username;
-  const queuedSong = toQueuedSong(
-    { ...song, createdAt: song.createdAt.toISOString() },
-    requestedBy
-  );
+  const queuedSong = toQueuedSong(formatSong(song), requestedBy);
 
   await player.addToPriorityQueue(queuedSong);
 
@@ -488,9 +952,9 @@ async function handleAddToPriority(ctx: RouteContext, request: Request): Promise
 }
 
 // ---------------------------------------------------------------------------
-// POST /api/player/override — immediately play YouTube URL (admin only)
+// POST /api/guilds/:guildId/player/override — immediately play YouTube URL (admin only)
 // ---------------------------------------------------------------------------
-async function handleOverride(ctx: RouteContext, request: Request): Promise<Response> {
+async function handleOverride(ctx: GuildRouteContext, request: Request): Promise<Response> {
   if (!ctx.user) {
     return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
   }
@@ -498,7 +962,7 @@ async function handleOverride(ctx: RouteContext, request: Request): Promise<Resp
     return json({ error: 'Admin access required.' }, 403);
   }
 
-  const inVoice = await requireUserInVoice(ctx.user.discordId ?? '');
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
   if (inVoice instanceof Response) return inVoice;
 
   let body: { youtubeUrl?: unknown };
@@ -512,7 +976,7 @@ async function handleOverride(ctx: RouteContext, request: Request): Promise<Resp
   if (!urlResult.ok) return urlResult.response;
   const url = urlResult.value;
 
-  const playerResult = await resolveOrAutoJoinPlayer(ctx.user.discordId ?? '');
+  const playerResult = await resolveOrAutoJoinPlayer(ctx.guildId, ctx.user.discordId ?? '');
   if (!playerResult.ok) return playerResult.response;
   const player = playerResult.player;
 
@@ -542,22 +1006,168 @@ async function handleOverride(ctx: RouteContext, request: Request): Promise<Resp
   });
 }
 
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/restore — restore the session saved before
+// the last restart. mode 'resume' picks up where it left off; 'paused' loads
+// the queue with the current track paused at its saved position.
+// ---------------------------------------------------------------------------
+async function handleRestoreSession(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+
+  const inVoice = await requireUserInVoice(ctx.guildId, ctx.user.discordId ?? '');
+  if (inVoice instanceof Response) return inVoice;
+
+  let body: { mode?: 'resume' | 'paused' };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const { mode } = body;
+  if (mode !== 'resume' && mode !== 'paused') {
+    return json({ error: "mode must be 'resume' or 'paused'." }, 400);
+  }
+
+  const saved = peekSavedSession(ctx.guildId);
+  if (!saved) {
+    return json({ error: 'There is no saved session to restore.' }, 404);
+  }
+
+  if (getPlayer(ctx.guildId)?.getCurrentSong()) {
+    return json({ error: 'Something is already playing.' }, 409);
+  }
+
+  // The bot rejoins the channel it was in, not necessarily the caller's.
+  let player: Awaited<ReturnType<typeof connectToVoiceChannel>>;
+  try {
+    player = await connectToVoiceChannel(ctx.guildId, saved.voiceId);
+  } catch (error) {
+    logger.error({ err: error as Error }, 'Failed to rejoin the saved voice channel');
+    return json({ error: 'Could not reconnect to the saved voice channel.' }, 503);
+  }
+
+  takeSavedSession(ctx.guildId);
+  await player.restore(saved.snapshot, mode === 'paused');
+
+  return json({ message: 'Restored the previous session.' });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/player/dismiss-session — discard the saved session (admin only)
+// ---------------------------------------------------------------------------
+async function handleDismissSession(ctx: GuildRouteContext): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  if (!(await dismissSavedSession(ctx.guildId))) {
+    return json({ error: 'There is no saved session to dismiss.' }, 404);
+  }
+
+  broadcastQueueUpdate(ctx.guildId, getGuildQueueState(ctx.guildId));
+  return json({ message: 'Saved session dismissed.' });
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/guilds/:guildId/player/history — recently played tracks, newest
+// first. Paginated like GET /api/songs; optional `from`/`to` (ISO 8601)
+// limit the range of start times, both inclusive.
+// ---------------------------------------------------------------------------
+async function handleGetHistory(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+
+  const url = new URL(request.url);
+  const page = Math.max(1, parseInt(url.searchParams.get('page') ?? '1', 10) || 1);
+  const limit = Math.min(
+    100,
+    Math.max(1, parseInt(url.searchParams.get('limit') ?? '30', 10) || 30)
+  );
+  const skip = (page - 1) * limit;
+
+  const range: { from?: Date; to?: Date } = {};
+  for (const param of ['from', 'to'] as const) {
+    const value = url.searchParams.get(param);
+    if (!value) continue;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return json({ error: `${param} must be an ISO 8601 date.` }, 400);
+    }
+    range[param] = date;
+  }
+
+  const where = and(
+    eq(playHistoryTable.guildId, ctx.guildId),
+    range.from && gte(playHistoryTable.startedAt, range.from),
+    range.to && lte(playHistoryTable.startedAt, range.to)
+  );
+
+  const [rows, [{ count }]] = await Promise.all([
+    db
+      .select()
+      .from(playHistoryTable)
+      .where(where)
+      .orderBy(desc(playHistoryTable.startedAt))
+      .offset(skip)
+      .limit(limit),
+    db.select({ count: sql<number>`count(*)` }).from(playHistoryTable).where(where),
+  ]);
+  const total = parseInt(String(count), 10);
+
+  return json({
+    items: rows.map(formatPlayHistoryEntry),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Dispatcher
 // ---------------------------------------------------------------------------
 
-export async function handlePlayer(ctx: RouteContext, request: Request): Promise<Response> {
+export async function handlePlayer(ctx: GuildRouteContext, request: Request): Promise<Response> {
   const url = new URL(request.url);
   const pathname = url.pathname;
 
-  // Strip /api/player prefix
-  const path = pathname.slice('/api/player'.length);
+  // Strip /api/guilds/:guildId/player prefix
+  const path = pathname.slice(`/api/guilds/${ctx.guildId}/player`.length);
 
   if (path === '/queue' && request.method === 'GET') return await handleGetQueue(ctx);
+  if (path === '/history' && request.method === 'GET') return await handleGetHistory(ctx, request);
   if (path === '/play' && request.method === 'POST') return await handlePlay(ctx, request);
   if (path === '/skip' && request.method === 'POST') return await handleSkip(ctx);
+  if (path === '/previous' && request.method === 'POST') return await handlePrevious(ctx);
+  if (path === '/undo' && request.method === 'POST') return await handleUndo(ctx);
   if (path === '/leave' && request.method === 'POST') return await handleLeave(ctx);
   if (path === '/loop' && request.method === 'POST') return await handleLoop(ctx, request);
+  if (path === '/autoplay' && request.method === 'POST') return await handleAutoplay(ctx, request);
+  if (path === '/sleep-timer' && request.method === 'POST') {
+    return await handleSetSleepTimer(ctx, request);
+  }
+  if (path === '/sleep-timer' && request.method === 'DELETE') {
+    return await handleCancelSleepTimer(ctx);
+  }
+  if (path === '/stop-after' && request.method === 'POST') {
+    return await handleStopAfter(ctx, request);
+  }
+  if (path === '/fair-queue' && request.method === 'POST') {
+    return await handleFairQueue(ctx, request);
+  }
+  if (path === '/smart-shuffle' && request.method === 'POST') {
+    return await handleSmartShuffle(ctx, request);
+  }
+  if (path === '/volume' && request.method === 'POST') return await handleVolume(ctx, request);
   if (path === '/shuffle' && request.method === 'POST') return await handleShuffle(ctx);
   if (path === '/unshuffle' && request.method === 'POST') return await handleUnshuffle(ctx);
   if (path === '/quick-add' && request.method === 'POST') return await handleQuickAdd(ctx, request);
@@ -566,9 +1176,21 @@ export async function handlePlayer(ctx: RouteContext, request: Request): Promise
   if (path === '/pause-toggle' && request.method === 'POST') return await handlePauseToggle(ctx);
   if (path === '/seek' && request.method === 'POST') return await handleSeek(ctx, request);
   if (path === '/clear' && request.method === 'POST') return await handleClear(ctx);
+  if (path === '/queue/remove' && request.method === 'POST')
+    return await handleQueueRemove(ctx, request);
+  if (path === '/queue/move' && request.method === 'POST')
+    return await handleQueueMove(ctx, request);
+  if (path === '/queue/insert' && request.method === 'POST')
+    return await handleQueueInsert(ctx, request);
+  if (path === '/queue/save' && request.method === 'POST')
+    return await handleQueueSave(ctx, request);
   if (path === '/add-to-priority' && request.method === 'POST')
     return await handleAddToPriority(ctx, request);
   if (path === '/override' && request.method === 'POST') return await handleOverride(ctx, request);
+  if (path === '/restore' && request.method === 'POST')
+    return await handleRestoreSession(ctx, request);
+  if (path === '/dismiss-session' && request.method === 'POST')
+    return await handleDismissSession(ctx);
 
   return json({ error: 'Not Found' }, 404);
 }
@@ -1,10 +1,12 @@
 import { and, count, desc, eq, inArray, sql } from 'drizzle-orm';
 import type { RouteContext } from '../index';
+import { reapplyTrackFilters } from '../lib/audioFilters';
 import { getUserDisplayName } from '../lib/displayName';
 import { json } from '../lib/json';
 import { canAccessPlaylist } from '../lib/playlistAccess';
+import { formatPlaylist } from '../lib/serialization';
 import { emitPlaylistUpdated } from '../lib/socket';
-import { validatePlaylistName } from '../lib/validation';
+import { validateAudioPresetId, validatePlaylistName } from '../lib/validation';
 import { $client, db, tables } from '../shared/db';
 
 const { playlist: playlistTable, playlistSong: playlistSongTable } = tables;
@@ -22,6 +24,7 @@ type PlaylistRow = {
   name: string;
   createdBy: string;
   isPrivate: boolean;
+  audioPresetId: string | null;
   createdAt: Date;
   _count?: { songs: number };
 };
@@ -33,6 +36,7 @@ async function findPlaylistOr404(id: string, withCount = false): Promise<Playlis
       name: playlistTable.name,
       createdBy: playlistTable.createdBy,
       isPrivate: playlistTable.isPrivate,
+      audioPresetId: playlistTable.audioPresetId,
       createdAt: playlistTable.createdAt,
     })
     .from(playlistTable)
@@ -46,14 +50,6 @@ async function findPlaylistOr404(id: string, withCount = false): Promise<Playlis
   return row;
 }
 
-function formatPlaylist(pl: typeof playlistTable.$inferSelect, songCount?: number) {
-  return {
-    ...pl,
-    createdAt: pl.createdAt.toISOString(),
-    ...(songCount !== undefined && { _count: { songs: songCount } }),
-  };
-}
-
 function formatPlaylistSongWithSong(
   ps: typeof playlistSongTable.$inferSelect,
   song: typeof tables.song.$inferSelect,
@@ -316,6 +312,49 @@ async function handlePatchVisibility(
   return json(updatedPlaylist);
 }
 
+// ---------------------------------------------------------------------------
+// PATCH /api/playlists/:id/audio-preset — set the playlist's audio preset (admin only)
+// ---------------------------------------------------------------------------
+async function handlePatchAudioPreset(
+  ctx: RouteContext,
+  request: Request,
+  id: string
+): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  let body: { audioPresetId?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const presetResult = await validateAudioPresetId(body.audioPresetId, ctx.user);
+  if (!presetResult.ok) return presetResult.response;
+
+  const existing = await findPlaylistOr404(id);
+  if (!existing) {
+    return json({ error: 'Playlist not found.' }, 404);
+  }
+
+  const [updatedPlaylist] = await db
+    .update(playlistTable)
+    .set({ audioPresetId: presetResult.value })
+    .where(eq(playlistTable.id, id))
+    .returning();
+
+  const value = await getPlaylistSongCount(updatedPlaylist.id);
+
+  emitPlaylistUpdated(formatPlaylist(updatedPlaylist, value));
+  await reapplyTrackFilters((song) => song.playlistId === id);
+  return json(updatedPlaylist);
+}
+
 // ---------------------------------------------------------------------------
 // PATCH /api/playlists/:id — rename a playlist
 // ---------------------------------------------------------------------------
@@ -572,6 +611,12 @@ export async function handlePlaylists(ctx: RouteContext, request: Request): Prom
     return await handlePatchVisibility(ctx, request, visibilityMatch[1]);
   }
 
+  // /api/playlists/:id/audio-preset PATCH
+  const audioPresetMatch = path.match(/^\/([^/]+)\/audio-preset$/);
+  if (audioPresetMatch && request.method === 'PATCH') {
+    return await handlePatchAudioPreset(ctx, request, audioPresetMatch[1]);
+  }
+
   // /api/playlists/:id GET, PATCH, DELETE
   const idMatch = path.match(/^\/([^/]+)$/);
   if (idMatch) {
@@ -0,0 +1,161 @@
+import type { GuildRouteContext } from '../index';
+import {
+  applyGuildFilters,
+  findAudioPreset,
+  formatAudioPreset,
+  readGuildAudioProfile,
+  writeGuildAudioProfile,
+} from '../lib/audioFilters';
+import { json } from '../lib/json';
+import { validatePresetName } from '../lib/validation';
+import { BUILT_IN_PRESETS } from '../shared';
+import { and, asc, db, eq, sql, tables } from '../shared/db';
+
+const { audioPreset: presetTable } = tables;
+
+/** Whether a saved or built-in preset already uses this name (case-insensitive). */
+async function isNameTaken(guildId: string, name: string, exceptId?: string): Promise<boolean> {
+  const lower = name.toLowerCase();
+  if (BUILT_IN_PRESETS.some((preset) => preset.name.toLowerCase() === lower)) return true;
+
+  const row = await db
+    .select({ id: presetTable.id })
+    .from(presetTable)
+    .where(and(eq(presetTable.guildId, guildId), eq(sql`lower(${presetTable.name})`, lower)))
+    .get();
+  return !!row && row.id !== exceptId;
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/guilds/:guildId/settings/presets — built-in and saved presets (admin only)
+// ---------------------------------------------------------------------------
+async function handleListPresets(ctx: GuildRouteContext): Promise<Response> {
+  const rows = await db
+    .select()
+    .from(presetTable)
+    .where(eq(presetTable.guildId, ctx.guildId))
+    .orderBy(asc(sql`lower(${presetTable.name})`));
+
+  return json([...BUILT_IN_PRESETS, ...rows.map(formatAudioPreset)]);
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/settings/presets — save the current audio settings (admin only)
+// ---------------------------------------------------------------------------
+async function handleCreatePreset(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  let body: { name?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const nameResult = validatePresetName(body.name);
+  if (!nameResult.ok) return nameResult.response;
+  if (await isNameTaken(ctx.guildId, nameResult.value)) {
+    return json({ error: 'A preset with that name already exists.' }, 409);
+  }
+
+  const row = await db
+    .insert(presetTable)
+    .values({
+      guildId: ctx.guildId,
+      name: nameResult.value,
+      profile: await readGuildAudioProfile(ctx.guildId),
+      createdBy: ctx.user?.discordId ?? '',
+    })
+    .returning()
+    .get();
+
+  return json(formatAudioPreset(row), 201);
+}
+
+// ---------------------------------------------------------------------------
+// PATCH /api/guilds/:guildId/settings/presets/:id — rename a saved preset (admin only)
+// ---------------------------------------------------------------------------
+async function handleRenamePreset(
+  ctx: GuildRouteContext,
+  request: Request,
+  id: string
+): Promise<Response> {
+  let body: { name?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const preset = await findAudioPreset(ctx.guildId, id);
+  if (!preset) return json({ error: 'Preset not found.' }, 404);
+  if (preset.builtIn) return json({ error: 'Built-in presets cannot be renamed.' }, 403);
+
+  const nameResult = validatePresetName(body.name);
+  if (!nameResult.ok) return nameResult.response;
+  if (await isNameTaken(ctx.guildId, nameResult.value, id)) {
+    return json({ error: 'A preset with that name already exists.' }, 409);
+  }
+
+  const row = await db
+    .update(presetTable)
+    .set({ name: nameResult.value })
+    .where(eq(presetTable.id, id))
+    .returning()
+    .get();
+
+  return json(formatAudioPreset(row));
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/guilds/:guildId/settings/presets/:id — delete a saved preset (admin only)
+// ---------------------------------------------------------------------------
+async function handleDeletePreset(ctx: GuildRouteContext, id: string): Promise<Response> {
+  const preset = await findAudioPreset(ctx.guildId, id);
+  if (!preset) return json({ error: 'Preset not found.' }, 404);
+  if (preset.builtIn) return json({ error: 'Built-in presets cannot be deleted.' }, 403);
+
+  await db.delete(presetTable).where(eq(presetTable.id, id)).run();
+  // The track playing may have been using it.
+  await applyGuildFilters(ctx.guildId);
+
+  return new Response(null, { status: 204 });
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/settings/presets/:id/apply — load a preset into the
+// guild's audio settings and the live player (admin only)
+// ---------------------------------------------------------------------------
+async function handleApplyPreset(ctx: GuildRouteContext, id: string): Promise<Response> {
+  const preset = await findAudioPreset(ctx.guildId, id);
+  if (!preset) return json({ error: 'Preset not found.' }, 404);
+
+  await writeGuildAudioProfile(ctx.guildId, preset.profile);
+
+  return json(preset.profile);
+}
+
+export async function handlePresets(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) return json({ error: 'Admin access required.' }, 403);
+
+  const url = new URL(request.url);
+
+  // Strip /api/guilds/:guildId/settings/presets prefix
+  const path = url.pathname.slice(`/api/guilds/${ctx.guildId}/settings/presets`.length);
+
+  if (path === '' && request.method === 'GET') return await handleListPresets(ctx);
+  if (path === '' && request.method === 'POST') return await handleCreatePreset(ctx, request);
+
+  const applyMatch = path.match(/^\/([^/]+)\/apply$/);
+  if (applyMatch && request.method === 'POST')
+    return await handleApplyPreset(ctx, decodeURIComponent(applyMatch[1]));
+
+  const idMatch = path.match(/^\/([^/]+)$/);
+  if (idMatch && request.method === 'PATCH')
+    return await handleRenamePreset(ctx, request, decodeURIComponent(idMatch[1]));
+  if (idMatch && request.method === 'DELETE')
+    return await handleDeletePreset(ctx, decodeURIComponent(idMatch[1]));
+
+  return json({ error: 'Not Found' }, 404);
+}
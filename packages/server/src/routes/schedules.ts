@@ -0,0 +1,213 @@
+import type { GuildRouteContext } from '../index';
+import { logger } from '../lib/config';
+import { json } from '../lib/json';
+import { canAccessPlaylist } from '../lib/playlistAccess';
+import { isValidTimeZone } from '../lib/scheduler';
+import { listVoiceChannels } from '../lib/voice';
+import type { LoopMode, PlaybackSchedule } from '../shared';
+import { and, asc, db, eq, tables } from '../shared/db';
+
+const { playbackSchedule: scheduleTable, playlist: playlistTable } = tables;
+
+const MODES = ['sequential', 'random'] as const;
+const LOOP_MODES: LoopMode[] = ['off', 'song', 'queue'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+interface CreateSchedulePayload {
+  voiceChannelId: string;
+  playlistId: string;
+  mode: 'sequential' | 'random';
+  loopMode: LoopMode;
+  days: number[];
+  time: string;
+  timeZone: string;
+}
+
+function formatSchedule(
+  row: typeof scheduleTable.$inferSelect,
+  playlistName: string | null
+): PlaybackSchedule {
+  return {
+    id: row.id,
+    voiceChannelId: row.voiceChannelId,
+    playlistId: row.playlistId,
+    playlistName,
+    mode: row.mode,
+    loopMode: row.loopMode,
+    days: row.days,
+    time: row.time,
+    timeZone: row.timeZone,
+    enabled: row.enabled,
+    lastRunAt: row.lastRunAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function isDayList(days: unknown): days is number[] {
+  return (
+    Array.isArray(days) &&
+    days.length > 0 &&
+    days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6) &&
+    new Set(days).size === days.length
+  );
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/guilds/:guildId/settings/schedules — list the guild's schedules (admin only)
+// ---------------------------------------------------------------------------
+async function handleListSchedules(ctx: GuildRouteContext): Promise<Response> {
+  const rows = await db
+    .select({ schedule: scheduleTable, playlistName: playlistTable.name })
+    .from(scheduleTable)
+    .leftJoin(playlistTable, eq(playlistTable.id, scheduleTable.playlistId))
+    .where(eq(scheduleTable.guildId, ctx.guildId))
+    .orderBy(asc(scheduleTable.createdAt));
+
+  return json(rows.map((row) => formatSchedule(row.schedule, row.playlistName)));
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/guilds/:guildId/settings/schedules/voice-channels — channels a schedule can join (admin only)
+// ---------------------------------------------------------------------------
+async function handleListVoiceChannels(ctx: GuildRouteContext): Promise<Response> {
+  try {
+    return json(await listVoiceChannels(ctx.guildId));
+  } catch (error) {
+    logger.error({ err: error as Error }, 'Failed to list voice channels');
+    return json({ error: 'Could not load voice channels.' }, 503);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/guilds/:guildId/settings/schedules — create a schedule (admin only)
+// ---------------------------------------------------------------------------
+async function handleCreateSchedule(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  let body: CreateSchedulePayload;
+  try {
+    body = (await request.json()) as CreateSchedulePayload;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const { voiceChannelId, playlistId, mode, loopMode, days, time, timeZone } = body;
+
+  if (!MODES.includes(mode)) return json({ error: 'mode must be sequential or random' }, 400);
+  if (!LOOP_MODES.includes(loopMode))
+    return json({ error: 'loopMode must be off, song or queue' }, 400);
+  if (!isDayList(days))
+    return json({ error: 'days must be a non-empty list of weekdays 0 to 6' }, 400);
+  if (typeof time !== 'string' || !TIME_PATTERN.test(time))
+    return json({ error: 'time must be HH:MM (24-hour)' }, 400);
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))
+    return json({ error: 'timeZone must be an IANA time zone' }, 400);
+
+  const playlist =
+    typeof playlistId === 'string'
+      ? await db.select().from(playlistTable).where(eq(playlistTable.id, playlistId)).get()
+      : undefined;
+  if (!playlist) return json({ error: 'Playlist not found.' }, 404);
+
+  const accessResult = canAccessPlaylist(playlist, ctx.user ?? undefined, undefined);
+  if (!accessResult.ok) return json({ error: accessResult.error }, 403);
+
+  let channelIds: string[];
+  try {
+    channelIds = (await listVoiceChannels(ctx.guildId)).map((channel) => channel.id);
+  } catch (error) {
+    logger.error({ err: error as Error }, 'Failed to list voice channels');
+    return json({ error: 'Could not verify the voice channel.' }, 503);
+  }
+  if (!channelIds.includes(voiceChannelId)) {
+    return json({ error: 'Voice channel not found in this server.' }, 404);
+  }
+
+  const row = await db
+    .insert(scheduleTable)
+    .values({
+      guildId: ctx.guildId,
+      voiceChannelId,
+      playlistId,
+      mode,
+      loopMode,
+      days: [...days].sort((a, b) => a - b),
+      time,
+      timeZone,
+      createdBy: ctx.user?.discordId ?? '',
+    })
+    .returning()
+    .get();
+
+  return json(formatSchedule(row, playlist.name), 201);
+}
+
+// ---------------------------------------------------------------------------
+// PATCH /api/guilds/:guildId/settings/schedules/:id — pause or resume a schedule (admin only)
+// ---------------------------------------------------------------------------
+async function handleUpdateSchedule(
+  ctx: GuildRouteContext,
+  request: Request,
+  id: string
+): Promise<Response> {
+  let body: { enabled?: boolean };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  if (typeof body.enabled !== 'boolean') return json({ error: 'enabled must be boolean' }, 400);
+
+  const row = await db
+    .update(scheduleTable)
+    .set({ enabled: body.enabled })
+    .where(and(eq(scheduleTable.id, id), eq(scheduleTable.guildId, ctx.guildId)))
+    .returning()
+    .get();
+  if (!row) return json({ error: 'Schedule not found.' }, 404);
+
+  const playlist = await db
+    .select({ name: playlistTable.name })
+    .from(playlistTable)
+    .where(eq(playlistTable.id, row.playlistId))
+    .get();
+
+  return json(formatSchedule(row, playlist?.name ?? null));
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/guilds/:guildId/settings/schedules/:id — delete a schedule (admin only)
+// ---------------------------------------------------------------------------
+async function handleDeleteSchedule(ctx: GuildRouteContext, id: string): Promise<Response> {
+  const row = await db
+    .delete(scheduleTable)
+    .where(and(eq(scheduleTable.id, id), eq(scheduleTable.guildId, ctx.guildId)))
+    .returning()
+    .get();
+  if (!row) return json({ error: 'Schedule not found.' }, 404);
+
+  return new Response(null, { status: 204 });
+}
+
+export async function handleSchedules(ctx: GuildRouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) return json({ error: 'Admin access required.' }, 403);
+
+  const url = new URL(request.url);
+
+  // Strip /api/guilds/:guildId/settings/schedules prefix
+  const path = url.pathname.slice(`/api/guilds/${ctx.guildId}/settings/schedules`.length);
+
+  if (path === '' && request.method === 'GET') return await handleListSchedules(ctx);
+  if (path === '' && request.method === 'POST') return await handleCreateSchedule(ctx, request);
+  if (path === '/voice-channels' && request.method === 'GET')
+    return await handleListVoiceChannels(ctx);
+
+  const idMatch = path.match(/^\/([^/]+)$/);
+  if (idMatch && request.method === 'PATCH')
+    return await handleUpdateSchedule(ctx, request, idMatch[1]);
+  if (idMatch && request.method === 'DELETE') return await handleDeleteSchedule(ctx, idMatch[1]);
+
+  return json({ error: 'Not Found' }, 404);
+}
@@ -1,9 +1,16 @@
-import { eq, inArray, or, sql } from 'drizzle-orm';
+import { and, asc, eq, inArray, isNull, or, sql } from 'drizzle-orm';
 import type { RouteContext } from '../index';
-import { GUILD_ID } from '../lib/config';
+import { reapplyTrackFilters } from '../lib/audioFilters';
+import {
+  getAvailabilityStatus,
+  getUnavailableSongs,
+  scanLibraryAvailability,
+} from '../lib/availability';
+import { GUILD_IDS } from '../lib/config';
 import { getUserDisplayName } from '../lib/displayName';
 import { json } from '../lib/json';
-import { formatSong } from '../lib/serialization';
+import { getNormalizationStatus, normalizeLibrary, queueLoudnessAnalysis } from '../lib/loudness';
+import { formatSong, formatSongLyrics } from '../lib/serialization';
 import { emitSongAdded, emitSongDeleted, emitSongUpdated } from '../lib/socket';
 import { canonicalizeTags } from '../lib/tagCanonicalization';
 import {
@@ -11,18 +18,23 @@ import {
   fetchPlaylistMetadata,
   fetchYouTubeMetadata,
   validateArtworkUrl,
+  validateAudioPresetId,
+  validateLyrics,
   validateNickname,
   validateOptionalString,
+  validateSegments,
   validateTags,
+  validateTrimOffsets,
   validateVolumeBoost,
   validateYouTubePlaylistUrl,
   validateYouTubeUrl,
   youTubeUrl,
 } from '../lib/validation';
+import { parseLyrics, playbackBoost } from '../shared';
 import { $client, db, tables } from '../shared/db';
 import { getPlayer } from '../startDiscord';
 
-const { song: songTable } = tables;
+const { song: songTable, songLyrics: songLyricsTable } = tables;
 
 // ---------------------------------------------------------------------------
 // GET /api/songs — paginated list of songs, newest first.
@@ -142,11 +154,11 @@ async function handlePostSong(ctx: RouteContext, request: Request): Promise<Resp
   if (!metadataResult.ok) return metadataResult.response;
   const metadata = metadataResult.value;
 
-  // Check for duplicate by youtubeId.
+  // Check for duplicate by youtubeId. Segments share their parent's video.
   const [existing] = await db
     .select()
     .from(songTable)
-    .where(eq(songTable.youtubeId, metadata.youtubeId))
+    .where(and(eq(songTable.youtubeId, metadata.youtubeId), isNull(songTable.parentSongId)))
     .limit(1);
 
   if (existing) {
@@ -174,6 +186,7 @@ async function handlePostSong(ctx: RouteContext, request: Request): Promise<Resp
 
   const formatted = formatSong(song);
   emitSongAdded(formatted);
+  queueLoudnessAnalysis([song.id]);
 
   return json(formatted, 201);
 }
@@ -273,6 +286,7 @@ async function handleImportPlaylist(ctx: RouteContext, request: Request): Promis
   for (const song of createdSongs) {
     emitSongAdded(formatSong(song));
   }
+  queueLoudnessAnalysis(createdSongs.map((song) => song.id));
 
   return json(
     {
@@ -287,6 +301,178 @@ async function handleImportPlaylist(ctx: RouteContext, request: Request): Promis
   );
 }
 
+// ---------------------------------------------------------------------------
+// GET /api/songs/normalize — progress of the library loudness analysis. Admin only.
+// ---------------------------------------------------------------------------
+async function handleGetNormalization(ctx: RouteContext): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  return json(await getNormalizationStatus());
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/songs/normalize — measure the library's loudness. Admin only.
+//
+// Songs without a measurement are queued, or every song with
+// { remeasure: true }. Analysis runs in the background; poll GET for progress.
+// ---------------------------------------------------------------------------
+async function handlePostNormalization(ctx: RouteContext, request: Request): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  let body: { remeasure?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  await normalizeLibrary(body.remeasure === true);
+  return json(await getNormalizationStatus(), 202);
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/songs/availability — progress of the availability scan. Admin only.
+// ---------------------------------------------------------------------------
+async function handleGetAvailability(ctx: RouteContext): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  return json(await getAvailabilityStatus());
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/songs/availability — check every song's video now. Admin only.
+//
+// The scan runs in the background; poll GET for progress.
+// ---------------------------------------------------------------------------
+async function handlePostAvailability(ctx: RouteContext): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  await scanLibraryAvailability();
+  return json(await getAvailabilityStatus(), 202);
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/songs/unavailable — songs whose video no longer plays. Admin only.
+// ---------------------------------------------------------------------------
+async function handleGetUnavailable(ctx: RouteContext): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  const songs = await getUnavailableSongs();
+  return json(songs.map(formatSong));
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/songs/:id/replace-url — point a song at another video. Admin only.
+//
+// Meant for songs whose video went away. The song keeps its metadata,
+// playlists and segments; the video details, loudness and availability are
+// taken from the new video.
+// ---------------------------------------------------------------------------
+async function handleReplaceUrl(
+  ctx: RouteContext,
+  request: Request,
+  id: string
+): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  let body: { youtubeUrl?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const [existing] = await db.select().from(songTable).where(eq(songTable.id, id)).limit(1);
+  if (!existing) {
+    return json({ error: 'Song not found.' }, 404);
+  }
+  if (existing.parentSongId) {
+    return json({ error: "A segment plays its parent's video; replace the parent's URL." }, 400);
+  }
+
+  const urlResult = validateYouTubeUrl(body.youtubeUrl);
+  if (!urlResult.ok) return urlResult.response;
+  let url = urlResult.value;
+  try {
+    const parsed = new URL(url);
+    parsed.searchParams.delete('list');
+    url = parsed.toString();
+  } catch {
+    // leave URL unchanged
+  }
+
+  const metadataResult = await fetchYouTubeMetadata(url);
+  if (!metadataResult.ok) return metadataResult.response;
+  const metadata = metadataResult.value;
+
+  const [duplicate] = await db
+    .select()
+    .from(songTable)
+    .where(and(eq(songTable.youtubeId, metadata.youtubeId), isNull(songTable.parentSongId)))
+    .limit(1);
+  if (duplicate && duplicate.id !== id) {
+    return json(
+      { error: 'This video is already in your library.', song: formatSong(duplicate) },
+      409
+    );
+  }
+
+  // Segments play the same video, so they move with their parent.
+  const updated = await db
+    .update(songTable)
+    .set({
+      youtubeUrl: url,
+      youtubeId: metadata.youtubeId,
+      duration: metadata.duration,
+      thumbnailUrl: metadata.thumbnailUrl ?? '',
+      loudnessLufs: null,
+      normalizationGain: null,
+      unavailableAt: null,
+      unavailableReason: null,
+      availabilityCheckedAt: new Date(),
+    })
+    .where(or(eq(songTable.id, id), eq(songTable.parentSongId, id)))
+    .returning();
+
+  for (const song of updated) {
+    emitSongUpdated(formatSong(song));
+  }
+  queueLoudnessAnalysis(updated.map((song) => song.id));
+
+  const song = updated.find((row) => row.id === id);
+  return json(song ? formatSong(song) : null);
+}
+
 // ---------------------------------------------------------------------------
 // DELETE /api/songs/:id — delete a song. Admin only.
 // ---------------------------------------------------------------------------
@@ -307,10 +493,23 @@ async function handleDeleteSong(
     return json({ error: 'Song not found.' }, 404);
   }
 
-  await db.delete(songTable).where(eq(songTable.id, id));
+  // A song's segments go with it, since they play from its video.
+  const deleted = await db
+    .delete(songTable)
+    .where(or(eq(songTable.id, id), eq(songTable.parentSongId, id)))
+    .returning({ id: songTable.id });
+
+  await db.delete(songLyricsTable).where(
+    inArray(
+      songLyricsTable.songId,
+      deleted.map((song) => song.id)
+    )
+  );
 
-  // Notify all connected clients so the Songs page removes the card in real time.
-  emitSongDeleted(id);
+  // Notify all connected clients so the Songs page removes the cards in real time.
+  for (const song of deleted) {
+    emitSongDeleted(song.id);
+  }
 
   return new Response(null, { status: 204 });
 }
@@ -378,6 +577,28 @@ async function handlePatchSong(ctx: RouteContext, request: Request, id: string):
     data.volumeBoost = volumeResult.value;
   }
 
+  // Trim offsets. Songs already queued keep the trim they were queued with.
+  if ('startOffsetMs' in body || 'endOffsetMs' in body) {
+    const trimResult = validateTrimOffsets(body, existing);
+    if (!trimResult.ok) return trimResult.response;
+    Object.assign(data, trimResult.value);
+  }
+
+  // Loudness normalization override
+  if ('normalize' in body) {
+    if (typeof body.normalize !== 'boolean') {
+      return json({ error: 'normalize must be a boolean.' }, 400);
+    }
+    data.normalize = body.normalize;
+  }
+
+  // Audio preset override
+  if ('audioPresetId' in body) {
+    const presetResult = await validateAudioPresetId(body.audioPresetId, ctx.user);
+    if (!presetResult.ok) return presetResult.response;
+    data.audioPresetId = presetResult.value;
+  }
+
   const [updatedSong] = await db
     .update(songTable)
     .set(data)
@@ -386,18 +607,183 @@ async function handlePatchSong(ctx: RouteContext, request: Request, id: string):
 
   emitSongUpdated(formatSong(updatedSong));
 
-  // If this song is currently playing, update volume live without restarting
-  const player = getPlayer(GUILD_ID);
-  if (player && data.volumeBoost !== undefined) {
-    const currentSong = player.getCurrentSong();
-    if (currentSong?.id === id) {
-      player.updateVolumeBoost(data.volumeBoost as number);
+  // The song's preset, or its tags' presets, may now apply to what's playing.
+  if (data.audioPresetId !== undefined || data.tags !== undefined) {
+    await reapplyTrackFilters((song) => song.id === id);
+  }
+
+  // The loudness was measured over the old trim.
+  if (data.startOffsetMs !== undefined || data.endOffsetMs !== undefined) {
+    queueLoudnessAnalysis([id]);
+  }
+
+  // If this song is currently playing in any guild, update volume live without restarting
+  if (data.volumeBoost !== undefined || data.normalize !== undefined) {
+    for (const guildId of GUILD_IDS) {
+      const player = getPlayer(guildId);
+      if (player?.getCurrentSong()?.id === id) {
+        player.updateVolumeBoost(playbackBoost(updatedSong));
+      }
     }
   }
 
   return json(formatSong(updatedSong));
 }
 
+// ---------------------------------------------------------------------------
+// GET /api/songs/:id/segments — a song's segments, in playback order.
+// ---------------------------------------------------------------------------
+async function handleGetSegments(ctx: RouteContext, id: string): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+
+  const segments = await db
+    .select()
+    .from(songTable)
+    .where(eq(songTable.parentSongId, id))
+    .orderBy(asc(songTable.startOffsetMs));
+
+  return json(segments.map(formatSong));
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/songs/:id/segments — cut segments out of a song. Admin only.
+//
+// Each segment is a song of its own that plays a stretch of the parent's
+// video through its trim offsets, so it can be queued and added to
+// playlists like any other song.
+// ---------------------------------------------------------------------------
+async function handlePostSegments(
+  ctx: RouteContext,
+  request: Request,
+  id: string
+): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  let body: { segments?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const [parent] = await db.select().from(songTable).where(eq(songTable.id, id)).limit(1);
+  if (!parent) {
+    return json({ error: 'Song not found.' }, 404);
+  }
+  if (parent.parentSongId) {
+    return json({ error: 'A segment cannot be split further.' }, 400);
+  }
+
+  const segmentsResult = validateSegments(body.segments, parent.duration);
+  if (!segmentsResult.ok) return segmentsResult.response;
+
+  const addedBy = ctx.user.discordId ?? '';
+  const createdSongs = await db.transaction((tx) => {
+    return tx
+      .insert(songTable)
+      .values(
+        segmentsResult.value.map((segment) => ({
+          title: segment.title,
+          youtubeUrl: parent.youtubeUrl,
+          youtubeId: parent.youtubeId,
+          duration: parent.duration,
+          thumbnailUrl: parent.thumbnailUrl,
+          addedBy,
+          artist: parent.artist,
+          album: parent.album,
+          artwork: parent.artwork,
+          tags: parent.tags,
+          volumeBoost: parent.volumeBoost,
+          parentSongId: parent.id,
+          startOffsetMs: segment.startOffsetMs,
+          endOffsetMs: segment.endOffsetMs,
+        }))
+      )
+      .returning();
+  });
+
+  const formatted = createdSongs.map(formatSong);
+  for (const song of formatted) {
+    emitSongAdded(song);
+  }
+  queueLoudnessAnalysis(createdSongs.map((song) => song.id));
+
+  return json(formatted, 201);
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/songs/:id/lyrics — a song's lyrics, or null if it has none.
+// ---------------------------------------------------------------------------
+async function handleGetLyrics(ctx: RouteContext, id: string): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+
+  const row = await db.select().from(songLyricsTable).where(eq(songLyricsTable.songId, id)).get();
+
+  return json(row ? formatSongLyrics(row) : null);
+}
+
+// ---------------------------------------------------------------------------
+// PATCH /api/songs/:id/lyrics — set or clear a song's lyrics. Admin only.
+//
+// Body: { lyrics: string | null }, plain text or LRC. Null or blank removes
+// them. Responds with the saved lyrics, or null once removed.
+// ---------------------------------------------------------------------------
+async function handlePatchLyrics(
+  ctx: RouteContext,
+  request: Request,
+  id: string
+): Promise<Response> {
+  if (!ctx.user) {
+    return json({ error: 'Not authenticated. Please log in at /auth/login.' }, 401);
+  }
+  if (!ctx.isAdmin) {
+    return json({ error: 'Admin access required.' }, 403);
+  }
+
+  let body: { lyrics?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return json({ error: 'Invalid JSON body.' }, 400);
+  }
+
+  const lyricsResult = validateLyrics(body.lyrics ?? null);
+  if (!lyricsResult.ok) return lyricsResult.response;
+
+  const [existing] = await db.select().from(songTable).where(eq(songTable.id, id)).limit(1);
+  if (!existing) {
+    return json({ error: 'Song not found.' }, 404);
+  }
+
+  if (lyricsResult.value === null) {
+    await db.delete(songLyricsTable).where(eq(songLyricsTable.songId, id));
+    return json(null);
+  }
+
+  const values = {
+    text: lyricsResult.value,
+    synced: parseLyrics(lyricsResult.value).synced,
+    updatedBy: ctx.user.discordId ?? '',
+    updatedAt: new Date(),
+  };
+  const [row] = await db
+    .insert(songLyricsTable)
+    .values({ songId: id, ...values })
+    .onConflictDoUpdate({ target: songLyricsTable.songId, set: values })
+    .returning();
+
+  return json(formatSongLyrics(row));
+}
+
 // ---------------------------------------------------------------------------
 // Dispatcher
 // ---------------------------------------------------------------------------
@@ -411,6 +797,27 @@ export async function handleSongs(ctx: RouteContext, request: Request): Promise<
     return await handleImportPlaylist(ctx, request);
   }
 
+  // GET|POST /api/songs/normalize
+  if (request.method === 'GET' && pathname === '/api/songs/normalize') {
+    return await handleGetNormalization(ctx);
+  }
+  if (request.method === 'POST' && pathname === '/api/songs/normalize') {
+    return await handlePostNormalization(ctx, request);
+  }
+
+  // GET|POST /api/songs/availability
+  if (request.method === 'GET' && pathname === '/api/songs/availability') {
+    return await handleGetAvailability(ctx);
+  }
+  if (request.method === 'POST' && pathname === '/api/songs/availability') {
+    return await handlePostAvailability(ctx);
+  }
+
+  // GET /api/songs/unavailable
+  if (request.method === 'GET' && pathname === '/api/songs/unavailable') {
+    return await handleGetUnavailable(ctx);
+  }
+
   // GET /api/songs
   if (request.method === 'GET' && pathname === '/api/songs') {
     return await handleGetSongs(ctx, request);
@@ -421,6 +828,30 @@ export async function handleSongs(ctx: RouteContext, request: Request): Promise<
     return await handlePostSong(ctx, request);
   }
 
+  // GET|POST /api/songs/:id/segments
+  const segmentsMatch = pathname.match(/^\/api\/songs\/([^/]+)\/segments$/);
+  if (segmentsMatch && request.method === 'GET') {
+    return await handleGetSegments(ctx, segmentsMatch[1]);
+  }
+  if (segmentsMatch && request.method === 'POST') {
+    return await handlePostSegments(ctx, request, segmentsMatch[1]);
+  }
+
+  // GET|PATCH /api/songs/:id/lyrics
+  const lyricsMatch = pathname.match(/^\/api\/songs\/([^/]+)\/lyrics$/);
+  if (lyricsMatch && request.method === 'GET') {
+    return await handleGetLyrics(ctx, lyricsMatch[1]);
+  }
+  if (lyricsMatch && request.method === 'PATCH') {
+    return await handlePatchLyrics(ctx, request, lyricsMatch[1]);
+  }
+
+  // POST /api/songs/:id/replace-url
+  const replaceUrlMatch = pathname.match(/^\/api\/songs\/([^/]+)\/replace-url$/);
+  if (replaceUrlMatch && request.method === 'POST') {
+    return await handleReplaceUrl(ctx, request, replaceUrlMatch[1]);
+  }
+
   // DELETE /api/songs/:id
   if (request.method === 'DELETE' && pathname.startsWith('/api/songs/')) {
     const id = pathname.slice('/api/songs/'.length);
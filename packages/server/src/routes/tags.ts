@@ -1,6 +1,8 @@
 import { eq, sql } from 'drizzle-orm';
 import type { RouteContext } from '../index';
+import { reapplyTrackFilters } from '../lib/audioFilters';
 import { json } from '../lib/json';
+import { validateAudioPresetId } from '../lib/validation';
 import { db, tables } from '../shared/db';
 
 const { tag: tagTable, song: songTable } = tables;
@@ -64,6 +66,12 @@ async function handlePatchTag(
     data.color = body.color;
   }
 
+  if ('audioPresetId' in body) {
+    const presetResult = await validateAudioPresetId(body.audioPresetId, ctx.user);
+    if (!presetResult.ok) return presetResult.response;
+    data.audioPresetId = presetResult.value;
+  }
+
   if (Object.keys(data).length === 0) {
     return json({ error: 'No valid fields to update.' }, 400);
   }
@@ -74,6 +82,12 @@ async function handlePatchTag(
     .where(eq(tagTable.nameLower, nameLower))
     .returning();
 
+  if (data.audioPresetId !== undefined) {
+    await reapplyTrackFilters((song) =>
+      (song.tags ?? []).some((tag) => tag.toLowerCase() === nameLower)
+    );
+  }
+
   return json({ tag: updated });
 }
 
@@ -132,6 +146,7 @@ export async function handleTags(ctx: RouteContext, request: Request): Promise<R
         nameLower: tagTable.nameLower,
         canonicalName: tagTable.canonicalName,
         color: tagTable.color,
+        audioPresetId: tagTable.audioPresetId,
       })
       .from(tagTable)
       .orderBy(tagTable.canonicalName)
@@ -1,12 +1,24 @@
 import type {
+  AudioPreset,
+  AudioProfile,
+  AvailabilityStatus,
   LoopMode,
+  NormalizationStatus,
   PaginatedResult,
   PaginationMeta,
+  PlaybackSchedule,
+  PlayHistoryEntry,
   Playlist,
   PlaylistDetail,
+  QueueList,
+  QueueSaveResult,
   QueueState,
+  SleepAction,
   Song,
+  SongLyrics,
+  SongSegmentInput,
   User,
+  VoiceChannel,
 } from './types';
 
 /**
@@ -134,6 +146,10 @@ export interface SongUpdateData {
   artwork?: string | null;
   tags?: string[];
   volumeBoost?: number | null;
+  startOffsetMs?: number | null;
+  endOffsetMs?: number | null;
+  normalize?: boolean;
+  audioPresetId?: string | null;
 }
 
 /**
@@ -143,10 +159,82 @@ export function updateSong(id: string, data: SongUpdateData): Promise<Song> {
   return patch(`/api/songs/${id}`, data);
 }
 
+/**
+ * A song's segments, in playback order.
+ */
+export function fetchSongSegments(id: string): Promise<Song[]> {
+  return get(`/api/songs/${id}/segments`);
+}
+
+/**
+ * Cut segments out of a song, e.g. from a parsed chapter list. Admin only.
+ */
+export function createSongSegments(id: string, segments: SongSegmentInput[]): Promise<Song[]> {
+  return post(`/api/songs/${id}/segments`, { segments });
+}
+
+/**
+ * A song's lyrics, or null if it has none.
+ */
+export function fetchSongLyrics(id: string): Promise<SongLyrics | null> {
+  return get(`/api/songs/${id}/lyrics`);
+}
+
+/**
+ * Set a song's lyrics from plain text or LRC; null or blank removes them. Admin only.
+ */
+export function updateSongLyrics(id: string, lyrics: string | null): Promise<SongLyrics | null> {
+  return patch(`/api/songs/${id}/lyrics`, { lyrics });
+}
+
+/**
+ * Progress of the library loudness analysis. Admin only.
+ */
+export function fetchNormalizationStatus(): Promise<NormalizationStatus> {
+  return get('/api/songs/normalize');
+}
+
+/**
+ * Measure the loudness of every song without a measurement (or of every song
+ * with `remeasure`). Runs in the background. Admin only.
+ */
+export function normalizeLibrary(remeasure = false): Promise<NormalizationStatus> {
+  return post('/api/songs/normalize', { remeasure });
+}
+
+/**
+ * Progress of the library availability scan. Admin only.
+ */
+export function fetchAvailabilityStatus(): Promise<AvailabilityStatus> {
+  return get('/api/songs/availability');
+}
+
+/**
+ * Check every song's video now. Runs in the background. Admin only.
+ */
+export function scanLibraryAvailability(): Promise<AvailabilityStatus> {
+  return post('/api/songs/availability');
+}
+
+/**
+ * Songs whose video no longer plays, most recently broken first. Admin only.
+ */
+export function fetchUnavailableSongs(): Promise<Song[]> {
+  return get('/api/songs/unavailable');
+}
+
+/**
+ * Point a song (and its segments) at another video. Admin only.
+ */
+export function replaceSongUrl(id: string, youtubeUrl: string): Promise<Song> {
+  return post(`/api/songs/${id}/replace-url`, { youtubeUrl });
+}
+
 export interface TagItem {
   canonicalName: string;
   nameLower: string;
   color?: string | null;
+  audioPresetId?: string | null;
 }
 
 export function fetchTags(): Promise<TagItem[]> {
@@ -159,7 +247,7 @@ export function fetchTagSongs(nameLower: string): Promise<Song[]> {
 
 export function updateTag(
   nameLower: string,
-  data: { canonicalName?: string; color?: string | null }
+  data: { canonicalName?: string; color?: string | null; audioPresetId?: string | null }
 ): Promise<{ tag: TagItem }> {
   return patch(`/api/tags/${nameLower}`, data);
 }
@@ -231,12 +319,42 @@ export function togglePlaylistVisibility(
   return patch(`/api/playlists/${playlistId}/visibility${params}`, { isPrivate });
 }
 
+/** Set the audio preset songs queued from this playlist play with, or null to clear it. Admin only. */
+export function setPlaylistAudioPreset(
+  playlistId: string,
+  audioPresetId: string | null
+): Promise<Playlist> {
+  return patch(`/api/playlists/${playlistId}/audio-preset`, { audioPresetId });
+}
+
 // ---------------------------------------------------------------------------
 // Player API Functions
+//
+// The player is per guild. Player calls go to the guild picked with
+// setActiveGuild(); the web UI keeps it in sync with its guild picker.
 // ---------------------------------------------------------------------------
 
+let activeGuildId: string | null = null;
+
+/**
+ * Select the guild whose player the functions below control
+ */
+export function setActiveGuild(guildId: string | null) {
+  activeGuildId = guildId;
+}
+
+/**
+ * Build a URL under /api/guilds/:guildId for the active guild
+ */
+export function guildUrl(path: string): string {
+  if (!activeGuildId) {
+    throw new Error('No active guild. Call setActiveGuild() first.');
+  }
+  return `/api/guilds/${activeGuildId}${path}`;
+}
+
 export function fetchQueueState(): Promise<QueueState> {
-  return get('/api/player/queue');
+  return get(guildUrl('/player/queue'));
 }
 
 export function startPlayback(opts: {
@@ -245,46 +363,88 @@ export function startPlayback(opts: {
   loop: LoopMode;
   startFromSongId?: string;
 }): Promise<void> {
-  return post('/api/player/play', opts);
+  return post(guildUrl('/player/play'), opts);
 }
 
 export function skipTrack(): Promise<void> {
-  return post('/api/player/skip');
+  return post(guildUrl('/player/skip'));
+}
+
+export function previousTrack(): Promise<{ message: string }> {
+  return post(guildUrl('/player/previous'));
 }
 
 export function leaveVoice(): Promise<void> {
-  return post('/api/player/leave');
+  return post(guildUrl('/player/leave'));
 }
 
 export function setLoopMode(mode: LoopMode): Promise<void> {
-  return post('/api/player/loop', { mode });
+  return post(guildUrl('/player/loop'), { mode });
+}
+
+export function setAutoplay(enabled: boolean): Promise<{ autoplay: boolean }> {
+  return post(guildUrl('/player/autoplay'), { enabled });
+}
+
+/** Sleep after `minutes` of playing time, or at the clock time `at`. */
+export function setSleepTimer(
+  when: { minutes: number } | { at: string },
+  action: SleepAction,
+  fadeOut?: boolean
+): Promise<QueueState> {
+  return post(guildUrl('/player/sleep-timer'), { ...when, action, fadeOut });
+}
+
+export function cancelSleepTimer(): Promise<QueueState> {
+  return remove(guildUrl('/player/sleep-timer'));
+}
+
+export function setStopAfterTracks(tracks: number | null): Promise<QueueState> {
+  return post(guildUrl('/player/stop-after'), { tracks });
+}
+
+export function setFairQueue(enabled: boolean): Promise<{ fairQueue: boolean }> {
+  return post(guildUrl('/player/fair-queue'), { enabled });
+}
+
+export function setSmartShuffle(enabled: boolean): Promise<{ smartShuffle: boolean }> {
+  return post(guildUrl('/player/smart-shuffle'), { enabled });
+}
+
+/** Guild master volume in percent, 0 to 200. */
+export function setMasterVolume(volume: number): Promise<{ volume: number }> {
+  return post(guildUrl('/player/volume'), { volume });
 }
 
 export function shuffleQueue(): Promise<void> {
-  return post('/api/player/shuffle');
+  return post(guildUrl('/player/shuffle'));
 }
 
 export function unshuffleQueue(): Promise<void> {
-  return post('/api/player/unshuffle');
+  return post(guildUrl('/player/unshuffle'));
 }
 
 export function clearQueue(): Promise<void> {
-  return post('/api/player/clear');
+  return post(guildUrl('/player/clear'));
+}
+
+export function undoQueueChange(): Promise<{ message: string }> {
+  return post(guildUrl('/player/undo'));
 }
 
 export function togglePause(): Promise<{ isPaused: boolean }> {
-  return post('/api/player/pause-toggle');
+  return post(guildUrl('/player/pause-toggle'));
 }
 
 export function seek(positionMs: number): Promise<void> {
-  return post('/api/player/seek', { position: positionMs });
+  return post(guildUrl('/player/seek'), { position: positionMs });
 }
 
 export function quickAddToQueue(youtubeUrl: string): Promise<{
   message: string;
   song: { title: string; duration: number; thumbnailUrl: string; requestedBy: string };
 }> {
-  return post('/api/player/quick-add', { youtubeUrl });
+  return post(guildUrl('/player/quick-add'), { youtubeUrl });
 }
 
 export function quickAddPlaylistToQueue(
@@ -297,7 +457,7 @@ export function quickAddPlaylistToQueue(
   queuedCount: number;
   songs: Array<{ title: string; duration: number; thumbnailUrl: string; requestedBy: string }>;
 }> {
-  return post('/api/player/quick-add-playlist', {
+  return post(guildUrl('/player/quick-add-playlist'), {
     youtubeUrl,
     ...(maxVideos && { maxVideos }),
   });
@@ -307,14 +467,129 @@ export function addToPriorityQueue(songId: string): Promise<{
   message: string;
   song: { title: string; duration: number; thumbnailUrl: string; requestedBy: string };
 }> {
-  return post('/api/player/add-to-priority', { songId });
+  return post(guildUrl('/player/add-to-priority'), { songId });
+}
+
+export function removeQueueEntry(
+  list: QueueList,
+  index: number,
+  songId: string
+): Promise<QueueState> {
+  return post(guildUrl('/player/queue/remove'), { list, index, songId });
+}
+
+export function moveQueueEntry(
+  list: QueueList,
+  from: number,
+  to: number,
+  songId: string
+): Promise<QueueState> {
+  return post(guildUrl('/player/queue/move'), { list, from, to, songId });
+}
+
+export function insertQueueEntry(
+  list: QueueList,
+  index: number,
+  songId: string
+): Promise<{
+  message: string;
+  song: { title: string; duration: number; thumbnailUrl: string; requestedBy: string };
+}> {
+  return post(guildUrl('/player/queue/insert'), { list, index, songId });
 }
 
 export function overridePlay(youtubeUrl: string): Promise<{
   message: string;
   song: { title: string; duration: number; thumbnailUrl: string; requestedBy: string };
 }> {
-  return post('/api/player/override', { youtubeUrl });
+  return post(guildUrl('/player/override'), { youtubeUrl });
+}
+
+/**
+ * Save the current song and queue as a new playlist (`name`) or append them
+ * to an existing one (`playlistId`), optionally after the songs already played.
+ */
+export function saveQueueAsPlaylist(
+  target: { name: string } | { playlistId: string },
+  { includeHistory = false, dedupe = true }: { includeHistory?: boolean; dedupe?: boolean } = {}
+): Promise<QueueSaveResult> {
+  return post(guildUrl('/player/queue/save'), { ...target, includeHistory, dedupe });
+}
+
+export function restoreSession(mode: 'resume' | 'paused'): Promise<{ message: string }> {
+  return post(guildUrl('/player/restore'), { mode });
+}
+
+export function dismissSavedSession(): Promise<{ message: string }> {
+  return post(guildUrl('/player/dismiss-session'));
+}
+
+export function fetchPlayHistoryPage(
+  page: number,
+  limit = 30,
+  range: { from?: string; to?: string } = {}
+): Promise<PaginatedResult<PlayHistoryEntry>> {
+  const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+  if (range.from) params.set('from', range.from);
+  if (range.to) params.set('to', range.to);
+  return get(guildUrl(`/player/history?${params}`));
+}
+
+// ---------------------------------------------------------------------------
+// Playback Schedule API Functions
+// ---------------------------------------------------------------------------
+
+export function fetchSchedules(): Promise<PlaybackSchedule[]> {
+  return get(guildUrl('/settings/schedules'));
+}
+
+export function fetchVoiceChannels(): Promise<VoiceChannel[]> {
+  return get(guildUrl('/settings/schedules/voice-channels'));
+}
+
+export function createSchedule(schedule: {
+  voiceChannelId: string;
+  playlistId: string;
+  mode: 'sequential' | 'random';
+  loopMode: LoopMode;
+  days: number[];
+  time: string;
+  timeZone: string;
+}): Promise<PlaybackSchedule> {
+  return post(guildUrl('/settings/schedules'), schedule);
+}
+
+export function setScheduleEnabled(id: string, enabled: boolean): Promise<PlaybackSchedule> {
+  return patch(guildUrl(`/settings/schedules/${id}`), { enabled });
+}
+
+export function deleteSchedule(id: string): Promise<void> {
+  return remove(guildUrl(`/settings/schedules/${id}`));
+}
+
+// ---------------------------------------------------------------------------
+// Audio Preset API Functions
+// ---------------------------------------------------------------------------
+
+export function fetchAudioPresets(): Promise<AudioPreset[]> {
+  return get(guildUrl('/settings/presets'));
+}
+
+/** Saves the guild's current audio settings as a new preset. */
+export function createAudioPreset(name: string): Promise<AudioPreset> {
+  return post(guildUrl('/settings/presets'), { name });
+}
+
+export function renameAudioPreset(id: string, name: string): Promise<AudioPreset> {
+  return patch(guildUrl(`/settings/presets/${encodeURIComponent(id)}`), { name });
+}
+
+export function deleteAudioPreset(id: string): Promise<void> {
+  return remove(guildUrl(`/settings/presets/${encodeURIComponent(id)}`));
+}
+
+export function applyAudioPreset(id: string): Promise<AudioProfile> {
+  return post(guildUrl(`/settings/presets/${encodeURIComponent(id)}/apply`));
 }
 
 // ---------------------------------------------------------------------------
@@ -1,5 +1,20 @@
 import { Database } from 'bun:sqlite';
-import { and, asc, count, desc, eq, gt, gte, inArray, lt, lte, or, sql } from 'drizzle-orm';
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  sql,
+} from 'drizzle-orm';
 import { drizzle } from 'drizzle-orm/bun-sqlite';
 import * as schema from './schema';
 
@@ -24,18 +39,39 @@ export type * from './schema';
 export * as schema from './schema';
 /** Re-export the underlying sqlite client for shutdown/health checks. */
 // Re-export drizzle-orm operators so consumers don't need drizzle-orm as a direct dependency.
-export { and, asc, count, desc, eq, gt, gte, inArray, lt, lte, or, sql, sqliteDb as $client };
+export {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  or,
+  sql,
+  sqliteDb as $client,
+};
 
 // ---------------------------------------------------------------------------
 // Tables shorthand — for direct consumer use in route files.
 // ---------------------------------------------------------------------------
 export const tables = {
   song: schema.song,
+  songLyrics: schema.songLyrics,
   playlist: schema.playlist,
   playlistSong: schema.playlistSong,
   refreshToken: schema.refreshToken,
   tag: schema.tag,
   guildSettings: schema.guildSettings,
+  playerSnapshot: schema.playerSnapshot,
+  playHistory: schema.playHistory,
+  playbackSchedule: schema.playbackSchedule,
+  audioPreset: schema.audioPreset,
 };
 
 // ---------------------------------------------------------------------------
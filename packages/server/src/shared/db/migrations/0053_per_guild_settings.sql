@@ -0,0 +1,34 @@
+-- Settings become per-guild: rebuild guildSettings keyed by the Discord guild ID.
+-- The old single row (id = 1) is carried over under the "legacy" placeholder and
+-- assigned to the first configured guild on startup (see ensureGuildSettingsMigrated).
+CREATE TABLE "guildSettings_new" (
+  "guildId" text PRIMARY KEY NOT NULL,
+  "compressorEnabled" integer NOT NULL DEFAULT 0,
+  "compressorThreshold" integer NOT NULL DEFAULT -6,
+  "compressorRatio" real NOT NULL DEFAULT 4.0,
+  "compressorAttack" integer NOT NULL DEFAULT 5,
+  "compressorRelease" integer NOT NULL DEFAULT 50,
+  "compressorGain" integer NOT NULL DEFAULT 3,
+  "eqBand0" integer NOT NULL DEFAULT 50,
+  "eqBand1" integer NOT NULL DEFAULT 50,
+  "eqBand2" integer NOT NULL DEFAULT 50,
+  "eqBand3" integer NOT NULL DEFAULT 50,
+  "eqBand4" integer NOT NULL DEFAULT 50,
+  "eqBand5" integer NOT NULL DEFAULT 50,
+  "eqBand6" integer NOT NULL DEFAULT 50,
+  "eqBand7" integer NOT NULL DEFAULT 50,
+  "eqBand8" integer NOT NULL DEFAULT 50,
+  "eqBand9" integer NOT NULL DEFAULT 50,
+  "eqBand10" integer NOT NULL DEFAULT 50,
+  "eqBand11" integer NOT NULL DEFAULT 50,
+  "eqBand12" integer NOT NULL DEFAULT 50,
+  "eqBand13" integer NOT NULL DEFAULT 50,
+  "eqBand14" integer NOT NULL DEFAULT 50
+);
+--> statement-breakpoint
+INSERT INTO "guildSettings_new" ("guildId", "compressorEnabled", "compressorThreshold", "compressorRatio", "compressorAttack", "compressorRelease", "compressorGain", "eqBand0", "eqBand1", "eqBand2", "eqBand3", "eqBand4", "eqBand5", "eqBand6", "eqBand7", "eqBand8", "eqBand9", "eqBand10", "eqBand11", "eqBand12", "eqBand13", "eqBand14")
+SELECT 'legacy', "compressorEnabled", "compressorThreshold", "compressorRatio", "compressorAttack", "compressorRelease", "compressorGain", "eqBand0", "eqBand1", "eqBand2", "eqBand3", "eqBand4", "eqBand5", "eqBand6", "eqBand7", "eqBand8", "eqBand9", "eqBand10", "eqBand11", "eqBand12", "eqBand13", "eqBand14" FROM "guildSettings" WHERE "id" = 1;
+--> statement-breakpoint
+DROP TABLE "guildSettings";
+--> statement-breakpoint
+ALTER TABLE "guildSettings_new" RENAME TO "guildSettings";
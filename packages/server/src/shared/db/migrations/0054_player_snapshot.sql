@@ -0,0 +1,6 @@
+CREATE TABLE IF NOT EXISTS "PlayerSnapshot" (
+  "guildId" text PRIMARY KEY NOT NULL,
+  "voiceId" text NOT NULL,
+  "state" text NOT NULL,
+  "updatedAt" integer NOT NULL
+);
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "PlayHistory" (
+  "id" text PRIMARY KEY NOT NULL,
+  "guildId" text NOT NULL,
+  "songId" text,
+  "title" text NOT NULL,
+  "youtubeUrl" text NOT NULL,
+  "thumbnailUrl" text NOT NULL,
+  "duration" integer NOT NULL,
+  "requestedBy" text NOT NULL,
+  "startedAt" integer NOT NULL,
+  "playedMs" integer,
+  "skipped" integer DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "PlayHistory_guildId_startedAt_idx" ON "PlayHistory" ("guildId", "startedAt");
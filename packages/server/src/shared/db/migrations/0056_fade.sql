@@ -0,0 +1,2 @@
+-- Fade length for track transitions and playback controls; 0 turns fades off.
+ALTER TABLE "guildSettings" ADD COLUMN "fadeMs" integer NOT NULL DEFAULT 0;
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "PlaybackSchedule" (
+  "id" text PRIMARY KEY NOT NULL,
+  "guildId" text NOT NULL,
+  "voiceChannelId" text NOT NULL,
+  "playlistId" text NOT NULL,
+  "mode" text DEFAULT 'sequential' NOT NULL,
+  "loopMode" text DEFAULT 'off' NOT NULL,
+  "days" text NOT NULL,
+  "time" text NOT NULL,
+  "timeZone" text NOT NULL,
+  "enabled" integer DEFAULT true NOT NULL,
+  "lastRunAt" integer,
+  "createdBy" text NOT NULL,
+  "createdAt" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "PlaybackSchedule_guildId_idx" ON "PlaybackSchedule" ("guildId");
@@ -0,0 +1,4 @@
+-- Per-song trim: playback starts at startOffsetMs and ends at endOffsetMs; null means untrimmed.
+ALTER TABLE "Song" ADD COLUMN "startOffsetMs" integer;
+--> statement-breakpoint
+ALTER TABLE "Song" ADD COLUMN "endOffsetMs" integer;
@@ -0,0 +1,14 @@
+-- Segments: songs that point at a parent song and play a stretch of its video.
+-- They share the parent's YouTube source, so the YouTube columns are only
+-- unique among top-level songs.
+ALTER TABLE "Song" ADD COLUMN "parentSongId" text;
+--> statement-breakpoint
+DROP INDEX IF EXISTS "Song_youtubeUrl_unique";
+--> statement-breakpoint
+DROP INDEX IF EXISTS "Song_youtubeId_unique";
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "Song_youtubeUrl_unique" ON "Song" ("youtubeUrl") WHERE "parentSongId" IS NULL;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "Song_youtubeId_unique" ON "Song" ("youtubeId") WHERE "parentSongId" IS NULL;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "Song_parentSongId_idx" ON "Song" ("parentSongId");
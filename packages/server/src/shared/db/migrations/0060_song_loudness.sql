@@ -0,0 +1,7 @@
+-- Loudness normalization: each song's measured loudness, the gain that brings
+-- it to the target level, and a per-song switch to leave it out.
+ALTER TABLE "Song" ADD COLUMN "loudnessLufs" real;
+--> statement-breakpoint
+ALTER TABLE "Song" ADD COLUMN "normalizationGain" integer;
+--> statement-breakpoint
+ALTER TABLE "Song" ADD COLUMN "normalize" integer DEFAULT true NOT NULL;
@@ -0,0 +1,3 @@
+-- Extended NodeLink filters (timescale, karaoke, tremolo, vibrato, rotation,
+-- low-pass) per guild, stored as JSON. See AudioFilters in shared/types.ts.
+ALTER TABLE "guildSettings" ADD COLUMN "filters" text DEFAULT '{}' NOT NULL;
@@ -0,0 +1,11 @@
+-- Named audio presets (equalizer, compressor and extended filters) per guild.
+CREATE TABLE IF NOT EXISTS "AudioPreset" (
+  "id" text PRIMARY KEY NOT NULL,
+  "guildId" text NOT NULL,
+  "name" text NOT NULL,
+  "profile" text NOT NULL,
+  "createdBy" text NOT NULL,
+  "createdAt" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "AudioPreset_guildId_name_unique" ON "AudioPreset" ("guildId","name");
@@ -0,0 +1,7 @@
+-- Audio presets attached to songs, playlists and tags. A track plays with its
+-- song's preset, else its playlist's, else its tags', else the guild settings.
+ALTER TABLE "Song" ADD COLUMN "audioPresetId" text;
+--> statement-breakpoint
+ALTER TABLE "Playlist" ADD COLUMN "audioPresetId" text;
+--> statement-breakpoint
+ALTER TABLE "Tag" ADD COLUMN "audioPresetId" text;
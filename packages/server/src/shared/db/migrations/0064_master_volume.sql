@@ -0,0 +1,3 @@
+-- Guild master volume, as a percentage (0 to 200) that scales every track's
+-- volume on top of its own boost.
+ALTER TABLE "guildSettings" ADD COLUMN "masterVolume" integer DEFAULT 100 NOT NULL;
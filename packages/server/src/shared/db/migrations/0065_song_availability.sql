@@ -0,0 +1,8 @@
+-- Songs that stopped resolving on YouTube, found at playback or by the
+-- availability scan (lib/availability.ts). "unavailableAt" is null while a
+-- song plays fine.
+ALTER TABLE "Song" ADD COLUMN "unavailableAt" integer;
+--> statement-breakpoint
+ALTER TABLE "Song" ADD COLUMN "unavailableReason" text;
+--> statement-breakpoint
+ALTER TABLE "Song" ADD COLUMN "availabilityCheckedAt" integer;
@@ -0,0 +1,9 @@
+-- Lyrics attached to songs, as plain text or LRC. One row per song; see
+-- routes/songs.ts for the /api/songs/:id/lyrics endpoints.
+CREATE TABLE IF NOT EXISTS "SongLyrics" (
+  "songId" text PRIMARY KEY NOT NULL,
+  "text" text NOT NULL,
+  "synced" integer DEFAULT false NOT NULL,
+  "updatedBy" text NOT NULL,
+  "updatedAt" integer NOT NULL
+);
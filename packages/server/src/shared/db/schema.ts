@@ -1,25 +1,66 @@
 import { randomUUID } from 'node:crypto';
-import { index, integer, real, sqliteTable, text, unique } from 'drizzle-orm/sqlite-core';
+import { sql } from 'drizzle-orm';
+import type { AudioFilters, AudioProfile } from '../types';
+import {
+  index,
+  integer,
+  real,
+  sqliteTable,
+  text,
+  unique,
+  uniqueIndex,
+} from 'drizzle-orm/sqlite-core';
 
-export const song = sqliteTable('Song', {
-  id: text('id')
-    .primaryKey()
-    .$defaultFn(() => randomUUID()),
-  title: text('title').notNull(),
-  youtubeUrl: text('youtubeUrl').notNull().unique(),
-  youtubeId: text('youtubeId').notNull().unique(),
-  duration: integer('duration').notNull(),
-  thumbnailUrl: text('thumbnailUrl').notNull(),
-  addedBy: text('addedBy').notNull(),
-  nickname: text('nickname'),
-  artist: text('artist'),
-  album: text('album'),
-  artwork: text('artwork'),
-  tags: text('tags', { mode: 'json' }).$type<string[]>().notNull().default([]),
-  volumeBoost: integer('volumeBoost'),
-  createdAt: integer('createdAt', { mode: 'timestamp_ms' })
-    .notNull()
-    .$defaultFn(() => new Date()),
+// A song with a parentSongId is a segment: a named stretch of its parent's
+// video, set by the trim offsets. It shares the parent's YouTube source, so
+// the YouTube columns are only unique among top-level songs.
+export const song = sqliteTable(
+  'Song',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUID()),
+    title: text('title').notNull(),
+    youtubeUrl: text('youtubeUrl').notNull(),
+    youtubeId: text('youtubeId').notNull(),
+    duration: integer('duration').notNull(),
+    thumbnailUrl: text('thumbnailUrl').notNull(),
+    addedBy: text('addedBy').notNull(),
+    nickname: text('nickname'),
+    artist: text('artist'),
+    album: text('album'),
+    artwork: text('artwork'),
+    tags: text('tags', { mode: 'json' }).$type<string[]>().notNull().default([]),
+    volumeBoost: integer('volumeBoost'),
+    startOffsetMs: integer('startOffsetMs'), // null plays from the start
+    endOffsetMs: integer('endOffsetMs'), // null plays to the end
+    parentSongId: text('parentSongId'), // set on segments
+    loudnessLufs: real('loudnessLufs'), // measured integrated loudness; null until analysed
+    normalizationGain: integer('normalizationGain'), // boost that brings it to the target loudness
+    normalize: integer('normalize', { mode: 'boolean' }).notNull().default(true),
+    audioPresetId: text('audioPresetId'), // overrides the playlist, tag and guild audio profile
+    unavailableAt: integer('unavailableAt', { mode: 'timestamp_ms' }), // since when it won't load
+    unavailableReason: text('unavailableReason'), // NodeLink's error at the time
+    availabilityCheckedAt: integer('availabilityCheckedAt', { mode: 'timestamp_ms' }),
+    createdAt: integer('createdAt', { mode: 'timestamp_ms' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [
+    uniqueIndex('Song_youtubeUrl_unique').on(t.youtubeUrl).where(sql`"parentSongId" IS NULL`),
+    uniqueIndex('Song_youtubeId_unique').on(t.youtubeId).where(sql`"parentSongId" IS NULL`),
+    index('Song_parentSongId_idx').on(t.parentSongId),
+  ]
+);
+
+// A song's lyrics, kept out of the Song table so song lists don't carry them.
+// `text` is stored as uploaded; see shared/lyrics.ts for parsing.
+export const songLyrics = sqliteTable('SongLyrics', {
+  songId: text('songId').primaryKey(),
+  text: text('text').notNull(), // plain text or LRC
+  synced: integer('synced', { mode: 'boolean' }).notNull().default(false), // has LRC timestamps
+  updatedBy: text('updatedBy').notNull(), // Discord user ID
+  updatedAt: integer('updatedAt', { mode: 'timestamp_ms' }).notNull(),
 });
 
 export const playlist = sqliteTable('Playlist', {
@@ -29,6 +70,7 @@ export const playlist = sqliteTable('Playlist', {
   name: text('name').notNull(),
   createdBy: text('createdBy').notNull(),
   isPrivate: integer('isPrivate', { mode: 'boolean' }).default(false).notNull(),
+  audioPresetId: text('audioPresetId'), // audio profile for songs queued from this playlist
   createdAt: integer('createdAt', { mode: 'timestamp_ms' })
     .notNull()
     .$defaultFn(() => new Date()),
@@ -73,13 +115,14 @@ export const tag = sqliteTable('Tag', {
   nameLower: text('nameLower').notNull().unique(),
   canonicalName: text('canonicalName').notNull(),
   color: text('color'),
+  audioPresetId: text('audioPresetId'), // audio profile for songs with this tag
   createdAt: integer('createdAt', { mode: 'timestamp_ms' })
     .notNull()
     .$defaultFn(() => new Date()),
 });
 
 export const guildSettings = sqliteTable('guildSettings', {
-  id: integer('id').primaryKey(), // always 1 — single guild row
+  guildId: text('guildId').primaryKey(), // Discord guild ID — one row per guild
   compressorEnabled: integer('compressorEnabled', { mode: 'boolean' }).notNull().default(false),
   compressorThreshold: integer('compressorThreshold').notNull().default(-6), // dB, -60 to 0
   compressorRatio: real('compressorRatio').notNull().default(4.0), // 1.0 to 20.0
@@ -101,4 +144,83 @@ export const guildSettings = sqliteTable('guildSettings', {
   eqBand12: integer('eqBand12').notNull().default(50),
   eqBand13: integer('eqBand13').notNull().default(50),
   eqBand14: integer('eqBand14').notNull().default(50),
+  fadeMs: integer('fadeMs').notNull().default(0), // ms, 0 (off) to 10000
+  masterVolume: integer('masterVolume').notNull().default(100), // %, 0 to 200
+  filters: text('filters', { mode: 'json' }).$type<AudioFilters>().notNull().default({}),
+});
+
+// Saved audio presets. `profile` holds an AudioProfile; built-in presets live
+// in code (shared/presets.ts), not here. See routes/presets.ts.
+export const audioPreset = sqliteTable(
+  'AudioPreset',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUID()),
+    guildId: text('guildId').notNull(),
+    name: text('name').notNull(),
+    profile: text('profile', { mode: 'json' }).$type<AudioProfile>().notNull(),
+    createdBy: text('createdBy').notNull(), // Discord user ID
+    createdAt: integer('createdAt', { mode: 'timestamp_ms' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [uniqueIndex('AudioPreset_guildId_name_unique').on(t.guildId, t.name)]
+);
+
+// One row per guild with the player's last known state, so a restart can pick
+// the session back up. `state` holds a PlayerSnapshot (see lib/playerSnapshots.ts).
+export const playerSnapshot = sqliteTable('PlayerSnapshot', {
+  guildId: text('guildId').primaryKey(),
+  voiceId: text('voiceId').notNull(),
+  state: text('state').notNull(),
+  updatedAt: integer('updatedAt', { mode: 'timestamp_ms' }).notNull(),
 });
+
+// One row per track played. `playedMs` stays null while the track is still
+// playing; see lib/playHistory.ts.
+export const playHistory = sqliteTable(
+  'PlayHistory',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUID()),
+    guildId: text('guildId').notNull(),
+    songId: text('songId'), // null for quick-added tracks that aren't in the library
+    title: text('title').notNull(),
+    youtubeUrl: text('youtubeUrl').notNull(),
+    thumbnailUrl: text('thumbnailUrl').notNull(),
+    duration: integer('duration').notNull(), // seconds
+    requestedBy: text('requestedBy').notNull(),
+    startedAt: integer('startedAt', { mode: 'timestamp_ms' }).notNull(),
+    playedMs: integer('playedMs'),
+    skipped: integer('skipped', { mode: 'boolean' }).notNull().default(false),
+  },
+  (t) => [index('PlayHistory_guildId_startedAt_idx').on(t.guildId, t.startedAt)]
+);
+
+// Scheduled playback: on each listed weekday at `time` (HH:MM in `timeZone`)
+// the bot joins `voiceChannelId` and starts the playlist. See lib/scheduler.ts.
+export const playbackSchedule = sqliteTable(
+  'PlaybackSchedule',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => randomUUID()),
+    guildId: text('guildId').notNull(),
+    voiceChannelId: text('voiceChannelId').notNull(),
+    playlistId: text('playlistId').notNull(),
+    mode: text('mode').$type<'sequential' | 'random'>().notNull().default('sequential'),
+    loopMode: text('loopMode').$type<'off' | 'song' | 'queue'>().notNull().default('off'),
+    days: text('days', { mode: 'json' }).$type<number[]>().notNull(), // 0 (Sunday) to 6
+    time: text('time').notNull(), // HH:MM, 24-hour
+    timeZone: text('timeZone').notNull(), // IANA zone, e.g. Europe/Berlin
+    enabled: integer('enabled', { mode: 'boolean' }).notNull().default(true),
+    lastRunAt: integer('lastRunAt', { mode: 'timestamp_ms' }),
+    createdBy: text('createdBy').notNull(), // Discord user ID
+    createdAt: integer('createdAt', { mode: 'timestamp_ms' })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (t) => [index('PlaybackSchedule_guildId_idx').on(t.guildId)]
+);
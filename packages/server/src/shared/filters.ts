@@ -0,0 +1,73 @@
+import type { AudioFilters } from './types';
+
+export type AudioFilterName = keyof AudioFilters;
+
+interface FilterParamSpec {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  unit?: string;
+}
+
+/**
+ * Parameters of each NodeLink filter in AudioFilters, with the ranges the API
+ * accepts and the values a filter starts from when it's switched on.
+ */
+export const AUDIO_FILTER_SPECS: {
+  [F in AudioFilterName]-?: {
+    label: string;
+    params: Record<keyof NonNullable<AudioFilters[F]>, FilterParamSpec>;
+  };
+} = {
+  timescale: {
+    label: 'Timescale',
+    params: {
+      speed: { label: 'Speed', min: 0.5, max: 2, step: 0.05, default: 1, unit: '×' },
+      pitch: { label: 'Pitch', min: 0.5, max: 2, step: 0.05, default: 1, unit: '×' },
+      rate: { label: 'Rate', min: 0.5, max: 2, step: 0.05, default: 1, unit: '×' },
+    },
+  },
+  karaoke: {
+    label: 'Karaoke',
+    params: {
+      level: { label: 'Level', min: 0, max: 1, step: 0.05, default: 1 },
+      monoLevel: { label: 'Mono level', min: 0, max: 1, step: 0.05, default: 1 },
+      filterBand: { label: 'Band', min: 50, max: 2000, step: 10, default: 220, unit: 'Hz' },
+      filterWidth: { label: 'Width', min: 10, max: 500, step: 10, default: 100, unit: 'Hz' },
+    },
+  },
+  tremolo: {
+    label: 'Tremolo',
+    params: {
+      frequency: { label: 'Frequency', min: 0.1, max: 20, step: 0.1, default: 2, unit: 'Hz' },
+      depth: { label: 'Depth', min: 0.05, max: 1, step: 0.05, default: 0.5 },
+    },
+  },
+  vibrato: {
+    label: 'Vibrato',
+    params: {
+      frequency: { label: 'Frequency', min: 0.1, max: 14, step: 0.1, default: 2, unit: 'Hz' },
+      depth: { label: 'Depth', min: 0.05, max: 1, step: 0.05, default: 0.5 },
+    },
+  },
+  rotation: {
+    label: 'Rotation',
+    params: {
+      rotationHz: { label: 'Speed', min: 0.05, max: 5, step: 0.05, default: 0.2, unit: 'Hz' },
+    },
+  },
+  lowPass: {
+    label: 'Low-pass',
+    params: {
+      smoothing: { label: 'Smoothing', min: 1, max: 100, step: 1, default: 20 },
+    },
+  },
+};
+
+/** Track time played per unit of wall-clock time under these filters. */
+export function filtersPlaybackRate(filters: AudioFilters): number {
+  const timescale = filters.timescale;
+  return timescale ? timescale.speed * timescale.rate : 1;
+}
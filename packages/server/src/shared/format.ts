@@ -1,5 +1,50 @@
+import type { SongSegmentInput } from './types';
+
 export function formatDuration(seconds: number): string {
   const m = Math.floor(seconds / 60);
   const s = seconds % 60;
   return `${m}:${s.toString().padStart(2, '0')}`;
 }
+
+/**
+ * Parses a "m:ss" or "h:mm:ss" timestamp (or plain seconds) into seconds.
+ * Returns null if it doesn't parse.
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = /^(?:(?:(\d+):)?(\d+):)?(\d+)$/.exec(value.trim());
+  if (!match) return null;
+  const [hours, minutes, seconds] = [match[1], match[2], match[3]].map((part) => Number(part ?? 0));
+  if (match[2] !== undefined && seconds > 59) return null;
+  if (match[1] !== undefined && minutes > 59) return null;
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// A chapter line: a timestamp, optionally in brackets or after a bullet, then
+// the title, e.g. "00:00 Intro", "[1:02:03] - Night Market".
+const CHAPTER_LINE = /^\s*(?:[-*•]\s*)?[[(]?((?:\d+:)?\d+:\d{2})[\])]?\s*[-–—:|]?\s*(.+?)\s*$/;
+
+/**
+ * Parses a YouTube-style chapter list ("00:00 Title", one per line) into
+ * segments. Each chapter runs until the next one starts; the last runs to
+ * the end of the video. Lines without a leading timestamp, and chapters
+ * starting past `durationSec`, are ignored.
+ */
+export function parseChapters(text: string, durationSec: number): SongSegmentInput[] {
+  const chapters: { title: string; startSec: number }[] = [];
+  for (const line of text.split('\n')) {
+    const match = CHAPTER_LINE.exec(line);
+    if (!match) continue;
+    const startSec = parseTimestamp(match[1]);
+    if (startSec === null || startSec >= durationSec) continue;
+    chapters.push({ title: match[2], startSec });
+  }
+  chapters.sort((a, b) => a.startSec - b.startSec);
+
+  return chapters
+    .filter((chapter, i) => i === 0 || chapter.startSec !== chapters[i - 1].startSec)
+    .map((chapter, i, list) => ({
+      title: chapter.title,
+      startOffsetMs: chapter.startSec * 1000,
+      endOffsetMs: i + 1 < list.length ? list[i + 1].startSec * 1000 : null,
+    }));
+}
@@ -1,16 +1,38 @@
 export * from './api';
-export { formatDuration } from './format';
-export { toQueuedSong } from './queue';
-export { fisherYatesShuffle } from './shuffle';
+export { AUDIO_FILTER_SPECS, type AudioFilterName, filtersPlaybackRate } from './filters';
+export { formatDuration, parseChapters, parseTimestamp } from './format';
+export { activeLyricIndex, parseLyrics } from './lyrics';
+export { BUILT_IN_PRESETS, DEFAULT_AUDIO_PROFILE } from './presets';
+export { playbackBoost, toQueuedSong, trimmedDuration } from './queue';
+export { fisherYatesShuffle, spreadShuffle } from './shuffle';
 export type {
+  AudioFilters,
+  AudioPreset,
+  AudioProfile,
+  AvailabilityStatus,
   CompressorSettings,
+  FadeSettings,
   LoopMode,
+  LyricLine,
+  NormalizationStatus,
   PaginatedResult,
   PaginationMeta,
+  PauseReason,
+  PlayHistoryEntry,
+  PlaybackSchedule,
   Playlist,
   PlaylistDetail,
   QueuedSong,
+  QueueList,
+  QueueSaveResult,
   QueueState,
+  SavedSession,
+  SleepAction,
+  SleepTimer,
   Song,
+  SongLyrics,
+  SongSegmentInput,
   User,
+  UserGuild,
+  VoiceChannel,
 } from './types';
@@ -0,0 +1,66 @@
+import type { LyricLine } from './types';
+
+// One or more leading LRC time tags ("[01:02.50]"), then the line's text.
+const TIMED_LINE = /^((?:\[\d+:\d{1,2}(?:[.:]\d{1,3})?\]\s*)+)(.*)$/;
+const TIME_TAG = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+// LRC header tags. Only these are dropped, so "[Chorus]" or "[Intro: Sam]"
+// in plain lyrics stay as they are.
+const HEADER_TAG = /^\[(ar|al|ti|au|by|length|offset|re|tool|ve|#):(.*)\]$/i;
+
+/**
+ * Parses lyrics pasted or uploaded as plain text or LRC. Synced (LRC)
+ * lyrics come back with a time for each line, in time order, with the
+ * file's `[offset:]` applied; lines without a time tag are dropped. Plain
+ * text comes back line by line with `timeMs` null.
+ */
+export function parseLyrics(text: string): { synced: boolean; lines: LyricLine[] } {
+  const timed: LyricLine[] = [];
+  const plain: LyricLine[] = [];
+  let offsetMs = 0;
+
+  for (const raw of text.replace(/\r/g, '').split('\n')) {
+    const line = raw.trim();
+    const timedMatch = TIMED_LINE.exec(line);
+    if (timedMatch) {
+      for (const tag of timedMatch[1].matchAll(TIME_TAG)) {
+        const fractionMs = tag[3] ? Number(tag[3].padEnd(3, '0')) : 0;
+        const timeMs = Number(tag[1]) * 60_000 + Number(tag[2]) * 1000 + fractionMs;
+        timed.push({ timeMs, text: timedMatch[2].trim() });
+      }
+      continue;
+    }
+    const header = HEADER_TAG.exec(line);
+    if (header) {
+      if (header[1].toLowerCase() === 'offset') offsetMs = Number(header[2]) || 0;
+      continue;
+    }
+    plain.push({ timeMs: null, text: line });
+  }
+
+  if (timed.length === 0) {
+    // Drop blank lines at either end; blank lines between verses stay.
+    while (plain.length > 0 && plain[0].text === '') plain.shift();
+    while (plain.length > 0 && plain[plain.length - 1].text === '') plain.pop();
+    return { synced: false, lines: plain };
+  }
+
+  // A positive offset shows lines earlier.
+  const lines = timed
+    .map((line) => ({ ...line, timeMs: Math.max(0, (line.timeMs ?? 0) - offsetMs) }))
+    .sort((a, b) => a.timeMs - b.timeMs);
+  return { synced: true, lines };
+}
+
+/**
+ * Index of the line being sung at `positionMs` in synced lyrics: the last
+ * line whose time has passed, or -1 before the first.
+ */
+export function activeLyricIndex(lines: LyricLine[], positionMs: number): number {
+  let active = -1;
+  for (let i = 0; i < lines.length; i++) {
+    const timeMs = lines[i].timeMs;
+    if (timeMs === null || timeMs > positionMs) break;
+    active = i;
+  }
+  return active;
+}
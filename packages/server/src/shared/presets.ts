@@ -0,0 +1,66 @@
+import type { AudioPreset, AudioProfile, CompressorSettings } from './types';
+
+// Same as the guildSettings column defaults.
+const COMPRESSOR_OFF: CompressorSettings = {
+  enabled: false,
+  threshold: -6,
+  ratio: 4,
+  attack: 5,
+  release: 50,
+  gain: 3,
+};
+
+/** Audio settings of a guild that hasn't changed any: flat EQ, no compressor or filters. */
+export const DEFAULT_AUDIO_PROFILE: AudioProfile = {
+  bands: Array<number>(15).fill(50),
+  compressor: COMPRESSOR_OFF,
+  filters: {},
+};
+
+/**
+ * Presets every guild has. Bands run from 25 Hz to 16 kHz, as in the
+ * equalizer; ids are prefixed "builtin:" so they can't clash with saved ones.
+ */
+export const BUILT_IN_PRESETS: AudioPreset[] = [
+  {
+    id: 'builtin:flat',
+    name: 'Flat',
+    builtIn: true,
+    profile: DEFAULT_AUDIO_PROFILE,
+    createdAt: null,
+  },
+  {
+    id: 'builtin:bass-boost',
+    name: 'Bass Boost',
+    builtIn: true,
+    profile: {
+      bands: [75, 72, 68, 62, 56, 52, 50, 50, 50, 50, 50, 50, 50, 50, 50],
+      compressor: COMPRESSOR_OFF,
+      filters: {},
+    },
+    createdAt: null,
+  },
+  {
+    id: 'builtin:vocal',
+    name: 'Vocal',
+    builtIn: true,
+    profile: {
+      bands: [40, 42, 44, 46, 48, 52, 56, 60, 64, 64, 60, 56, 52, 50, 48],
+      compressor: { enabled: true, threshold: -18, ratio: 3, attack: 10, release: 100, gain: 4 },
+      filters: {},
+    },
+    createdAt: null,
+  },
+  {
+    // Evens out loud and quiet passages and takes the edge off the low end.
+    id: 'builtin:night-mode',
+    name: 'Night Mode',
+    builtIn: true,
+    profile: {
+      bands: [38, 40, 42, 45, 48, 50, 50, 50, 50, 50, 50, 50, 48, 46, 44],
+      compressor: { enabled: true, threshold: -30, ratio: 8, attack: 5, release: 200, gain: 8 },
+      filters: {},
+    },
+    createdAt: null,
+  },
+];
@@ -1,14 +1,40 @@
 import type { QueuedSong, Song } from './types';
 
+/**
+ * Length of a song in seconds once its start and end offsets are trimmed off.
+ */
+export function trimmedDuration(
+  song: Pick<Song, 'duration' | 'startOffsetMs' | 'endOffsetMs'>
+): number {
+  const startMs = song.startOffsetMs ?? 0;
+  const endMs = song.endOffsetMs ?? song.duration * 1000;
+  return Math.max(0, Math.round((endMs - startMs) / 1000));
+}
+
+/**
+ * Volume boost a song plays with: its loudness-normalization gain (unless
+ * turned off for the song) plus the manual volumeBoost on top, kept inside
+ * the -100 to +200 range NodeLink's volume allows.
+ */
+export function playbackBoost(
+  song: Pick<Song, 'volumeBoost' | 'normalizationGain' | 'normalize'>
+): number {
+  const gain = song.normalize !== false ? (song.normalizationGain ?? 0) : 0;
+  return Math.min(200, Math.max(-100, gain + (song.volumeBoost ?? 0)));
+}
+
 /**
  * Converts a Song (database record) into a QueuedSong by attaching the
  * Discord member's display name as `requestedBy`.
  *
  * This is used at queue-time to preserve who added the song to the queue.
+ * The queued song's `duration` is the trimmed length, so everything that
+ * times playback sees the part that actually plays.
  */
 export function toQueuedSong(song: Song, requestedBy: string): QueuedSong {
   return {
     ...song,
+    duration: trimmedDuration(song),
     requestedBy,
   };
 }
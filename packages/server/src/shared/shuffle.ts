@@ -8,3 +8,44 @@ export function fisherYatesShuffle<T>(arr: T[]): void {
     [arr[i], arr[j]] = [arr[j], arr[i]];
   }
 }
+
+// How many of the latest picks a new pick is kept apart from.
+const SPREAD_WINDOW = 4;
+
+/**
+ * Shuffle that keeps items sharing a key (an artist, say) apart. Items are
+ * taken in random order, each time picking the first one that clashes least
+ * with the last few picks; a clash counts for more the closer it is. `recent`
+ * are the items just before, oldest first, so the shuffle doesn't open with
+ * a clash. Returns a new array.
+ */
+export function spreadShuffle<T>(items: T[], keysOf: (item: T) => string[], recent: T[] = []): T[] {
+  const pool = items.map((item) => ({ item, keys: keysOf(item) }));
+  fisherYatesShuffle(pool);
+  const tail = recent.slice(-SPREAD_WINDOW).map(keysOf);
+  const result: T[] = [];
+
+  while (pool.length > 0) {
+    let best = 0;
+    let bestClash = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < pool.length && bestClash > 0; i++) {
+      let clash = 0;
+      tail.forEach((earlier, age) => {
+        // The latest pick weighs SPREAD_WINDOW, the oldest one less.
+        const weight = SPREAD_WINDOW - (tail.length - 1 - age);
+        clash += weight * pool[i].keys.filter((key) => earlier.includes(key)).length;
+      });
+      if (clash < bestClash) {
+        best = i;
+        bestClash = clash;
+      }
+    }
+
+    const [picked] = pool.splice(best, 1);
+    result.push(picked.item);
+    tail.push(picked.keys);
+    if (tail.length > SPREAD_WINDOW) tail.shift();
+  }
+
+  return result;
+}
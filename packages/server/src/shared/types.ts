@@ -27,6 +27,16 @@ export interface Song {
   artwork?: string | null;
   tags?: string[];
   volumeBoost?: number | null;
+  startOffsetMs?: number | null; // Playback starts here instead of at 0
+  endOffsetMs?: number | null; // Playback ends here instead of at the end of the video
+  parentSongId?: string | null; // Set on segments: the song whose video this is a stretch of
+  loudnessLufs?: number | null; // Measured integrated loudness, null until analysed
+  normalizationGain?: number | null; // Boost (like volumeBoost) that reaches the target loudness
+  normalize?: boolean; // false leaves the song out of loudness normalization
+  audioPresetId?: string | null; // Audio preset it always plays with, over playlist and tag ones
+  unavailableAt?: string | null; // Since when its video won't load; null while it plays fine
+  unavailableReason?: string | null; // Why it won't load, as NodeLink reported it
+  availabilityCheckedAt?: string | null; // Last availability scan of its video
   createdAt: string; // ISO 8601 string (JSON wire format)
 }
 
@@ -41,19 +51,36 @@ export interface Tag {
   nameLower: string;
   canonicalName: string;
   color?: string | null;
+  audioPresetId?: string | null; // Audio preset for songs with this tag
   createdAt: string; // ISO 8601 string
 }
 
+// ---------------------------------------------------------------------------
+// SongSegmentInput
+//
+// One segment to create on a song, e.g. from a pasted chapter list (see
+// parseChapters). A null end runs to the end of the video.
+// ---------------------------------------------------------------------------
+export interface SongSegmentInput {
+  title: string;
+  startOffsetMs: number;
+  endOffsetMs: number | null;
+}
+
 // ---------------------------------------------------------------------------
 // QueuedSong
 //
 // A Song that has been placed into the GuildPlayer's queue. Extends Song with
 // requestedBy (the display name of the Discord member who queued it), which
-// is a runtime property that is never persisted to the database.
+// is a runtime property that is never persisted to the database. Its duration
+// is the trimmed length (see toQueuedSong).
 // ---------------------------------------------------------------------------
 export interface QueuedSong extends Song {
   requestedBy: string;
   isSeekable?: boolean;
+  autoplayed?: boolean; // Picked by autoplay when the queue ran out
+  playlistId?: string; // Library playlist it was queued from, for the playlist's audio preset
+  fairRound?: number; // Up Next round (0-based) while fair queue is on; set in QueueState only
 }
 
 // ---------------------------------------------------------------------------
@@ -65,6 +92,88 @@ export interface QueuedSong extends Song {
 // ---------------------------------------------------------------------------
 export type LoopMode = 'off' | 'song' | 'queue';
 
+// ---------------------------------------------------------------------------
+// PauseReason
+//
+// user          — Paused from the web UI, a slash command or a button.
+// channel-empty — Auto-paused because the last listener left the bot's voice
+//                 channel. Playback resumes when someone rejoins.
+// ---------------------------------------------------------------------------
+export type PauseReason = 'user' | 'channel-empty';
+
+// ---------------------------------------------------------------------------
+// QueueList
+//
+// Which list a queue edit applies to: QueueState.queue or
+// QueueState.priorityQueue (Up Next). Indices are positions in that list.
+// ---------------------------------------------------------------------------
+export type QueueList = 'queue' | 'priority';
+
+// ---------------------------------------------------------------------------
+// SleepTimer
+//
+// A timer set in minutes counts playing time only: it is held (endsAt null,
+// remainingMs set) while paused or idle. One set for a clock time fires at
+// endsAt whatever the player is doing.
+//
+// stop  — Playback pauses; the queue stays and the idle auto-leave applies.
+// leave — Playback stops, the queue is cleared and the bot leaves voice.
+// ---------------------------------------------------------------------------
+export type SleepAction = 'stop' | 'leave';
+
+export interface SleepTimer {
+  action: SleepAction;
+  fadeOut: boolean; // Fade out over the last few seconds before acting
+  endsAt: number | null; // Unix ms when the timer fires, null while held
+  remainingMs: number | null; // Time left on a held timer, null while running
+}
+
+// ---------------------------------------------------------------------------
+// NormalizationStatus
+//
+// Progress of the library loudness analysis started by "normalize library".
+// Songs added later are analysed on their own and don't count here.
+// ---------------------------------------------------------------------------
+export interface NormalizationStatus {
+  running: boolean;
+  total: number; // Songs in the current (or last) run
+  done: number;
+  failed: number;
+  unanalysed: number; // Library songs with no measurement yet
+}
+
+// ---------------------------------------------------------------------------
+// SongLyrics
+//
+// A song's lyrics as uploaded, plain text or LRC. Returned by
+// GET /api/songs/:id/lyrics; parse `text` with parseLyrics for display.
+// ---------------------------------------------------------------------------
+export interface SongLyrics {
+  songId: string;
+  text: string;
+  synced: boolean; // True when `text` is LRC with line timestamps
+  updatedAt: string; // ISO 8601
+}
+
+export interface LyricLine {
+  timeMs: number | null; // When the line starts, from the start of the track; null in plain lyrics
+  text: string; // Empty for a blank line or an instrumental gap
+}
+
+// ---------------------------------------------------------------------------
+// AvailabilityStatus
+//
+// Progress of the library availability scan, which re-resolves every song's
+// video through NodeLink. Returned by GET /api/songs/availability
+// ---------------------------------------------------------------------------
+export interface AvailabilityStatus {
+  running: boolean;
+  total: number; // Videos in the current (or last) scan
+  done: number;
+  unavailable: number; // Library songs currently marked unavailable
+  lastCheckedAt: string | null; // Most recent check of any song, null if never scanned
+}
+
 // ---------------------------------------------------------------------------
 // CompressorSettings
 //
@@ -88,15 +197,62 @@ export interface EqualizerSettings {
   bands: number[]; // length 15, values 0–100, 50 = neutral (0 dB)
 }
 
+// ---------------------------------------------------------------------------
+// AudioFilters
+//
+// Guild-level NodeLink filters beyond the compressor and equalizer. A filter
+// is on when its key is present. Parameter ranges are in AUDIO_FILTER_SPECS.
+// ---------------------------------------------------------------------------
+export interface AudioFilters {
+  timescale?: { speed: number; pitch: number; rate: number };
+  karaoke?: { level: number; monoLevel: number; filterBand: number; filterWidth: number };
+  tremolo?: { frequency: number; depth: number };
+  vibrato?: { frequency: number; depth: number };
+  rotation?: { rotationHz: number };
+  lowPass?: { smoothing: number };
+}
+
+// ---------------------------------------------------------------------------
+// AudioProfile / AudioPreset
+//
+// Everything the equalizer, compressor and extended filters are set to, saved
+// under a name. Built-in presets (id prefixed "builtin:") live in code and
+// can't be renamed or deleted. Returned by GET /api/guilds/:guildId/settings/presets
+// ---------------------------------------------------------------------------
+export interface AudioProfile {
+  bands: number[]; // length 15, values 0–100, 50 = neutral (0 dB)
+  compressor: CompressorSettings;
+  filters: AudioFilters;
+}
+
+export interface AudioPreset {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  profile: AudioProfile;
+  createdAt: string | null; // ISO 8601 string; null for built-in presets
+}
+
+// ---------------------------------------------------------------------------
+// FadeSettings
+//
+// Guild-level fade for track transitions: tracks fade in and out over fadeMs,
+// and skip/stop/pause fade out over at most 2 seconds. 0 turns fades off.
+// ---------------------------------------------------------------------------
+export interface FadeSettings {
+  fadeMs: number; // 0–10000
+}
+
 // ---------------------------------------------------------------------------
 // QueueState
 //
 // A snapshot of the GuildPlayer's current state. This is the payload for
-// GET /api/player/queue and the player:update event.
+// GET /api/guilds/:guildId/player/queue and the player:update event.
 // ---------------------------------------------------------------------------
 export interface QueueState {
   isPlaying: boolean;
   isPaused: boolean;
+  pauseReason: PauseReason | null; // Why playback is paused, null when not paused
   isConnectedToVoice: boolean; // True when bot is connected to a voice channel
   loopMode: LoopMode;
   isShuffled: boolean;
@@ -105,9 +261,76 @@ export interface QueueState {
   queue: QueuedSong[];
   trackStartedAt: number | null; // Unix ms timestamp, null when not playing
   nextTrack: QueuedSong | null; // The next track being preloaded for gapless playback
+  autoplay: boolean; // Keep playing related library songs when the queue runs out
+  fairQueue: boolean; // Up Next plays round-robin by requester
+  smartShuffle: boolean; // Shuffles keep songs by the same artist, album or dominant tag apart
+  playbackRate: number; // Track time per wall-clock time (timescale speed × rate), 1 normally
+  masterVolume: number; // Guild volume in percent (0 to 200), applied on top of each song's boost
+  sleepTimer: SleepTimer | null;
+  stopAfterTracks: number | null; // Playback stops after this many more tracks end (1 = this one)
+  savedSession: SavedSession | null; // Session saved before the last restart, until restored or dismissed
   compressorSettings?: CompressorSettings | null;
 }
 
+// ---------------------------------------------------------------------------
+// SavedSession
+//
+// Summary of a player session persisted before the server last stopped. It
+// is offered for restore until someone restores it, dismisses it, or starts
+// new playback in that guild.
+// ---------------------------------------------------------------------------
+export interface SavedSession {
+  savedAt: number; // Unix ms timestamp of the last snapshot
+  currentSong: QueuedSong | null;
+  positionMs: number; // Playback position within currentSong
+  queueLength: number; // Up Next + remaining queue
+}
+
+// ---------------------------------------------------------------------------
+// PlayHistoryEntry
+//
+// One track played in a guild. Returned by GET /api/guilds/:guildId/player/history
+// ---------------------------------------------------------------------------
+export interface PlayHistoryEntry {
+  id: string;
+  songId: string | null; // null for quick-added tracks that aren't in the library
+  title: string;
+  youtubeUrl: string;
+  thumbnailUrl: string;
+  duration: number; // seconds
+  requestedBy: string; // Display name of the member who queued it
+  startedAt: string; // ISO 8601 string
+  playedMs: number | null; // null while the track is still playing
+  skipped: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// PlaybackSchedule
+//
+// A weekly job that joins a voice channel and starts a playlist. Returned by
+// GET /api/guilds/:guildId/settings/schedules
+// ---------------------------------------------------------------------------
+export interface PlaybackSchedule {
+  id: string;
+  voiceChannelId: string;
+  playlistId: string;
+  playlistName: string | null; // null once the playlist has been deleted
+  mode: 'sequential' | 'random';
+  loopMode: LoopMode;
+  days: number[]; // 0 (Sunday) to 6
+  time: string; // HH:MM, 24-hour, in timeZone
+  timeZone: string; // IANA zone, e.g. Europe/Berlin
+  enabled: boolean;
+  lastRunAt: string | null; // ISO 8601 string
+  createdAt: string; // ISO 8601 string
+}
+
+/** A voice channel schedules can target. */
+export interface VoiceChannel {
+  id: string;
+  name: string;
+}
+
 // ---------------------------------------------------------------------------
 // Playlist / PlaylistSong
 //
@@ -119,11 +342,20 @@ export interface Playlist {
   createdBy: string;
   createdByDisplayName?: string;
   isPrivate: boolean;
+  audioPresetId?: string | null; // Audio preset for songs queued from this playlist
   createdAt: string; // ISO 8601 string (JSON wire format)
   songs?: PlaylistSong[];
   _count?: { songs: number };
 }
 
+// Result of POST /api/guilds/:guildId/player/queue/save
+export interface QueueSaveResult {
+  playlist: Playlist;
+  added: number;
+  moved: number; // Songs already in the playlist moved to their place in the queue (dedupe off)
+  skipped: number; // Queued songs left out: not in the library, repeated, or already in the playlist
+}
+
 export interface PlaylistSong {
   id: string;
   playlistId: string;
@@ -160,10 +392,21 @@ export interface PaginatedResult<T> {
 // User
 //
 // Represents an authenticated Discord user. Returned by GET /auth/me
+//
+// `guilds` lists the configured guilds the user is a member of; `isAdmin` is
+// true if the user holds an admin role in any of them.
 // ---------------------------------------------------------------------------
+export interface UserGuild {
+  id: string;
+  name: string;
+  iconUrl: string | null;
+  isAdmin: boolean;
+}
+
 export interface User {
   discordId: string;
   username: string;
   avatar: string | null;
   isAdmin: boolean;
+  guilds: UserGuild[];
 }
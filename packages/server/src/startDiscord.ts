@@ -1,4 +1,7 @@
 import { Client, createEvent } from 'seyfert';
+import { handleNowPlayingButton } from './commands/nowPlayingButtons';
+import { playerCommands } from './commands/player';
+import { isNowPlayingButtonId, syncNowPlayingMessage } from './lib/nowPlaying';
 import { emitPlayerUpdate } from './lib/socket';
 import { getPlayer } from './manager';
 import type { QueueState } from './shared';
@@ -6,7 +9,7 @@ import { logger } from './shared/logger';
 
 export type { DestroyReasons } from 'hoshimi';
 export type { GuildPlayer } from './GuildPlayer';
-export { createPlayer, destroyAllPlayers, getPlayer } from './manager';
+export { createPlayer, destroyAllPlayers, getPlayer, persistAllPlayers } from './manager';
 export {
   getMetadata,
   getPlaylistMetadataWithVideos,
@@ -48,9 +51,11 @@ export function getHoshimi(): Hoshimi | null {
 
 /**
  * Called by GuildPlayer after every state-changing operation.
+ * Updates web clients and the Discord now-playing message.
  */
-export function broadcastQueueUpdate(state: QueueState): void {
-  emitPlayerUpdate(state);
+export function broadcastQueueUpdate(guildId: string, state: QueueState): void {
+  emitPlayerUpdate(guildId, state);
+  syncNowPlayingMessage(guildId, state);
 }
 
 // ---------------------------------------------------------------------------
@@ -85,14 +90,14 @@ const rawEvent = createEvent({
       const isBot = d.member?.user?.bot === true;
 
       // Update human voice membership tracking.
-      // For disconnects (channelId === null), we rely on the member data being present
-      // in the raw payload before cache updates.
-      if (channelId === null) {
-        // User left a channel - remove from all channel tracking.
-        for (const [_chId, members] of humanVoiceMembers) {
-          members.delete(userId);
-        }
-      } else if (!isBot) {
+      // A user is in at most one channel, so drop them everywhere first; this
+      // covers both disconnects (channelId === null) and moves between channels.
+      // For disconnects, we rely on the member data being present in the raw
+      // payload before cache updates.
+      for (const [_chId, members] of humanVoiceMembers) {
+        members.delete(userId);
+      }
+      if (channelId !== null && !isBot) {
         // Non-bot user joined or stayed in a channel.
         let members = humanVoiceMembers.get(channelId);
         if (!members) {
@@ -105,14 +110,12 @@ const rawEvent = createEvent({
   },
 });
 
-// Auto-pause: when all humans leave the bot's voice channel.
+// Auto-pause when all humans leave the bot's voice channel, and auto-resume
+// when the first one comes back (before the idle timer makes the bot leave).
 const voiceStateUpdateEvent = createEvent({
   data: { name: 'voiceStateUpdate' as const },
-  run(state, oldState, _client) {
-    // Seyfert passes [state] or [state, oldState]; destructure appropriately.
-    const currentState = Array.isArray(state) ? state[0] : state;
-    const previousState = Array.isArray(state) ? state[1] : oldState;
-
+  // Seyfert calls run(data, client, shardId), with data [state] or [state, oldState].
+  run([currentState, previousState], client) {
     // Ignore if both old and new state have no channel change.
     const oldChannelId = (previousState as { channelId: string | null } | undefined)?.channelId;
     const newChannelId = (currentState as { channelId: string | null }).channelId;
@@ -132,16 +135,28 @@ const voiceStateUpdateEvent = createEvent({
     const botChannelId = player.voiceId;
     if (!botChannelId) return;
 
+    const userId = (currentState as { userId: string }).userId;
+
+    // Someone joined the bot's channel: resume if we paused because it was empty.
+    if (newChannelId === botChannelId) {
+      const joinedMember = (currentState as { member?: { user?: { bot?: boolean } } }).member;
+      if (userId === client.botId || joinedMember?.user?.bot === true) return;
+
+      const guildPlayer = getPlayer(guildId);
+      if (guildPlayer?.autoResume()) {
+        logger.info({ guildId }, "Auto-resumed: a listener rejoined the bot's voice channel.");
+      }
+      return;
+    }
+
     // Check if someone left the bot's channel.
-    const leftBotChannel = oldChannelId === botChannelId && newChannelId !== botChannelId;
+    const leftBotChannel = oldChannelId === botChannelId;
     if (!leftBotChannel) return;
 
     // Determine if the leaving user was a human.
     // The raw event may have added them to humanVoiceMembers. If not found there,
     // we check via the member's user object.
-    let wasHuman =
-      humanVoiceMembers.get(botChannelId)?.has((currentState as { userId: string }).userId) ??
-      false;
+    let wasHuman = humanVoiceMembers.get(botChannelId)?.has(userId) ?? false;
     const previousStateWithMember = previousState as
       | { member?: { user?: { bot?: boolean } } }
       | undefined;
@@ -157,14 +172,27 @@ const voiceStateUpdateEvent = createEvent({
 
     if (humanCount === 0) {
       const guildPlayer = getPlayer(guildId);
-      if (guildPlayer?.getCurrentSong() && guildPlayer.isPlaying()) {
-        guildPlayer.togglePause();
+      if (guildPlayer?.autoPause()) {
         logger.info({ guildId }, "Auto-paused: no humans left in the bot's voice channel.");
       }
     }
   },
 });
 
+// Route clicks on the now-playing message's control buttons.
+const interactionCreateEvent = createEvent({
+  data: { name: 'interactionCreate' as const },
+  async run(interaction, _client) {
+    if (!interaction) return;
+    if (!interaction.isButton() || !isNowPlayingButtonId(interaction.customId)) return;
+    try {
+      await handleNowPlayingButton(interaction, interaction.customId);
+    } catch (err) {
+      logger.error({ err, customId: interaction.customId }, 'Now-playing button failed');
+    }
+  },
+});
+
 const readyEvent = createEvent({
   data: { name: 'ready' as const, once: true },
   run(user, _client) {
@@ -189,7 +217,7 @@ export async function startDiscord(): Promise<void> {
 
   const client = new Client({
     // Provide a minimal getRC to avoid needing a seyfert.config file.
-    // Locations are empty since we set events programmatically.
+    // Locations are empty since we set events and commands programmatically.
     getRC: async () => ({
       token: DISCORD_BOT_TOKEN,
       locations: { base: '' },
@@ -230,5 +258,11 @@ export async function startDiscord(): Promise<void> {
 
   // Register events after start.
   // biome-ignore lint/suspicious/noExplicitAny: createEvent return has `once?: boolean` but ClientEvent needs `once: boolean`; values are correct at runtime
-  client.events.set([readyEvent, rawEvent, voiceStateUpdateEvent] as any);
+  client.events.set([readyEvent, rawEvent, voiceStateUpdateEvent, interactionCreateEvent] as any);
+
+  // Register slash commands programmatically (no commands location in getRC)
+  // and sync them with Discord. They are declared as guild commands, so
+  // changes show up immediately instead of waiting on global propagation.
+  client.commands.set(playerCommands);
+  await client.uploadCommands();
 }
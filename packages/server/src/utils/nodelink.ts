@@ -164,6 +164,49 @@ export async function getStreamFormat(
   return { track: data.encoded, isWebmOpus: true };
 }
 
+/**
+ * Whether a URL still resolves to a playable track: null if it does, or why
+ * it doesn't. Throws when NodeLink itself can't be reached, so callers can
+ * tell an outage apart from a video that's gone.
+ */
+export async function checkTrackAvailability(youtubeUrl: string): Promise<string | null> {
+  const response = await restRequest<LoadTrackResponse>(
+    `/v4/loadtracks?identifier=${encodeURIComponent(youtubeUrl)}`
+  );
+  if (response.loadType === 'error' || response.exception) {
+    return response.exception?.message ?? 'NodeLink could not load the track';
+  }
+  if (!response.data?.encoded && !response.data?.tracks?.[0]?.encoded) {
+    return 'No playable track found at this URL';
+  }
+  return null;
+}
+
+/** Sample rate and channel count of the PCM NodeLink's loadstream endpoint sends. */
+export const PCM_SAMPLE_RATE = 48_000;
+export const PCM_CHANNELS = 2;
+
+/**
+ * Streams a track's decoded audio from `positionMs` on, as interleaved 16-bit
+ * little-endian PCM. Needs `enableLoadStreamEndpoint` in the NodeLink config.
+ */
+export async function streamTrackAudio(
+  encoded: string,
+  positionMs = 0
+): Promise<ReadableStream<Uint8Array>> {
+  const headers: { Authorization?: string } = {};
+  if (NODELINK_AUTH) headers.Authorization = NODELINK_AUTH;
+
+  const params = new URLSearchParams({ encodedTrack: encoded });
+  if (positionMs > 0) params.set('position', String(Math.round(positionMs)));
+  const response = await fetch(`${NODELINK_URL}/v4/loadstream?${params}`, { headers });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`NodeLink loadstream ${response.status}: ${await response.text()}`);
+  }
+  return response.body;
+}
+
 export async function getPlaylistMetadataWithVideos(
   playlistUrl: string,
   maxVideos?: number
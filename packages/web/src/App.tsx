@@ -4,6 +4,7 @@ import ProtectedRoute from './components/ProtectedRoute';
 import SettingsPage from './components/settings/SettingsPage';
 import { AdminViewProvider } from './context/AdminViewContext';
 import { AuthProvider } from './context/AuthContext';
+import { GuildProvider } from './context/GuildContext';
 import { NotificationProvider } from './context/NotificationContext';
 import { PlayerProvider } from './context/PlayerContext';
 import { SongEditProvider } from './context/SongEditContext';
@@ -19,33 +20,35 @@ export default function App() {
     <ThemeProvider>
       <TagsProvider>
         <AuthProvider>
-          <AdminViewProvider>
-            <NotificationProvider>
-              <SongEditProvider>
-                <Routes>
-                  <Route path="/login" element={<LoginPage />} />
-                  <Route
-                    path="/"
-                    element={
-                      <ProtectedRoute>
-                        {/* PlayerProvider lives inside ProtectedRoute so it only polls while a user is authenticated. */}
-                        <PlayerProvider>
-                          <Layout />
-                        </PlayerProvider>
-                      </ProtectedRoute>
-                    }
-                  >
-                    <Route index element={<Navigate to="/songs" replace />} />
-                    <Route path="songs" element={<SongsPage />} />
-                    <Route path="playlists" element={<PlaylistsPage />} />
-                    <Route path="playlists/:id" element={<PlaylistDetailPage />} />
-                    <Route path="settings" element={<SettingsPage />} />
-                  </Route>
-                  <Route path="*" element={<Navigate to="/" replace />} />
-                </Routes>
-              </SongEditProvider>
-            </NotificationProvider>
-          </AdminViewProvider>
+          <GuildProvider>
+            <AdminViewProvider>
+              <NotificationProvider>
+                <SongEditProvider>
+                  <Routes>
+                    <Route path="/login" element={<LoginPage />} />
+                    <Route
+                      path="/"
+                      element={
+                        <ProtectedRoute>
+                          {/* PlayerProvider lives inside ProtectedRoute so it only polls while a user is authenticated. */}
+                          <PlayerProvider>
+                            <Layout />
+                          </PlayerProvider>
+                        </ProtectedRoute>
+                      }
+                    >
+                      <Route index element={<Navigate to="/songs" replace />} />
+                      <Route path="songs" element={<SongsPage />} />
+                      <Route path="playlists" element={<PlaylistsPage />} />
+                      <Route path="playlists/:id" element={<PlaylistDetailPage />} />
+                      <Route path="settings" element={<SettingsPage />} />
+                    </Route>
+                    <Route path="*" element={<Navigate to="/" replace />} />
+                  </Routes>
+                </SongEditProvider>
+              </NotificationProvider>
+            </AdminViewProvider>
+          </GuildProvider>
         </AuthProvider>
       </TagsProvider>
     </ThemeProvider>
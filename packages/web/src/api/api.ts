@@ -10,34 +10,66 @@ configureApiClient(client);
 export {
   addSongToPlaylist,
   addToPriorityQueue,
+  applyAudioPreset,
+  cancelSleepTimer,
   clearQueue,
+  createAudioPreset,
   createPlaylist,
+  createSchedule,
   createSong as addSong,
+  deleteAudioPreset,
   deletePlaylist,
+  deleteSchedule,
   deleteSong,
+  dismissSavedSession,
+  fetchAudioPresets as getAudioPresets,
+  fetchAvailabilityStatus as getAvailabilityStatus,
   fetchLogout as logout,
   // Auth
   fetchMe as getMe,
+  fetchNormalizationStatus as getNormalizationStatus,
+  fetchPlayHistoryPage as getPlayHistoryPage,
   fetchPlaylistPage as getPlaylistPage,
   // Playlists
   fetchPlaylists as getPlaylists,
   fetchPlaylistsPage as getPlaylistsPage,
   // Player
   fetchQueueState,
+  fetchSchedules as getSchedules,
   // Songs
   fetchSongsPage as getSongsPage,
+  fetchUnavailableSongs as getUnavailableSongs,
+  fetchVoiceChannels as getVoiceChannels,
   importPlaylist,
   leaveVoice,
+  moveQueueEntry,
+  normalizeLibrary,
   overridePlay,
+  previousTrack,
   quickAddPlaylistToQueue,
   quickAddToQueue,
+  removeQueueEntry,
   removeSongFromPlaylist,
+  renameAudioPreset,
   renamePlaylist,
+  replaceSongUrl,
+  restoreSession,
+  saveQueueAsPlaylist,
+  scanLibraryAvailability,
+  setAutoplay,
+  setFairQueue,
   setLoopMode,
+  setMasterVolume,
+  setPlaylistAudioPreset,
+  setScheduleEnabled,
+  setSleepTimer,
+  setSmartShuffle,
+  setStopAfterTracks,
   shuffleQueue,
   skipTrack,
   startPlayback,
   togglePause,
   togglePlaylistVisibility,
+  undoQueueChange,
   unshuffleQueue,
 } from '@alfira-bot/server/shared/api';
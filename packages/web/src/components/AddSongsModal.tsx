@@ -1,5 +1,5 @@
 import type { PlaylistDetail, Song } from '@alfira-bot/server/shared';
-import { formatDuration } from '@alfira-bot/server/shared';
+import { formatDuration, trimmedDuration } from '@alfira-bot/server/shared';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 import { addSongToPlaylist, getSongsPage } from '../api/api';
@@ -222,7 +222,7 @@ const SongRow = memo(function SongRow({
         {song.nickname || song.title}
       </span>
       <span className="font-mono text-xs text-muted hidden sm:block">
-        {formatDuration(song.duration)}
+        {formatDuration(trimmedDuration(song))}
       </span>
       <Button
         variant="inherit"
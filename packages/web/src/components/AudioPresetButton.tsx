@@ -0,0 +1,97 @@
+import type { AudioPreset } from '@alfira-bot/server/shared';
+import { SlidersHorizontalIcon } from '@phosphor-icons/react';
+import { memo, useRef, useState } from 'react';
+import { applyAudioPreset, getAudioPresets } from '../api/api';
+import { useNotification } from '../hooks/useNotification';
+import { apiErrorMessage } from '../utils/api';
+import { ContextMenu, type MenuItem } from './ContextMenu';
+import { Button } from './ui/Button';
+
+interface AudioPresetButtonProps {
+  disabled?: boolean;
+  surface?: 'base' | 'surface' | 'elevated';
+  /** Called after a preset has been applied, e.g. to reload the audio settings shown. */
+  onApplied?: () => void;
+}
+
+/**
+ * One-click switching between audio presets. The list is fetched each time
+ * the menu opens, so presets saved elsewhere show up straight away.
+ */
+export const AudioPresetButton = memo(function AudioPresetButton({
+  disabled = false,
+  surface = 'surface',
+  onApplied,
+}: AudioPresetButtonProps) {
+  const { notify } = useNotification();
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [presets, setPresets] = useState<AudioPreset[] | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  async function openMenu() {
+    setMenuOpen(true);
+    setPresets(null);
+    try {
+      setPresets(await getAudioPresets());
+    } catch (err: unknown) {
+      setMenuOpen(false);
+      notify(apiErrorMessage(err, 'Could not load presets.'), 'error', 5000);
+    }
+  }
+
+  async function handleApply(preset: AudioPreset) {
+    setApplying(true);
+    try {
+      await applyAudioPreset(preset.id);
+      setMenuOpen(false);
+      notify(`Applied "${preset.name}"`, 'success');
+      onApplied?.();
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not apply the preset.'), 'error', 5000);
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  const items: MenuItem[] =
+    presets === null
+      ? [{ id: 'loading', label: 'Loading…', disabled: true }]
+      : presets.map(
+          (preset, index): MenuItem => ({
+            id: preset.id,
+            label: preset.name,
+            icon: <SlidersHorizontalIcon size={14} weight="duotone" />,
+            disabled: applying,
+            // Saved presets follow the built-in ones.
+            separatorBefore: !preset.builtIn && index > 0 && presets[index - 1].builtIn,
+            onClick: () => void handleApply(preset),
+          })
+        );
+
+  return (
+    <>
+      <Button
+        ref={triggerRef}
+        variant="inherit"
+        surface={surface}
+        size="icon"
+        onClick={() => (menuOpen ? setMenuOpen(false) : void openMenu())}
+        disabled={disabled}
+        title="Audio presets"
+        className="shrink-0 disabled:opacity-50 text-black dark:text-white hover:text-fg"
+      >
+        <SlidersHorizontalIcon size={20} weight="duotone" className="md:w-4 md:h-4" />
+      </Button>
+      {menuOpen && (
+        <ContextMenu
+          items={items}
+          isOpen={menuOpen}
+          onClose={() => setMenuOpen(false)}
+          triggerRef={triggerRef}
+          align="right"
+        />
+      )}
+    </>
+  );
+});
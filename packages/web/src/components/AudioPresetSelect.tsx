@@ -0,0 +1,50 @@
+import type { AudioPreset } from '@alfira-bot/server/shared';
+
+interface AudioPresetSelectProps {
+  id: string;
+  /** Left out where the surrounding layout labels the field itself. */
+  label?: string;
+  value: string | null;
+  onChange: (presetId: string | null) => void;
+  presets: AudioPreset[];
+  /** Shown for "no preset": what the sound falls back to. */
+  emptyLabel: string;
+}
+
+/** Picks the audio preset a song, playlist or tag plays with. */
+export default function AudioPresetSelect({
+  id,
+  label,
+  value,
+  onChange,
+  presets,
+  emptyLabel,
+}: AudioPresetSelectProps) {
+  // A preset saved in another server can't be listed here, but stays attached.
+  const unknown = value !== null && !presets.some((preset) => preset.id === value);
+
+  return (
+    <div>
+      {label && (
+        <label htmlFor={id} className="block font-mono text-[10px] text-muted uppercase mb-1">
+          {label}
+        </label>
+      )}
+      <select
+        id={id}
+        aria-label={label ? undefined : 'Audio preset'}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="input text-sm w-full"
+      >
+        <option value="">{emptyLabel}</option>
+        {unknown && <option value={value}>Preset from another server</option>}
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
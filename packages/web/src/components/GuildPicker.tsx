@@ -0,0 +1,81 @@
+import type { UserGuild } from '@alfira-bot/server/shared';
+import { CaretUpDownIcon, CastleTurretIcon, CheckIcon } from '@phosphor-icons/react';
+import { useState } from 'react';
+import { useGuild } from '../context/GuildContext';
+
+interface GuildPickerProps {
+  collapsed?: boolean;
+  onClick?: () => void;
+}
+
+function GuildIcon({ guild }: { guild: UserGuild }) {
+  if (guild.iconUrl) {
+    return (
+      <img src={guild.iconUrl} alt="" className="w-6 h-6 shrink-0 rounded-full" decoding="async" />
+    );
+  }
+  return <CastleTurretIcon size={22} weight="duotone" className="shrink-0" />;
+}
+
+/**
+ * Switches which guild's player the UI controls. Hidden when the user shares
+ * only one guild with the bot.
+ */
+export default function GuildPicker({ collapsed = false, onClick }: GuildPickerProps) {
+  const { guilds, guild, selectGuild } = useGuild();
+  const [open, setOpen] = useState(false);
+
+  if (guilds.length < 2 || !guild) return null;
+
+  const handleSelect = (guildId: string) => {
+    selectGuild(guildId);
+    setOpen(false);
+    onClick?.();
+  };
+
+  return (
+    <div
+      className={collapsed ? 'flex flex-col items-center gap-1 px-2 pb-2' : 'px-3 pb-2 space-y-1'}
+    >
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        title={collapsed ? guild.name : undefined}
+        aria-expanded={open}
+        className={`flex items-center gap-3 rounded-xl font-body transition-all duration-150 cursor-pointer w-full ${
+          collapsed ? 'justify-center px-0 py-3' : 'px-3 py-3'
+        } ${open ? 'btn-inherit pressed' : 'btn-inherit'}`}
+        style={{ '--btn-surface': 'var(--color-elevated)' } as React.CSSProperties}
+      >
+        <GuildIcon guild={guild} />
+        {!collapsed && (
+          <>
+            <span className="mr-auto truncate">{guild.name}</span>
+            <CaretUpDownIcon size={18} weight="duotone" className="shrink-0" />
+          </>
+        )}
+      </button>
+
+      {open &&
+        guilds.map((g) => (
+          <button
+            key={g.id}
+            type="button"
+            onClick={() => handleSelect(g.id)}
+            title={collapsed ? g.name : undefined}
+            className={`flex items-center gap-3 rounded-lg font-body text-sm transition-colors duration-100 cursor-pointer w-full hover:bg-muted/20 ${
+              collapsed ? 'justify-center px-0 py-2' : 'px-3 py-2'
+            } ${g.id === guild.id ? 'text-accent' : 'text-fg'}`}
+          >
+            <GuildIcon guild={g} />
+            {!collapsed && (
+              <>
+                <span className="mr-auto truncate">{g.name}</span>
+                {g.id === guild.id && <CheckIcon size={16} weight="bold" className="shrink-0" />}
+              </>
+            )}
+          </button>
+        ))}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { useAdminView } from '../context/AdminViewContext';
 import { useAuth } from '../context/AuthContext';
 import { QueuePanelProvider, useQueuePanel } from '../context/QueuePanelContext';
 import { useConnectionStatus } from '../hooks/useSocket';
+import GuildPicker from './GuildPicker';
 import MobileNav from './MobileNav';
 import { NowPlayingBar } from './NowPlayingBar';
 import QueuePanel from './QueuePanel';
@@ -152,6 +153,9 @@ function LayoutContent() {
           </div>
         )}
 
+        {/* Guild picker (only with more than one guild) */}
+        <GuildPicker collapsed={collapsed} />
+
         {/* Settings Menu */}
         <SettingsMenu collapsed={collapsed} />
 
@@ -0,0 +1,111 @@
+import type { Song } from '@alfira-bot/server/shared';
+import { parseLyrics } from '@alfira-bot/server/shared';
+import { fetchSongLyrics, updateSongLyrics } from '@alfira-bot/server/shared/api';
+import { UploadSimpleIcon } from '@phosphor-icons/react';
+import { useEffect, useRef, useState } from 'react';
+import { useNotification } from '../hooks/useNotification';
+import { apiErrorMessage } from '../utils/api';
+import { Button } from './ui/Button';
+
+/**
+ * A song's lyrics, pasted or uploaded as plain text or an LRC file. Synced
+ * (LRC) lyrics scroll along with the track in the queue panel's Lyrics tab.
+ */
+export default function LyricsEditor({ song }: { song: Song }) {
+  const { notify } = useNotification();
+  const [saved, setSaved] = useState('');
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSongLyrics(song.id)
+      .then((lyrics) => {
+        if (cancelled) return;
+        setSaved(lyrics?.text ?? '');
+        setText(lyrics?.text ?? '');
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) notify(apiErrorMessage(err, 'Could not load lyrics.'), 'error', 5000);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [song.id, notify]);
+
+  const parsed = parseLyrics(text);
+
+  async function handleUpload(file: File | undefined) {
+    if (!file) return;
+    setText(await file.text());
+    if (fileRef.current) fileRef.current.value = '';
+  }
+
+  async function handleSave(lyrics: string | null) {
+    setSaving(true);
+    try {
+      const result = await updateSongLyrics(song.id, lyrics);
+      setSaved(result?.text ?? '');
+      setText(result?.text ?? '');
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not save lyrics.'), 'error', 5000);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div>
+      <label
+        htmlFor={`panel-lyrics-${song.id}`}
+        className="block font-mono text-[10px] text-muted uppercase mb-1"
+      >
+        Lyrics
+      </label>
+      <textarea
+        id={`panel-lyrics-${song.id}`}
+        className="input text-sm font-mono w-full min-h-32"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={'Paste plain lyrics or LRC:\n[00:12.00] First line\n[00:17.50] Second line'}
+      />
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".lrc,.txt,text/plain"
+        className="hidden"
+        onChange={(e) => handleUpload(e.target.files?.[0])}
+      />
+      <div className="flex items-center justify-end gap-3 mt-2">
+        {text.trim() !== '' && (
+          <span className="font-mono text-[11px] text-muted">
+            {parsed.synced ? 'synced' : 'plain'} · {parsed.lines.length} line
+            {parsed.lines.length === 1 ? '' : 's'}
+          </span>
+        )}
+        <Button variant="inherit" onClick={() => fileRef.current?.click()} disabled={saving}>
+          <UploadSimpleIcon size={12} weight="duotone" className="inline mr-1" />
+          Upload
+        </Button>
+        {saved !== '' && (
+          <Button
+            variant="inherit"
+            onClick={() => handleSave(null)}
+            disabled={saving}
+            className="hover:text-danger"
+          >
+            Remove
+          </Button>
+        )}
+        <Button
+          variant="primary"
+          onClick={() => handleSave(text)}
+          disabled={saving || text === saved || text.trim() === ''}
+        >
+          {saving ? 'Saving…' : 'Save Lyrics'}
+        </Button>
+      </div>
+    </div>
+  );
+}
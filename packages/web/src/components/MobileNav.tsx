@@ -10,6 +10,7 @@ import { NavLink, useNavigate } from 'react-router-dom';
 import { NAV_ITEMS } from '../constants';
 import { useAdminView } from '../context/AdminViewContext';
 import { useAuth } from '../context/AuthContext';
+import GuildPicker from './GuildPicker';
 import SettingsMenu from './SettingsMenu';
 import { Button } from './ui/Button';
 
@@ -171,6 +172,9 @@ export default function MobileNav() {
 
         {/* Bottom section: Settings, separator, user */}
         <div className="mt-auto">
+          {/* Guild picker (only with more than one guild) */}
+          <GuildPicker onClick={() => setIsOpen(false)} />
+
           {/* Settings Menu */}
           <SettingsMenu collapsed={false} onClick={() => setIsOpen(false)} />
 
@@ -14,6 +14,15 @@ export default function NotificationToast({ notification }: NotificationToastPro
       }`}
     >
       {notification.message}
+      {notification.action && (
+        <button
+          type="button"
+          onClick={notification.action.onClick}
+          className="ml-3 font-bold uppercase tracking-wider underline underline-offset-2 hover:opacity-80"
+        >
+          {notification.action.label}
+        </button>
+      )}
     </div>
   );
 }
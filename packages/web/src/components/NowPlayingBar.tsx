@@ -7,17 +7,26 @@ import {
   PauseIcon,
   PlayIcon,
   QueueIcon,
+  RadioIcon,
   RepeatIcon,
   RepeatOnceIcon,
   ShuffleIcon,
+  SkipBackIcon,
   SkipForwardIcon,
   SparkleIcon,
+  SpeakerHighIcon,
+  SpeakerLowIcon,
+  SpeakerXIcon,
 } from '@phosphor-icons/react';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { useAdminView } from '../context/AdminViewContext';
+import { useGuild } from '../context/GuildContext';
 import { usePlayer } from '../context/PlayerContext';
 import { useQueuePanel } from '../context/QueuePanelContext';
+import { AudioPresetButton } from './AudioPresetButton';
 import { BarButton } from './BarButton';
 import QueuePanel from './QueuePanel';
+import { SleepTimerButton } from './SleepTimerButton';
 import { Button } from './ui/Button';
 
 /* ---------------------------------------------------------------------------
@@ -33,8 +42,10 @@ interface PlaybackControlsProps {
   isConnectedToVoice: boolean;
   pauseBusy: boolean;
   skipBusy: boolean;
+  previousBusy: boolean;
   onPauseResume: () => void;
   onSkip: () => void;
+  onPrevious: () => void;
   onStop: () => void;
 }
 
@@ -46,16 +57,29 @@ const PlaybackControls = memo(function PlaybackControls({
   isConnectedToVoice,
   pauseBusy,
   skipBusy,
+  previousBusy,
   onPauseResume,
   onSkip,
+  onPrevious,
   onStop,
 }: PlaybackControlsProps) {
+  const busy = pauseBusy || skipBusy || previousBusy;
   return (
     <div className="flex items-center gap-1 md:gap-1.5 shrink-0">
+      <BarButton
+        onClick={onPrevious}
+        busy={previousBusy}
+        disabled={!currentSong || busy}
+        title="Previous"
+        hoverColor="hover:text-fg"
+        className="hidden md:flex"
+      >
+        <SkipBackIcon size={20} weight="duotone" className="md:w-4.5 md:h-4.5" />
+      </BarButton>
       <BarButton
         onClick={onPauseResume}
         busy={pauseBusy}
-        disabled={!currentSong || pauseBusy || skipBusy}
+        disabled={!currentSong || busy}
         title={isPaused || isStopped ? 'Resume' : 'Pause'}
         hoverColor="hover:text-fg"
         pulse={isPlaying && !isPaused}
@@ -69,7 +93,7 @@ const PlaybackControls = memo(function PlaybackControls({
       <BarButton
         onClick={onSkip}
         busy={skipBusy}
-        disabled={!currentSong || pauseBusy || skipBusy}
+        disabled={!currentSong || busy}
         title="Skip"
         hoverColor="hover:text-fg"
         className="hidden md:flex"
@@ -109,20 +133,26 @@ interface LoopShuffleControlsProps {
   currentSong: QueuedSong | null;
   loopMode: 'off' | 'queue' | 'song';
   isShuffled: boolean;
+  autoplay: boolean;
   loopBusy: boolean;
   shuffleBusy: boolean;
+  autoplayBusy: boolean;
   onCycleLoop: () => void;
   onShuffleToggle: () => void;
+  onAutoplayToggle: () => void;
 }
 
 const LoopShuffleControls = memo(function LoopShuffleControls({
   currentSong,
   loopMode,
   isShuffled,
+  autoplay,
   loopBusy,
   shuffleBusy,
+  autoplayBusy,
   onCycleLoop,
   onShuffleToggle,
+  onAutoplayToggle,
 }: LoopShuffleControlsProps) {
   const isLoopActive = loopMode !== 'off';
   const loopIcon = isLoopActive ? (
@@ -179,6 +209,25 @@ const LoopShuffleControls = memo(function LoopShuffleControls({
           />
         )}
       </Button>
+      <Button
+        variant="inherit"
+        surface="base"
+        size="icon"
+        onClick={onAutoplayToggle}
+        disabled={!currentSong || autoplayBusy}
+        title={autoplay ? 'Autoplay: on' : 'Autoplay: off'}
+        className={`shrink-0 disabled:opacity-50 ${
+          autoplay
+            ? 'pressed text-accent hover:text-accent-muted'
+            : 'text-black dark:text-white hover:text-fg'
+        }`}
+      >
+        {autoplayBusy ? (
+          <CircleNotchIcon size={18} weight="bold" className="animate-spin md:w-4 md:h-4" />
+        ) : (
+          <RadioIcon size={20} weight={autoplay ? 'fill' : 'duotone'} className="md:w-4 md:h-4" />
+        )}
+      </Button>
     </div>
   );
 });
@@ -368,6 +417,64 @@ const ProgressBar = memo(function ProgressBar({
   );
 });
 
+// Like the scrubber, the slider only moves locally while dragged and commits
+// on release; the broadcast that follows moves every other client's slider.
+interface VolumeControlProps {
+  volume: number; // master volume in percent
+  disabled: boolean;
+  onChange: (volume: number) => void;
+}
+
+const MAX_VOLUME = 200;
+
+const VolumeControl = memo(function VolumeControl({
+  volume,
+  disabled,
+  onChange,
+}: VolumeControlProps) {
+  // Value shown while the user is dragging; null follows the player state.
+  const [dragValue, setDragValue] = useState<number | null>(null);
+  const shown = dragValue ?? volume;
+
+  const commit = () => {
+    if (dragValue === null) return;
+    setDragValue(null);
+    if (dragValue !== volume) onChange(dragValue);
+  };
+
+  const Icon = shown === 0 ? SpeakerXIcon : shown < 100 ? SpeakerLowIcon : SpeakerHighIcon;
+
+  return (
+    <div
+      className={`hidden lg:flex items-center gap-2 w-32 shrink-0 mr-1.5 ${
+        disabled ? 'opacity-50 pointer-events-none' : ''
+      }`}
+      title={`Volume: ${shown}%`}
+    >
+      <Icon size={16} weight="duotone" className="shrink-0 text-black dark:text-white" />
+      <input
+        type="range"
+        min={0}
+        max={MAX_VOLUME}
+        step={5}
+        value={shown}
+        disabled={disabled}
+        onChange={(e) => setDragValue(parseInt(e.target.value, 10))}
+        onPointerUp={commit}
+        onKeyUp={commit}
+        onBlur={commit}
+        aria-label="Volume"
+        className="volume-range-input"
+        style={
+          {
+            ['--volume-pct' as string]: `${(shown / MAX_VOLUME) * 100}%`,
+          } as React.CSSProperties
+        }
+      />
+    </div>
+  );
+});
+
 interface AlbumArtProps {
   currentSong: QueuedSong | null;
   isPlaying: boolean;
@@ -410,24 +517,42 @@ export function NowPlayingBar() {
     registerProgress,
     registerRangeInput,
     skip,
+    previous,
     leave,
     pause,
     setLoop,
+    setAutoplay,
+    setVolume,
     shuffle,
     unshuffle,
     seek,
     setOverrideElapsed,
   } = usePlayer();
-  const { currentSong, isPlaying, isPaused, isConnectedToVoice, loopMode, isShuffled } = state;
+  const {
+    currentSong,
+    isPlaying,
+    isPaused,
+    isConnectedToVoice,
+    loopMode,
+    isShuffled,
+    autoplay,
+    masterVolume,
+    sleepTimer,
+    stopAfterTracks,
+  } = state;
   const isStopped = !!currentSong && !isPlaying && !isPaused;
 
   const { queueOpen, setQueueOpen } = useQueuePanel();
+  const { isAdminView } = useAdminView();
+  const { guild } = useGuild();
 
   const [pauseBusy, setPauseBusy] = useState(false);
   const [skipBusy, setSkipBusy] = useState(false);
+  const [previousBusy, setPreviousBusy] = useState(false);
   const busySongIdRef = useRef<string | null>(null);
   const [loopBusy, setLoopBusy] = useState(false);
   const [shuffleBusy, setShuffleBusy] = useState(false);
+  const [autoplayBusy, setAutoplayBusy] = useState(false);
 
   const handlePauseResume = useCallback(async () => {
     setPauseBusy(true);
@@ -458,6 +583,17 @@ export function NowPlayingBar() {
     }
   }, [skipBusy, currentSong]);
 
+  const handlePrevious = useCallback(async () => {
+    setPreviousBusy(true);
+    try {
+      await previous();
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setPreviousBusy(false);
+    }
+  }, [previous]);
+
   const handleStop = useCallback(() => {
     leave().catch((e) => console.error(e));
   }, [leave]);
@@ -485,6 +621,22 @@ export function NowPlayingBar() {
     }
   }, [isShuffled, shuffle, unshuffle]);
 
+  const handleAutoplayToggle = useCallback(async () => {
+    setAutoplayBusy(true);
+    try {
+      await setAutoplay(!autoplay);
+    } finally {
+      setAutoplayBusy(false);
+    }
+  }, [autoplay, setAutoplay]);
+
+  const handleVolumeChange = useCallback(
+    (volume: number) => {
+      setVolume(volume).catch((e) => console.error(e));
+    },
+    [setVolume]
+  );
+
   const handleSeek = useCallback(
     async (seconds: number) => {
       const positionMs = seconds * 1000;
@@ -513,7 +665,7 @@ export function NowPlayingBar() {
       <div
         className={`h-22 md:h-20 flex flex-row items-center px-3 md:px-5 gap-1 md:gap-1.5 ${!currentSong ? 'justify-end md:justify-start' : ''}`}
       >
-        {/* Playback controls: Play/Pause (desktop: also Skip, Leave) */}
+        {/* Playback controls: Play/Pause (desktop: also Previous, Skip, Leave) */}
         <PlaybackControls
           currentSong={currentSong}
           isPaused={isPaused}
@@ -522,8 +674,10 @@ export function NowPlayingBar() {
           isConnectedToVoice={isConnectedToVoice}
           pauseBusy={pauseBusy}
           skipBusy={skipBusy}
+          previousBusy={previousBusy}
           onPauseResume={handlePauseResume}
           onSkip={handleSkip}
+          onPrevious={handlePrevious}
           onStop={handleStop}
         />
 
@@ -558,6 +712,13 @@ export function NowPlayingBar() {
             </div>
           )}
 
+          {/* Desktop: master volume */}
+          <VolumeControl
+            volume={masterVolume}
+            disabled={!isConnectedToVoice}
+            onChange={handleVolumeChange}
+          />
+
           {/* Album art */}
           <AlbumArt currentSong={currentSong} isPlaying={isPlaying} isPaused={isPaused} />
 
@@ -565,16 +726,25 @@ export function NowPlayingBar() {
           <div className="hidden md:block w-px h-8 md:h-10 bg-border shrink-0 mx-3 md:mx-5" />
           <div className="md:hidden w-px h-8 bg-border shrink-0 mx-1" />
 
-          {/* Queue button (with desktop-only loop/shuffle) */}
+          {/* Queue button (with sleep timer, audio presets and desktop-only loop/shuffle/autoplay) */}
           <div className="flex items-center gap-1 md:gap-1.5 shrink-0">
+            {isAdminView && guild?.isAdmin && <AudioPresetButton surface="base" />}
+            <SleepTimerButton
+              disabled={!currentSong}
+              sleepTimer={sleepTimer}
+              stopAfterTracks={stopAfterTracks}
+            />
             <LoopShuffleControls
               currentSong={currentSong}
               loopMode={loopMode}
               isShuffled={isShuffled}
+              autoplay={autoplay}
               loopBusy={loopBusy}
               shuffleBusy={shuffleBusy}
+              autoplayBusy={autoplayBusy}
               onCycleLoop={handleCycleLoop}
               onShuffleToggle={handleShuffleToggle}
+              onAutoplayToggle={handleAutoplayToggle}
             />
             <Button
               variant="inherit"
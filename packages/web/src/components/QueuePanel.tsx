@@ -1,4 +1,4 @@
-import type { QueuedSong } from '@alfira-bot/server/shared';
+import type { PauseReason, QueuedSong, QueueList } from '@alfira-bot/server/shared';
 import { formatDuration } from '@alfira-bot/server/shared';
 import {
   AlienIcon,
@@ -7,7 +7,9 @@ import {
   CatIcon,
   CircleNotchIcon,
   CookieIcon,
+  DotsSixVerticalIcon,
   DotsThreeOutlineVerticalIcon,
+  FloppyDiskIcon,
   GhostIcon,
   LightningIcon,
   ListIcon,
@@ -21,6 +23,7 @@ import {
   RepeatIcon,
   RepeatOnceIcon,
   RocketLaunchIcon,
+  ScalesIcon,
   ShuffleIcon,
   SkipForwardIcon,
   SkullIcon,
@@ -28,18 +31,27 @@ import {
   SockIcon,
   SwordIcon,
   ToiletPaperIcon,
+  XIcon,
   YinYangIcon,
 } from '@phosphor-icons/react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { memo, useCallback, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
+import { moveQueueEntry, removeQueueEntry } from '../api/api';
 import ConfirmModal from '../components/ConfirmModal';
 import { ContextMenu, type MenuItem } from '../components/ContextMenu';
+import HistoryList from '../components/queue/HistoryList';
 import LoadPlaylistModal from '../components/queue/LoadPlaylistModal';
+import LyricsPane from '../components/queue/LyricsPane';
 import OverrideModal from '../components/queue/OverrideModal';
 import QuickAddModal from '../components/queue/QuickAddModal';
+import SavedSessionCard from '../components/queue/SavedSessionCard';
+import SaveQueueModal from '../components/queue/SaveQueueModal';
 import { useAdminView } from '../context/AdminViewContext';
 import { usePlayer } from '../context/PlayerContext';
+import { useNotification } from '../hooks/useNotification';
+import { useUndoQueue } from '../hooks/useUndoQueue';
+import { apiErrorMessage } from '../utils/api';
 import { Button } from './ui/Button';
 
 export interface MobileQuickControls {
@@ -64,23 +76,59 @@ type VirtualQueueItem =
     }
   | { type: 'header'; variant: 'priority' | 'regular'; key: string };
 
+// The queue entry being dragged, addressed the way the queue edit API expects.
+interface DragSource {
+  list: QueueList;
+  index: number;
+  songId: string;
+}
+
+const VARIANT_LIST: Record<'priority' | 'regular', QueueList> = {
+  priority: 'priority',
+  regular: 'queue',
+};
+
+type PanelTab = 'queue' | 'lyrics' | 'history';
+
+const PANEL_TABS: { id: PanelTab; label: string }[] = [
+  { id: 'queue', label: 'Queue' },
+  { id: 'lyrics', label: 'Lyrics' },
+  { id: 'history', label: 'History' },
+];
+
 export default function QueuePanel({
   mobileQuickControls,
 }: {
   mobileQuickControls?: MobileQuickControls;
 }) {
-  const { state, loading, elapsed, registerProgress, clear } = usePlayer();
+  const { state, loading, elapsed, registerProgress, clear, setFairQueue, setSmartShuffle } =
+    usePlayer();
   const { isAdminView } = useAdminView();
   const [showQuickAdd, setShowQuickAdd] = useState(false);
   const [showLoadPlaylist, setShowLoadPlaylist] = useState(false);
+  const [showSaveQueue, setShowSaveQueue] = useState(false);
   const [showOverride, setShowOverride] = useState(false);
   const [clearBusy, setClearBusy] = useState(false);
   const [clearConfirm, setClearConfirm] = useState(false);
   const [menuOpen, setMenuOpen] = useState(false);
+  const [tab, setTab] = useState<PanelTab>('queue');
+  const [dragSource, setDragSource] = useState<DragSource | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ list: QueueList; index: number } | null>(null);
+  const { notify } = useNotification();
+  const { notifyUndoable } = useUndoQueue();
   const triggerRef = useRef<HTMLButtonElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  const { currentSong, queue, priorityQueue, isPlaying } = state;
+  const {
+    currentSong,
+    queue,
+    priorityQueue,
+    isPlaying,
+    pauseReason,
+    savedSession,
+    fairQueue,
+    smartShuffle,
+  } = state;
 
   const virtualItems: VirtualQueueItem[] = useMemo(() => {
     const items: VirtualQueueItem[] = [];
@@ -123,10 +171,37 @@ export default function QueuePanel({
     setClearBusy(true);
     try {
       await clear();
+      notifyUndoable('Queue cleared');
     } finally {
       setClearBusy(false);
     }
-  }, [clear]);
+  }, [clear, notifyUndoable]);
+
+  const handleRemove = useCallback(
+    async (list: QueueList, index: number, songId: string) => {
+      try {
+        await removeQueueEntry(list, index, songId);
+      } catch (err: unknown) {
+        notify(apiErrorMessage(err, 'Could not remove the song.'), 'error', 5000);
+      }
+    },
+    [notify]
+  );
+
+  const handleDrop = useCallback(
+    async (list: QueueList, to: number) => {
+      const source = dragSource;
+      setDragSource(null);
+      setDropTarget(null);
+      if (!source || source.list !== list || source.index === to) return;
+      try {
+        await moveQueueEntry(list, source.index, to, source.songId);
+      } catch (err: unknown) {
+        notify(apiErrorMessage(err, 'Could not move the song.'), 'error', 5000);
+      }
+    },
+    [dragSource, notify]
+  );
 
   const menuItems: MenuItem[] = useMemo(() => {
     const items: MenuItem[] = [
@@ -142,8 +217,27 @@ export default function QueuePanel({
         icon: <PlusCircleIcon size={14} weight="duotone" />,
         onClick: () => setShowQuickAdd(true),
       },
+      {
+        id: 'save-queue',
+        label: 'Save as Playlist',
+        icon: <FloppyDiskIcon size={14} weight="duotone" />,
+        disabled: isQueueEmpty,
+        onClick: () => setShowSaveQueue(true),
+      },
     ];
     if (isAdminView) {
+      items.push({
+        id: 'fair-queue',
+        label: fairQueue ? 'Fair Queue: On' : 'Fair Queue: Off',
+        icon: <ScalesIcon size={14} weight={fairQueue ? 'fill' : 'duotone'} />,
+        onClick: () => void setFairQueue(!fairQueue),
+      });
+      items.push({
+        id: 'smart-shuffle',
+        label: smartShuffle ? 'Smart Shuffle: On' : 'Smart Shuffle: Off',
+        icon: <ShuffleIcon size={14} weight={smartShuffle ? 'fill' : 'duotone'} />,
+        onClick: () => void setSmartShuffle(!smartShuffle),
+      });
       items.push({
         id: 'override',
         label: 'Override',
@@ -161,7 +255,15 @@ export default function QueuePanel({
       });
     }
     return items;
-  }, [isAdminView, clearBusy, isQueueEmpty]);
+  }, [
+    isAdminView,
+    clearBusy,
+    isQueueEmpty,
+    fairQueue,
+    setFairQueue,
+    smartShuffle,
+    setSmartShuffle,
+  ]);
 
   if (loading) {
     return (
@@ -190,37 +292,46 @@ export default function QueuePanel({
         onToggleMenu={() => setMenuOpen(!menuOpen)}
         mobileQuickControls={mobileQuickControls}
       />
+      <PanelTabs activeTab={tab} onTabChange={setTab} />
+
+      {tab === 'lyrics' && <LyricsPane />}
+      {tab === 'history' && <HistoryList />}
 
       {/* Fixed content: Now Playing */}
-      <div className="p-4 space-y-4 shrink-0">
-        {currentSong ? (
-          <NowPlayingCard
-            song={currentSong}
-            isPlaying={isPlaying}
-            elapsed={elapsed}
-            registerProgress={registerProgress}
-          />
-        ) : (
-          <IdleCard />
-        )}
+      {tab === 'queue' && (
+        <div className="p-4 space-y-4 shrink-0">
+          {savedSession && <SavedSessionCard session={savedSession} />}
 
-        {/* Empty state */}
-        {virtualItems.length === 0 && (
-          <div className="py-8 text-center space-y-2">
-            <p className="font-mono text-[11px] text-faint">queue is empty</p>
-            <button
-              type="button"
-              onClick={() => setShowLoadPlaylist(true)}
-              className="cursor-pointer font-mono text-[11px] text-accent hover:underline"
-            >
-              load a playlist to get started
-            </button>
-          </div>
-        )}
-      </div>
+          {currentSong ? (
+            <NowPlayingCard
+              song={currentSong}
+              isPlaying={isPlaying}
+              pauseReason={pauseReason}
+              elapsed={elapsed}
+              registerProgress={registerProgress}
+            />
+          ) : (
+            <IdleCard />
+          )}
+
+          {/* Empty state */}
+          {virtualItems.length === 0 && (
+            <div className="py-8 text-center space-y-2">
+              <p className="font-mono text-[11px] text-faint">queue is empty</p>
+              <button
+                type="button"
+                onClick={() => setShowLoadPlaylist(true)}
+                className="cursor-pointer font-mono text-[11px] text-accent hover:underline"
+              >
+                load a playlist to get started
+              </button>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Virtualized scroll container */}
-      {virtualItems.length > 0 && (
+      {tab === 'queue' && virtualItems.length > 0 && (
         <div ref={scrollRef} className="flex-1 overflow-y-auto px-4 pb-4 min-h-0">
           <div
             style={{
@@ -251,6 +362,15 @@ export default function QueuePanel({
                         <span className="ml-2 font-mono text-xs text-accent normal-case tracking-normal">
                           {priorityQueue.length}
                         </span>
+                        {fairQueue && (
+                          <span
+                            title="Up Next plays round-robin by requester"
+                            className="ml-2 font-mono text-[10px] text-muted normal-case tracking-normal"
+                          >
+                            <ScalesIcon size={12} weight="duotone" className="inline mr-0.5" />
+                            fair
+                          </span>
+                        )}
                       </h2>
                     ) : (
                       <h2 className="font-display text-lg text-fg tracking-wider">
@@ -266,11 +386,33 @@ export default function QueuePanel({
                 );
               }
 
+              const list = VARIANT_LIST[item.variant];
+              // Entries can only be dragged within their own list.
+              const canDrop = dragSource?.list === list;
               return (
+                // biome-ignore lint/a11y/noStaticElementInteractions: drag to reorder is a pointer-only shortcut for admins
                 <div
                   key={item.key}
                   data-index={virtualRow.index}
                   ref={virtualizer.measureElement}
+                  draggable={isAdminView}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDragSource({ list, index: item.listIndex, songId: item.song.id });
+                  }}
+                  onDragOver={(e) => {
+                    if (!canDrop) return;
+                    e.preventDefault();
+                    setDropTarget({ list, index: item.listIndex });
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    void handleDrop(list, item.listIndex);
+                  }}
+                  onDragEnd={() => {
+                    setDragSource(null);
+                    setDropTarget(null);
+                  }}
                   style={{
                     position: 'absolute',
                     top: 0,
@@ -283,6 +425,15 @@ export default function QueuePanel({
                     song={item.song}
                     index={item.listIndex}
                     accent={item.variant === 'priority'}
+                    editable={isAdminView}
+                    dragging={dragSource?.list === list && dragSource.index === item.listIndex}
+                    dropTarget={
+                      canDrop &&
+                      dropTarget?.list === list &&
+                      dropTarget.index === item.listIndex &&
+                      dragSource?.index !== item.listIndex
+                    }
+                    onRemove={() => void handleRemove(list, item.listIndex, item.song.id)}
                   />
                 </div>
               );
@@ -312,6 +463,16 @@ export default function QueuePanel({
           />,
           document.body
         )}
+      {showSaveQueue &&
+        createPortal(
+          <SaveQueueModal
+            onClose={() => setShowSaveQueue(false)}
+            onSaved={() => {
+              setShowSaveQueue(false);
+            }}
+          />,
+          document.body
+        )}
       {showQuickAdd &&
         createPortal(
           <QuickAddModal
@@ -328,6 +489,7 @@ export default function QueuePanel({
             onClose={() => setShowOverride(false)}
             onOverride={() => {
               setShowOverride(false);
+              notifyUndoable('Playback overridden');
             }}
           />,
           document.body
@@ -354,13 +516,29 @@ const QueueSongItem = memo(function QueueSongItem({
   song,
   index,
   accent,
+  editable,
+  dragging,
+  dropTarget,
+  onRemove,
 }: {
   song: QueuedSong;
   index: number;
   accent?: boolean;
+  // Admins can drag entries to reorder them and remove them.
+  editable?: boolean;
+  dragging?: boolean;
+  dropTarget?: boolean;
+  onRemove?: () => void;
 }) {
   return (
-    <div className="flex items-center gap-2 px-3 py-2.5">
+    <div
+      className={`group flex items-center gap-2 px-3 py-2.5 rounded border-t-2 transition-opacity ${
+        dropTarget ? 'border-accent' : 'border-transparent'
+      } ${dragging ? 'opacity-40' : ''} ${editable ? 'cursor-grab' : ''}`}
+    >
+      {editable && (
+        <DotsSixVerticalIcon size={12} weight="bold" className="text-faint shrink-0 -ml-2" />
+      )}
       <span
         className={`font-mono text-[10px] w-4 text-right shrink-0 ${accent ? 'text-accent' : 'text-faint'}`}
       >
@@ -379,11 +557,53 @@ const QueueSongItem = memo(function QueueSongItem({
         <p className="font-body text-xs font-medium text-fg truncate">
           {song.nickname || song.title}
         </p>
-        <p className="font-mono text-[9px] text-muted hidden sm:block">req. {song.requestedBy}</p>
+        <p className="font-mono text-[9px] text-muted hidden sm:block">
+          {song.autoplayed ? 'autoplay' : `req. ${song.requestedBy}`}
+          {song.fairRound !== undefined && ` · round ${song.fairRound + 1}`}
+        </p>
       </div>
       <span className="font-mono text-[10px] text-muted shrink-0">
         {formatDuration(song.duration)}
       </span>
+      {editable && (
+        <button
+          type="button"
+          onClick={onRemove}
+          title="Remove from queue"
+          className="shrink-0 p-0.5 cursor-pointer text-faint hover:text-danger opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+        >
+          <XIcon size={12} weight="bold" />
+        </button>
+      )}
+    </div>
+  );
+});
+
+const PanelTabs = memo(function PanelTabs({
+  activeTab,
+  onTabChange,
+}: {
+  activeTab: PanelTab;
+  onTabChange: (tab: PanelTab) => void;
+}) {
+  return (
+    <div role="tablist" className="flex px-2 border-b border-border shrink-0">
+      {PANEL_TABS.map((t) => (
+        <button
+          type="button"
+          key={t.id}
+          role="tab"
+          aria-selected={activeTab === t.id}
+          onClick={() => onTabChange(t.id)}
+          className={`px-3 py-2 font-body text-sm transition-colors duration-150 cursor-pointer border-b-2 -mb-px ${
+            activeTab === t.id
+              ? 'text-accent border-accent'
+              : 'text-muted border-transparent hover:text-fg'
+          }`}
+        >
+          {t.label}
+        </button>
+      ))}
     </div>
   );
 });
@@ -495,11 +715,13 @@ const PanelHeader = memo(function PanelHeader({
 const NowPlayingCard = memo(function NowPlayingCard({
   song,
   isPlaying,
+  pauseReason,
   elapsed,
   registerProgress,
 }: {
   song: QueuedSong;
   isPlaying: boolean;
+  pauseReason: PauseReason | null;
   elapsed: number;
   registerProgress: (ref: HTMLDivElement | null) => void;
 }) {
@@ -528,7 +750,12 @@ const NowPlayingCard = memo(function NowPlayingCard({
           >
             {song.nickname || song.title}
           </a>
-          <p className="font-mono text-[10px] text-muted mt-0.5">requested by {song.requestedBy}</p>
+          <p className="font-mono text-[10px] text-muted mt-0.5">
+            {song.autoplayed ? 'picked by autoplay' : `requested by ${song.requestedBy}`}
+          </p>
+          {pauseReason === 'channel-empty' && (
+            <p className="font-mono text-[10px] text-accent mt-0.5">auto-paused: channel empty</p>
+          )}
           <div className="mt-2">
             <div className="relative h-1.5 w-full bg-elevated rounded-full overflow-hidden">
               <div
@@ -0,0 +1,115 @@
+import type { Song } from '@alfira-bot/server/shared';
+import { formatDuration, parseChapters } from '@alfira-bot/server/shared';
+import { createSongSegments, deleteSong, fetchSongSegments } from '@alfira-bot/server/shared/api';
+import { ScissorsIcon, TrashIcon } from '@phosphor-icons/react';
+import { useEffect, useState } from 'react';
+import { useNotification } from '../hooks/useNotification';
+import { apiErrorMessage } from '../utils/api';
+import { Button } from './ui/Button';
+
+function formatRange(segment: Song, parent: Song): string {
+  const start = formatDuration(Math.round((segment.startOffsetMs ?? 0) / 1000));
+  const end = formatDuration(
+    segment.endOffsetMs != null ? Math.round(segment.endOffsetMs / 1000) : parent.duration
+  );
+  return `${start} – ${end}`;
+}
+
+/**
+ * Segments of a long video (e.g. a compilation), created from a pasted
+ * chapter list. Each segment shows up in the library as a song of its own.
+ */
+export default function SegmentsEditor({ song }: { song: Song }) {
+  const { notify } = useNotification();
+  const [segments, setSegments] = useState<Song[]>([]);
+  const [chapters, setChapters] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSongSegments(song.id)
+      .then((data) => {
+        if (!cancelled) setSegments(data);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) notify(apiErrorMessage(err, 'Could not load segments.'), 'error', 5000);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [song.id, notify]);
+
+  const parsed = parseChapters(chapters, song.duration);
+
+  async function handleCreate() {
+    setSaving(true);
+    try {
+      const created = await createSongSegments(song.id, parsed);
+      setSegments((prev) =>
+        [...prev, ...created].sort((a, b) => (a.startOffsetMs ?? 0) - (b.startOffsetMs ?? 0))
+      );
+      setChapters('');
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not create segments.'), 'error', 5000);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      await deleteSong(id);
+      setSegments((prev) => prev.filter((s) => s.id !== id));
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not delete the segment.'), 'error', 5000);
+    }
+  }
+
+  return (
+    <div>
+      <label
+        htmlFor={`panel-chapters-${song.id}`}
+        className="block font-mono text-[10px] text-muted uppercase mb-1"
+      >
+        Segments
+      </label>
+      {segments.length > 0 && (
+        <ul className="border border-border rounded-md divide-y divide-border mb-2">
+          {segments.map((segment) => (
+            <li key={segment.id} className="flex items-center gap-3 px-3 py-1.5">
+              <span className="flex-1 min-w-0 text-sm text-fg truncate">{segment.title}</span>
+              <span className="font-mono text-xs text-muted">{formatRange(segment, song)}</span>
+              <Button
+                variant="inherit"
+                size="icon"
+                onClick={() => handleDelete(segment.id)}
+                title="Delete segment"
+                className="hover:text-danger"
+              >
+                <TrashIcon size={14} weight="duotone" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <textarea
+        id={`panel-chapters-${song.id}`}
+        className="input text-sm font-mono w-full min-h-20"
+        value={chapters}
+        onChange={(e) => setChapters(e.target.value)}
+        placeholder={'Paste a chapter list, one per line:\n0:00 Intro\n3:12 Second track'}
+      />
+      <div className="flex items-center justify-end gap-3 mt-2">
+        {chapters.trim() !== '' && (
+          <span className="font-mono text-[11px] text-muted">
+            {parsed.length} chapter{parsed.length === 1 ? '' : 's'} found
+          </span>
+        )}
+        <Button variant="primary" onClick={handleCreate} disabled={parsed.length === 0 || saving}>
+          <ScissorsIcon size={12} weight="duotone" className="inline mr-1" />
+          {saving ? 'Creating…' : 'Create Segments'}
+        </Button>
+      </div>
+    </div>
+  );
+}
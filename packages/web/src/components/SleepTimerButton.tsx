@@ -0,0 +1,233 @@
+import type { SleepAction, SleepTimer } from '@alfira-bot/server/shared';
+import { formatDuration } from '@alfira-bot/server/shared';
+import {
+  ArrowSquareOutIcon,
+  ClockIcon,
+  MoonStarsIcon,
+  StopIcon,
+  TimerIcon,
+  XCircleIcon,
+} from '@phosphor-icons/react';
+import { memo, useEffect, useRef, useState } from 'react';
+import { cancelSleepTimer, setSleepTimer, setStopAfterTracks } from '../api/api';
+import { useNotification } from '../hooks/useNotification';
+import { apiErrorMessage } from '../utils/api';
+import { ContextMenu, type MenuItem } from './ContextMenu';
+import { Button } from './ui/Button';
+
+const PRESET_MINUTES = [15, 30, 60, 90];
+
+/** Milliseconds left on the timer; a held countdown reports its frozen remainder. */
+function remainingMs(timer: SleepTimer, now: number): number {
+  return timer.endsAt !== null ? Math.max(0, timer.endsAt - now) : (timer.remainingMs ?? 0);
+}
+
+/** Next occurrence of a 24-hour "HH:MM" clock time, or null if it doesn't parse. */
+function nextClockTime(value: string): Date | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const [hours, minutes] = [Number(match[1]), Number(match[2])];
+  if (hours > 23 || minutes > 59) return null;
+
+  const at = new Date();
+  at.setHours(hours, minutes, 0, 0);
+  if (at.getTime() <= Date.now()) at.setDate(at.getDate() + 1);
+  return at;
+}
+
+interface SleepTimerButtonProps {
+  disabled: boolean;
+  sleepTimer: SleepTimer | null;
+  stopAfterTracks: number | null;
+}
+
+/**
+ * Sleep timer and "stop after N tracks" controls, with a live countdown next
+ * to the button while either is set.
+ */
+export const SleepTimerButton = memo(function SleepTimerButton({
+  disabled,
+  sleepTimer,
+  stopAfterTracks,
+}: SleepTimerButtonProps) {
+  const { notify } = useNotification();
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [action, setAction] = useState<SleepAction>('stop');
+  const [clockValue, setClockValue] = useState('');
+  const [tracksValue, setTracksValue] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second while a countdown is running.
+  const running = sleepTimer?.endsAt != null;
+  useEffect(() => {
+    if (!running) return;
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [running]);
+
+  async function run(request: () => Promise<unknown>, fallback: string) {
+    setSaving(true);
+    try {
+      await request();
+      setMenuOpen(false);
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, fallback), 'error', 5000);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleClockSave() {
+    const at = nextClockTime(clockValue);
+    if (!at) {
+      notify('Enter a time as HH:MM, e.g. 23:30.', 'error');
+      return;
+    }
+    void run(
+      () => setSleepTimer({ at: at.toISOString() }, action),
+      'Could not set the sleep timer.'
+    );
+  }
+
+  function handleTracksSave() {
+    const tracks = Number(tracksValue);
+    if (!Number.isInteger(tracks) || tracks < 1) {
+      notify('Enter a whole number of tracks.', 'error');
+      return;
+    }
+    void run(() => setStopAfterTracks(tracks), 'Could not set stop after tracks.');
+  }
+
+  const isActive = sleepTimer !== null || stopAfterTracks !== null;
+
+  const items: MenuItem[] = [
+    ...PRESET_MINUTES.map(
+      (minutes): MenuItem => ({
+        id: `minutes-${minutes}`,
+        label:
+          minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`,
+        icon: <TimerIcon size={14} weight="duotone" />,
+        disabled: saving,
+        onClick: () =>
+          void run(() => setSleepTimer({ minutes }, action), 'Could not set the sleep timer.'),
+      })
+    ),
+    {
+      id: 'at-time',
+      label: 'At a time…',
+      icon: <ClockIcon size={14} weight="duotone" />,
+      editSubmenu: {
+        title: 'Stop at (24h)',
+        value: clockValue,
+        onChange: setClockValue,
+        onSave: handleClockSave,
+        onCancel: () => setClockValue(''),
+        saving,
+        placeholder: 'HH:MM',
+      },
+    },
+    {
+      id: 'action',
+      label: action === 'stop' ? 'Then: stop playback' : 'Then: leave voice',
+      icon:
+        action === 'stop' ? (
+          <StopIcon size={14} weight="duotone" />
+        ) : (
+          <ArrowSquareOutIcon size={14} weight="duotone" />
+        ),
+      onClick: () => setAction(action === 'stop' ? 'leave' : 'stop'),
+    },
+    {
+      id: 'end-of-track',
+      label: 'After this track',
+      icon: <StopIcon size={14} weight="duotone" />,
+      disabled: saving,
+      separatorBefore: true,
+      onClick: () => void run(() => setStopAfterTracks(1), 'Could not set stop after track.'),
+    },
+    {
+      id: 'after-tracks',
+      label: 'After N tracks…',
+      icon: <StopIcon size={14} weight="duotone" />,
+      editSubmenu: {
+        title: 'Stop after tracks',
+        value: tracksValue,
+        onChange: setTracksValue,
+        onSave: handleTracksSave,
+        onCancel: () => setTracksValue(''),
+        saving,
+        placeholder: 'Number of tracks',
+      },
+    },
+  ];
+  if (isActive) {
+    items.push({
+      id: 'cancel',
+      label: 'Cancel',
+      icon: <XCircleIcon size={14} weight="duotone" />,
+      danger: true,
+      disabled: saving,
+      separatorBefore: true,
+      onClick: () =>
+        void run(
+          () =>
+            Promise.all([
+              sleepTimer && cancelSleepTimer(),
+              stopAfterTracks !== null && setStopAfterTracks(null),
+            ]),
+          'Could not cancel.'
+        ),
+    });
+  }
+
+  const countdown = sleepTimer
+    ? formatDuration(Math.ceil(remainingMs(sleepTimer, now) / 1000))
+    : stopAfterTracks !== null
+      ? stopAfterTracks === 1
+        ? 'this track'
+        : `${stopAfterTracks} tracks`
+      : null;
+
+  return (
+    <div className="flex items-center shrink-0">
+      {countdown && (
+        <span
+          className={`font-mono text-[10px] mr-1 ${
+            sleepTimer && sleepTimer.endsAt === null ? 'text-muted' : 'text-accent'
+          }`}
+          title={sleepTimer && sleepTimer.endsAt === null ? 'Held while paused' : undefined}
+        >
+          {countdown}
+        </span>
+      )}
+      <Button
+        ref={triggerRef}
+        variant="inherit"
+        surface="base"
+        size="icon"
+        onClick={() => setMenuOpen(!menuOpen)}
+        disabled={disabled}
+        title="Sleep timer"
+        className={`shrink-0 disabled:opacity-50 ${
+          isActive
+            ? 'pressed text-accent hover:text-accent-muted'
+            : 'text-black dark:text-white hover:text-fg'
+        }`}
+      >
+        <MoonStarsIcon size={20} weight={isActive ? 'fill' : 'duotone'} className="md:w-4 md:h-4" />
+      </Button>
+      {menuOpen && (
+        <ContextMenu
+          items={items}
+          isOpen={menuOpen}
+          onClose={() => setMenuOpen(false)}
+          triggerRef={triggerRef}
+          align="right"
+        />
+      )}
+    </div>
+  );
+});
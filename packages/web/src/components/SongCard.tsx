@@ -1,6 +1,6 @@
 import type { Playlist, Song } from '@alfira-bot/server/shared';
-import { formatDuration } from '@alfira-bot/server/shared';
-import { CircleNotchIcon, HeadphonesIcon, PlayIcon } from '@phosphor-icons/react';
+import { formatDuration, trimmedDuration } from '@alfira-bot/server/shared';
+import { CircleNotchIcon, HeadphonesIcon, PlayIcon, WarningIcon } from '@phosphor-icons/react';
 import React, { useCallback, useMemo } from 'react';
 import { useSongEdit } from '../context/SongEditContext';
 import { useSongActions } from '../hooks/useSongActions';
@@ -105,8 +105,18 @@ const SongCardInner = ({
 
         {/* Duration badge + volume indicator — bottom right */}
         <div className="absolute bottom-2 right-2 z-20 flex flex-col items-end gap-px">
+          {song.unavailableAt && (
+            <span
+              className="flex items-center gap-0.5 font-mono text-[10px] text-danger bg-black/50 px-1.5 py-0.5 rounded"
+              title={song.unavailableReason ?? undefined}
+            >
+              unavailable
+              <WarningIcon size={11} weight="fill" />
+            </span>
+          )}
           <span className="font-mono text-[10px] text-white/80 bg-black/50 px-1.5 py-0.5 rounded">
-            {formatDuration(song.duration)}
+            {song.parentSongId && 'segment · '}
+            {formatDuration(trimmedDuration(song))}
           </span>
           {song.volumeBoost != null && song.volumeBoost !== 0 && (
             <span
@@ -1,10 +1,33 @@
 import type { Song } from '@alfira-bot/server/shared';
+import { formatDuration, parseTimestamp } from '@alfira-bot/server/shared';
 import type { SongUpdateData, TagItem } from '@alfira-bot/server/shared/api';
 import { fetchTags, updateSong } from '@alfira-bot/server/shared/api';
 import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
 import { createPortal, flushSync } from 'react-dom';
 import { useTagColors } from '../context/TagsContext';
+import { useAudioPresets } from '../hooks/useAudioPresets';
 import { getTagColorClasses } from '../utils/tagColors';
+import AudioPresetSelect from './AudioPresetSelect';
+import LyricsEditor from './LyricsEditor';
+import SegmentsEditor from './SegmentsEditor';
+import SettingsToggle from './settings/SettingsToggle';
+
+/** Offset text as milliseconds: null when blank, undefined when it doesn't parse. */
+function parseOffset(value: string): number | null | undefined {
+  if (value.trim() === '') return null;
+  const seconds = parseTimestamp(value);
+  return seconds === null ? undefined : seconds * 1000;
+}
+
+function describeLoudness(song: Song): string {
+  if (song.loudnessLufs == null) return 'Not measured yet';
+  const gain = song.normalizationGain ?? 0;
+  return `Measured ${song.loudnessLufs.toFixed(1)} LUFS · ${gain > 0 ? '+' : ''}${gain}% to even out`;
+}
+
+function formatOffset(ms: number | null | undefined): string {
+  return ms != null ? formatDuration(Math.round(ms / 1000)) : '';
+}
 
 interface SongEditPanelProps {
   song: Song;
@@ -16,6 +39,7 @@ export default function SongEditPanel({ song, isOpen, onClose }: SongEditPanelPr
   const [closing, setClosing] = useState(false);
   const closingRef = useRef(false);
   const { tagColorMap } = useTagColors();
+  const audioPresets = useAudioPresets();
 
   useLayoutEffect(() => {
     if (isOpen) {
@@ -46,6 +70,10 @@ export default function SongEditPanel({ song, isOpen, onClose }: SongEditPanelPr
   const [volumeBoost, setVolumeBoost] = useState(
     songExtended.volumeBoost != null ? String(songExtended.volumeBoost) : ''
   );
+  const [startOffset, setStartOffset] = useState(formatOffset(song.startOffsetMs));
+  const [endOffset, setEndOffset] = useState(formatOffset(song.endOffsetMs));
+  const [normalize, setNormalize] = useState(song.normalize !== false);
+  const [audioPresetId, setAudioPresetId] = useState(song.audioPresetId ?? null);
   const [showTagDropdown, setShowTagDropdown] = useState(false);
   const [availableTags, setAvailableTags] = useState<TagItem[]>([]);
   const [fetchedTags, setFetchedTags] = useState(false);
@@ -57,8 +85,30 @@ export default function SongEditPanel({ song, isOpen, onClose }: SongEditPanelPr
   // Refs for save logic so we don't recreate handlers on every render
   const songIdRef = useRef(song.id);
   songIdRef.current = song.id;
-  const fieldsRef = useRef(() => ({ nickname, artist, album, artwork, tags, volumeBoost }));
-  fieldsRef.current = () => ({ nickname, artist, album, artwork, tags, volumeBoost });
+  const fieldsRef = useRef(() => ({
+    nickname,
+    artist,
+    album,
+    artwork,
+    tags,
+    volumeBoost,
+    startOffset,
+    endOffset,
+    normalize,
+    audioPresetId,
+  }));
+  fieldsRef.current = () => ({
+    nickname,
+    artist,
+    album,
+    artwork,
+    tags,
+    volumeBoost,
+    startOffset,
+    endOffset,
+    normalize,
+    audioPresetId,
+  });
   const originalNicknameRef = useRef<string | null>(songExtended.nickname ?? null);
   originalNicknameRef.current = songExtended.nickname ?? null;
   const originalArtistRef = useRef<string | null>(songExtended.artist ?? null);
@@ -71,6 +121,14 @@ export default function SongEditPanel({ song, isOpen, onClose }: SongEditPanelPr
   originalTagsRef.current = songExtended.tags ?? [];
   const originalVolumeBoostRef = useRef<number | null>(songExtended.volumeBoost ?? null);
   originalVolumeBoostRef.current = songExtended.volumeBoost ?? null;
+  const originalStartOffsetRef = useRef<number | null>(song.startOffsetMs ?? null);
+  originalStartOffsetRef.current = song.startOffsetMs ?? null;
+  const originalEndOffsetRef = useRef<number | null>(song.endOffsetMs ?? null);
+  originalEndOffsetRef.current = song.endOffsetMs ?? null;
+  const originalNormalizeRef = useRef(song.normalize !== false);
+  originalNormalizeRef.current = song.normalize !== false;
+  const originalAudioPresetIdRef = useRef(song.audioPresetId ?? null);
+  originalAudioPresetIdRef.current = song.audioPresetId ?? null;
   const savingRef = useRef(false);
   const onCloseRef = useRef(onClose);
   onCloseRef.current = onClose;
@@ -143,8 +201,14 @@ export default function SongEditPanel({ song, isOpen, onClose }: SongEditPanelPr
         artwork: aw,
         tags: t,
         volumeBoost: vo,
+        startOffset: so,
+        endOffset: eo,
+        normalize: nz,
+        audioPresetId: ap,
       } = fieldsRef.current();
       const parsedBoost = vo.trim() === '' ? null : parseInt(vo.trim(), 10);
+      const parsedStart = parseOffset(so);
+      const parsedEnd = parseOffset(eo);
 
       // Build a partial update — only include fields that actually changed.
       // This prevents concurrent edits from clobbering each other (last-write-wins).
@@ -156,6 +220,12 @@ export default function SongEditPanel({ song, isOpen, onClose }: SongEditPanelPr
       if (JSON.stringify(t) !== JSON.stringify(originalTagsRef.current)) data.tags = t;
       if (parsedBoost !== originalVolumeBoostRef.current)
         data.volumeBoost = Number.isNaN(parsedBoost) ? null : parsedBoost;
+      if (parsedStart !== undefined && parsedStart !== originalStartOffsetRef.current)
+        data.startOffsetMs = parsedStart;
+      if (parsedEnd !== undefined && parsedEnd !== originalEndOffsetRef.current)
+        data.endOffsetMs = parsedEnd;
+      if (nz !== originalNormalizeRef.current) data.normalize = nz;
+      if (ap !== originalAudioPresetIdRef.current) data.audioPresetId = ap;
 
       // Skip if nothing changed
       if (Object.keys(data).length === 0) {
@@ -180,8 +250,14 @@ export default function SongEditPanel({ song, isOpen, onClose }: SongEditPanelPr
         artwork: aw,
         tags: t,
         volumeBoost: vo,
+        startOffset: so,
+        endOffset: eo,
+        normalize: nz,
+        audioPresetId: ap,
       } = fieldsRef.current();
       const parsedBoost = vo.trim() === '' ? null : parseInt(vo.trim(), 10);
+      const parsedStart = parseOffset(so);
+      const parsedEnd = parseOffset(eo);
 
       const data: SongUpdateData = {};
       if (nk !== (originalNicknameRef.current ?? '')) data.nickname = nk.trim() || null;
@@ -191,6 +267,12 @@ export default function SongEditPanel({ song, isOpen, onClose }: SongEditPanelPr
       if (JSON.stringify(t) !== JSON.stringify(originalTagsRef.current)) data.tags = t;
       if (parsedBoost !== originalVolumeBoostRef.current)
         data.volumeBoost = Number.isNaN(parsedBoost) ? null : parsedBoost;
+      if (parsedStart !== undefined && parsedStart !== originalStartOffsetRef.current)
+        data.startOffsetMs = parsedStart;
+      if (parsedEnd !== undefined && parsedEnd !== originalEndOffsetRef.current)
+        data.endOffsetMs = parsedEnd;
+      if (nz !== originalNormalizeRef.current) data.normalize = nz;
+      if (ap !== originalAudioPresetIdRef.current) data.audioPresetId = ap;
 
       if (Object.keys(data).length > 0) {
         void doSave();
@@ -323,6 +405,29 @@ export default function SongEditPanel({ song, isOpen, onClose }: SongEditPanelPr
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <Field
+              id="panel-start-offset"
+              label="Start at"
+              value={startOffset}
+              onChange={setStartOffset}
+              placeholder="0:00"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') void doSave();
+              }}
+            />
+            <Field
+              id="panel-end-offset"
+              label="End at"
+              value={endOffset}
+              onChange={setEndOffset}
+              placeholder={formatDuration(song.duration)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') void doSave();
+              }}
+            />
+          </div>
+
           <VolumeSlider
             value={volumeBoost}
             onChange={setVolumeBoost}
@@ -332,6 +437,29 @@ export default function SongEditPanel({ song, isOpen, onClose }: SongEditPanelPr
               if (e.key === 'Enter') void doSave();
             }}
           />
+
+          <SettingsToggle
+            label="Normalize Loudness"
+            description={describeLoudness(song)}
+            checked={normalize}
+            onChange={setNormalize}
+          />
+
+          {(audioPresets.length > 0 || audioPresetId !== null) && (
+            <AudioPresetSelect
+              id="panel-audio-preset"
+              label="Audio Preset"
+              value={audioPresetId}
+              onChange={setAudioPresetId}
+              presets={audioPresets}
+              emptyLabel="Playlist, tag or server default"
+            />
+          )}
+
+          {/* Segments are cut from the full video, so a segment has none of its own. */}
+          {!song.parentSongId && <SegmentsEditor song={song} />}
+
+          <LyricsEditor song={song} />
         </div>
       </div>
     </div>
@@ -1,5 +1,5 @@
 import type { Playlist, Song } from '@alfira-bot/server/shared';
-import { formatDuration } from '@alfira-bot/server/shared';
+import { formatDuration, trimmedDuration } from '@alfira-bot/server/shared';
 import {
   CircleNotchIcon,
   ClockIcon,
@@ -7,8 +7,10 @@ import {
   HeadphonesIcon,
   MusicNoteIcon,
   PlayIcon,
+  ScissorsIcon,
   TagIcon,
   UserIcon,
+  WarningIcon,
 } from '@phosphor-icons/react';
 import { memo, useState } from 'react';
 import { useSongEdit } from '../context/SongEditContext';
@@ -28,9 +30,24 @@ function MetaInfo({ song, isHovered }: MetaInfoProps) {
   return (
     <>
       <span className="flex items-center gap-1.5 font-mono text-xs text-muted">
-        {formatDuration(song.duration)}
+        {formatDuration(trimmedDuration(song))}
         <ClockIcon size={11} weight="fill" className="shrink-0" />
       </span>
+      {song.unavailableAt && (
+        <span
+          className="flex items-center gap-1 font-mono text-xs text-danger"
+          title={song.unavailableReason ?? undefined}
+        >
+          unavailable
+          <WarningIcon size={11} weight="fill" className="shrink-0" />
+        </span>
+      )}
+      {song.parentSongId && (
+        <span className="flex items-center gap-1 font-mono text-xs text-muted">
+          segment
+          <ScissorsIcon size={11} weight="fill" className="shrink-0" />
+        </span>
+      )}
       {song.volumeBoost != null && song.volumeBoost !== 0 && (
         <span
           className="flex items-center gap-0.5 text-xs"
@@ -149,7 +166,7 @@ export const SongRow = memo(
                 <>
                   <span className="flex items-center gap-1 text-xs text-muted md:hidden">
                     <ClockIcon size={11} weight="fill" className="shrink-0" />
-                    {formatDuration(song.duration)}
+                    {formatDuration(trimmedDuration(song))}
                   </span>
                   {tags.length > 0 && (
                     <div className="flex items-center gap-1 text-sm text-muted mt-1 md:hidden">
@@ -0,0 +1,143 @@
+import type { PlayHistoryEntry } from '@alfira-bot/server/shared';
+import { formatDuration } from '@alfira-bot/server/shared';
+import { CircleNotchIcon } from '@phosphor-icons/react';
+import { memo, useState } from 'react';
+import { getPlayHistoryPage } from '../../api/api';
+import { useGuild } from '../../context/GuildContext';
+import { usePlayer } from '../../context/PlayerContext';
+import { useVirtualizedInfiniteScroll } from '../../hooks/useVirtualizedInfiniteScroll';
+
+const ITEMS_PER_PAGE = 30;
+
+/**
+ * Recently played tracks for the selected guild, newest first. The list
+ * reloads whenever the current track changes so the newest entry shows up.
+ */
+export default function HistoryList() {
+  const { guild } = useGuild();
+  const { state } = usePlayer();
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  // Date inputs give local calendar days; send the server the matching
+  // start and end instants.
+  const range = {
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+  };
+  const reloadKey = [guild?.id, fromDate, toDate, state.currentSong?.id].join('|');
+
+  const { items, isLoading, isFetching, isError, hasMore, retry, sentinelRef } =
+    useVirtualizedInfiniteScroll<PlayHistoryEntry, [string]>({
+      fetchPage: async (page, limit) => {
+        const result = await getPlayHistoryPage(page, limit, range);
+        return {
+          items: result.items,
+          hasMore: result.pagination.page < result.pagination.totalPages,
+          total: result.pagination.total,
+        };
+      },
+      limit: ITEMS_PER_PAGE,
+      deps: [reloadKey],
+    });
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center gap-2 px-4 py-3 shrink-0">
+        <input
+          type="date"
+          value={fromDate}
+          max={toDate || undefined}
+          onChange={(e) => setFromDate(e.target.value)}
+          aria-label="From date"
+          className="input flex-1 min-w-0 text-xs"
+        />
+        <span className="font-mono text-[10px] text-faint">to</span>
+        <input
+          type="date"
+          value={toDate}
+          min={fromDate || undefined}
+          onChange={(e) => setToDate(e.target.value)}
+          aria-label="To date"
+          className="input flex-1 min-w-0 text-xs"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 pb-4 min-h-0">
+        {isLoading ? (
+          <div className="space-y-3">
+            <div className="skeleton h-12 w-full rounded" />
+            <div className="skeleton h-12 w-full rounded" />
+            <div className="skeleton h-12 w-full rounded" />
+          </div>
+        ) : items.length === 0 && !isError ? (
+          <p className="py-8 text-center font-mono text-[11px] text-faint">
+            nothing played {fromDate || toDate ? 'in this range' : 'yet'}
+          </p>
+        ) : (
+          items.map((entry) => <HistoryItem key={entry.id} entry={entry} />)
+        )}
+
+        {isError && (
+          <button
+            type="button"
+            onClick={retry}
+            className="w-full py-4 cursor-pointer font-mono text-[11px] text-accent hover:underline"
+          >
+            could not load history — retry
+          </button>
+        )}
+        {isFetching && (
+          <div className="flex justify-center py-4">
+            <CircleNotchIcon size={18} weight="bold" className="animate-spin text-muted" />
+          </div>
+        )}
+        {hasMore && !isLoading && !isError && <div ref={sentinelRef} className="h-px" />}
+      </div>
+    </div>
+  );
+}
+
+const HistoryItem = memo(function HistoryItem({ entry }: { entry: PlayHistoryEntry }) {
+  const startedAt = new Date(entry.startedAt).toLocaleString(undefined, {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+
+  return (
+    <div className="flex items-center gap-2 py-2.5">
+      <div className="overflow-hidden w-8 h-8 rounded border border-border shrink-0">
+        <img
+          src={entry.thumbnailUrl}
+          alt={entry.title}
+          className="w-full h-full object-cover scale-[1.33]"
+          loading="lazy"
+          decoding="async"
+        />
+      </div>
+      <div className="flex-1 min-w-0">
+        <a
+          href={entry.youtubeUrl}
+          target="_blank"
+          rel="noreferrer"
+          className="block font-body text-xs font-medium text-fg truncate hover:underline"
+        >
+          {entry.title}
+        </a>
+        <p className="font-mono text-[9px] text-muted truncate">
+          {startedAt} · req. {entry.requestedBy}
+        </p>
+      </div>
+      <span className="font-mono text-[10px] text-muted shrink-0 text-right">
+        {entry.playedMs === null ? (
+          <span className="text-accent">playing</span>
+        ) : (
+          <>
+            {entry.skipped && <span className="text-faint">skipped · </span>}
+            {formatDuration(Math.floor(entry.playedMs / 1000))} / {formatDuration(entry.duration)}
+          </>
+        )}
+      </span>
+    </div>
+  );
+});
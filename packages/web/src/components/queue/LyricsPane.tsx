@@ -0,0 +1,121 @@
+import type { QueueState, SongLyrics } from '@alfira-bot/server/shared';
+import { activeLyricIndex, parseLyrics } from '@alfira-bot/server/shared';
+import { fetchSongLyrics } from '@alfira-bot/server/shared/api';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { usePlayer } from '../../context/PlayerContext';
+
+const TICK_MS = 200;
+
+/**
+ * Track position in ms, counted from the song's start offset like the
+ * server's. Worked out from trackStartedAt while playing, which is finer
+ * than the player's elapsed seconds, so lines change on the beat. While
+ * paused it follows the player's elapsed time, which a seek updates.
+ */
+function useTrackPositionMs(state: QueueState, elapsed: number): number {
+  const [positionMs, setPositionMs] = useState(0);
+  const { trackStartedAt, playbackRate } = state;
+  const playing = state.isPlaying && !state.isPaused && trackStartedAt !== null;
+
+  useEffect(() => {
+    if (!playing || trackStartedAt === null) return;
+    const tick = () => setPositionMs(Math.max(0, (Date.now() - trackStartedAt) * playbackRate));
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [playing, trackStartedAt, playbackRate]);
+
+  useEffect(() => {
+    if (!playing) setPositionMs(elapsed * 1000);
+  }, [playing, elapsed]);
+
+  return positionMs;
+}
+
+/**
+ * Lyrics of the playing track. Synced (LRC) lyrics highlight the current
+ * line and keep it centred; plain lyrics are shown as they are.
+ */
+export default function LyricsPane() {
+  const { state, elapsed } = usePlayer();
+  const songId = state.currentSong?.id ?? null;
+  const [lyrics, setLyrics] = useState<SongLyrics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const positionMs = useTrackPositionMs(state, elapsed);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const lineRefs = useRef<(HTMLParagraphElement | null)[]>([]);
+
+  useEffect(() => {
+    setLyrics(null);
+    if (!songId) return;
+    let cancelled = false;
+    setLoading(true);
+    fetchSongLyrics(songId)
+      .then((data) => {
+        if (!cancelled) setLyrics(data);
+      })
+      .catch(() => {
+        // silently fail — shown as no lyrics
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [songId]);
+
+  const parsed = useMemo(() => (lyrics ? parseLyrics(lyrics.text) : null), [lyrics]);
+  // LRC times count from the start of the video, not from the trimmed start.
+  const videoPositionMs = positionMs + (state.currentSong?.startOffsetMs ?? 0);
+  const active = parsed?.synced ? activeLyricIndex(parsed.lines, videoPositionMs) : -1;
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    const line = lineRefs.current[active];
+    if (!container || !line) return;
+    container.scrollTo({
+      top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+      behavior: 'smooth',
+    });
+  }, [active]);
+
+  if (!songId) {
+    return <p className="py-8 text-center font-mono text-[11px] text-faint">nothing playing</p>;
+  }
+  if (loading) {
+    return (
+      <div className="p-4 space-y-3">
+        <div className="skeleton h-5 w-3/4 rounded" />
+        <div className="skeleton h-5 w-2/3 rounded" />
+        <div className="skeleton h-5 w-1/2 rounded" />
+      </div>
+    );
+  }
+  if (!parsed || parsed.lines.length === 0) {
+    return (
+      <p className="py-8 text-center font-mono text-[11px] text-faint">no lyrics for this song</p>
+    );
+  }
+
+  return (
+    <div ref={scrollRef} className="relative flex-1 overflow-y-auto px-4 py-6 min-h-0">
+      {parsed.lines.map((line, index) => (
+        <p
+          // biome-ignore lint/suspicious/noArrayIndexKey: lines have no id and repeat
+          key={index}
+          ref={(el) => {
+            lineRefs.current[index] = el;
+          }}
+          className={`font-body transition-colors duration-200 ${
+            parsed.synced
+              ? `py-1 text-base ${index === active ? 'text-accent' : index < active ? 'text-muted' : 'text-fg'}`
+              : 'text-sm text-fg min-h-5'
+          }`}
+        >
+          {line.text || (parsed.synced ? '♪' : '')}
+        </p>
+      ))}
+    </div>
+  );
+}
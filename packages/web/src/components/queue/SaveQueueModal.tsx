@@ -0,0 +1,166 @@
+import type { Playlist } from '@alfira-bot/server/shared';
+import { FloppyDiskIcon } from '@phosphor-icons/react';
+import { useCallback, useEffect, useState } from 'react';
+import { getPlaylists, saveQueueAsPlaylist } from '../../api/api';
+import { useNotification } from '../../hooks/useNotification';
+import { apiErrorMessage } from '../../utils/api';
+import { Backdrop } from '../Backdrop';
+import { Button } from '../ui/Button';
+
+function defaultName(): string {
+  return `Queue ${new Date().toLocaleDateString(undefined, { dateStyle: 'medium' })}`;
+}
+
+/**
+ * Saves the playing song and everything queued after it into a new playlist,
+ * or appends them to an existing one.
+ */
+export default function SaveQueueModal({
+  onClose,
+  onSaved,
+}: {
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const { notify } = useNotification();
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [loadingPlaylists, setLoadingPlaylists] = useState(true);
+  // '' saves into a new playlist named below.
+  const [selectedId, setSelectedId] = useState<string | ''>('');
+  const [name, setName] = useState(defaultName);
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [dedupe, setDedupe] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPlaylists = useCallback(async () => {
+    try {
+      setPlaylists(await getPlaylists());
+    } finally {
+      setLoadingPlaylists(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPlaylists();
+  }, [loadPlaylists]);
+
+  const handleSave = async () => {
+    setSubmitting(true);
+    setError('');
+    try {
+      const result = await saveQueueAsPlaylist(
+        selectedId ? { playlistId: selectedId } : { name: name.trim() },
+        { includeHistory, dedupe }
+      );
+      const extra = [
+        result.moved > 0 && `${result.moved} moved`,
+        result.skipped > 0 && `${result.skipped} skipped`,
+      ].filter(Boolean);
+      notify(
+        `Saved ${result.added} song${result.added === 1 ? '' : 's'} to ${result.playlist.name}${extra.length > 0 ? ` (${extra.join(', ')})` : ''}.`,
+        'success'
+      );
+      onSaved();
+    } catch (err: unknown) {
+      setError(apiErrorMessage(err, 'Could not save the queue.'));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Backdrop onClose={onClose}>
+      <div className="p-5 md:p-6 w-full max-w-sm mx-4 modal-clay animate-fade-up">
+        <h2 className="font-display text-2xl md:text-3xl text-fg tracking-wider mb-1">
+          Save Queue
+        </h2>
+        <p className="font-mono text-xs text-muted mb-4 md:mb-6">
+          songs not in the library are left out
+        </p>
+
+        <div className="space-y-3 mb-6">
+          {loadingPlaylists ? (
+            <div className="skeleton h-9 w-full rounded" />
+          ) : (
+            <select
+              value={selectedId}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="input w-full"
+              disabled={submitting}
+              aria-label="Playlist"
+            >
+              <option value="">New playlist</option>
+              {playlists.map((pl) => (
+                <option key={pl.id} value={pl.id}>
+                  {pl.name} {pl._count ? ` (${pl._count.songs} songs)` : ''}
+                </option>
+              ))}
+            </select>
+          )}
+          {selectedId === '' && (
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Playlist name"
+              className="input w-full"
+              disabled={submitting}
+              aria-label="Playlist name"
+            />
+          )}
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeHistory}
+              onChange={(e) => setIncludeHistory(e.target.checked)}
+              disabled={submitting}
+              className="w-4 h-4 rounded border-border bg-surface accent-accent"
+            />
+            <span className="font-mono text-xs text-fg">Include songs already played</span>
+          </label>
+          {selectedId !== '' && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={dedupe}
+                onChange={(e) => setDedupe(e.target.checked)}
+                disabled={submitting}
+                className="w-4 h-4 rounded border-border bg-surface accent-accent"
+              />
+              <span className="font-mono text-xs text-fg">Skip songs already in the playlist</span>
+            </label>
+          )}
+        </div>
+
+        {error && <p className="font-mono text-xs text-danger mb-4">{error}</p>}
+
+        <div className="flex gap-2 justify-end">
+          <Button
+            variant="inherit"
+            type="button"
+            onClick={onClose}
+            disabled={submitting}
+            surface="surface"
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            type="button"
+            onClick={handleSave}
+            disabled={submitting || loadingPlaylists || (selectedId === '' && !name.trim())}
+          >
+            {submitting ? (
+              'Saving...'
+            ) : (
+              <>
+                <FloppyDiskIcon size={12} weight="duotone" className="inline mr-1" />
+                Save
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+    </Backdrop>
+  );
+}
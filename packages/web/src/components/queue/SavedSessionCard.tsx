@@ -0,0 +1,80 @@
+import type { SavedSession } from '@alfira-bot/server/shared';
+import { formatDuration } from '@alfira-bot/server/shared';
+import { ClockCounterClockwiseIcon } from '@phosphor-icons/react';
+import { useState } from 'react';
+import { dismissSavedSession, restoreSession } from '../../api/api';
+import { useAdminView } from '../../context/AdminViewContext';
+import { useNotification } from '../../hooks/useNotification';
+import { apiErrorMessage } from '../../utils/api';
+import { Button } from '../ui/Button';
+
+/**
+ * Offers to pick up the session that was playing before the server last
+ * restarted. The card disappears once the player:update after a restore or
+ * dismiss arrives.
+ */
+export default function SavedSessionCard({ session }: { session: SavedSession }) {
+  const { isAdminView } = useAdminView();
+  const { notify } = useNotification();
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, fallback), 'error', 5000);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const song = session.currentSong;
+  const savedAt = new Date(session.savedAt).toLocaleString();
+
+  return (
+    <div className="card p-3 space-y-3" style={{ background: 'var(--color-base)' }}>
+      <div className="flex items-start gap-3">
+        <ClockCounterClockwiseIcon size={20} weight="duotone" className="text-accent shrink-0" />
+        <div className="min-w-0">
+          <p className="font-body text-sm text-fg">Previous session saved</p>
+          <p className="font-mono text-[10px] text-muted mt-0.5">
+            {song
+              ? `${song.nickname || song.title} at ${formatDuration(Math.floor(session.positionMs / 1000))}`
+              : 'no track playing'}
+            {` · ${session.queueLength} queued · ${savedAt}`}
+          </p>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="primary"
+          disabled={busy}
+          onClick={() => run(() => restoreSession('resume'), 'Could not restore the session.')}
+          className="px-3 py-1.5 text-xs"
+        >
+          resume
+        </Button>
+        <Button
+          variant="inherit"
+          surface="base"
+          disabled={busy}
+          onClick={() => run(() => restoreSession('paused'), 'Could not restore the session.')}
+          className="px-3 py-1.5 text-xs"
+        >
+          load paused
+        </Button>
+        {isAdminView && (
+          <Button
+            variant="danger"
+            disabled={busy}
+            onClick={() => run(dismissSavedSession, 'Could not dismiss the session.')}
+            className="px-3 py-1.5 text-xs ml-auto"
+          >
+            dismiss
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
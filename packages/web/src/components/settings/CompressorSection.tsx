@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useAdminView } from '../../context/AdminViewContext';
+import { useGuild } from '../../context/GuildContext';
+import { AudioPresetButton } from '../AudioPresetButton';
 import SettingsToggle from './SettingsToggle';
 
 const DEFAULTS = { enabled: false, threshold: -6, ratio: 4.0, attack: 5, release: 50, gain: 3 };
@@ -23,16 +25,23 @@ interface CompressorValues {
   gain: number;
 }
 
-export default function CompressorSection() {
-  const { isAdminView } = useAdminView();
+export default function CompressorSection({ onPresetApplied }: { onPresetApplied: () => void }) {
+  const { isAdminView: adminViewOn } = useAdminView();
+  const { guild } = useGuild();
+  // Audio settings belong to the selected guild, so admin rights are checked there.
+  const isAdminView = adminViewOn && !!guild?.isAdmin;
+  const settingsUrl = `/api/guilds/${guild?.id}/settings/compressor`;
   const [values, setValues] = useState<CompressorValues>(DEFAULTS);
   const [savedValues, setSavedValues] = useState<CompressorValues>(DEFAULTS);
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     async function load() {
+      // Don't show the previous guild's values while the new ones load.
+      setValues(DEFAULTS);
+      setSavedValues(DEFAULTS);
       try {
-        const res = await fetch('/api/settings/compressor');
+        const res = await fetch(settingsUrl);
         if (res.ok) {
           const data = (await res.json()) as CompressorValues;
           setValues(data);
@@ -43,14 +52,14 @@ export default function CompressorSection() {
       }
     }
     if (isAdminView) load();
-  }, [isAdminView]);
+  }, [isAdminView, settingsUrl]);
 
   const hasChanges = JSON.stringify(values) !== JSON.stringify(savedValues);
 
   async function handleSave() {
     setSaving(true);
     try {
-      const res = await fetch('/api/settings/compressor', {
+      const res = await fetch(settingsUrl, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(values),
@@ -79,11 +88,14 @@ export default function CompressorSection() {
     <div className={`space-y-3 ${dimmed ? 'opacity-40 pointer-events-none' : ''}`}>
       <div className="flex items-center justify-between">
         <h4 className="font-mono text-[11px] text-muted uppercase tracking-wider">Compressor</h4>
-        <SettingsToggle
-          label=""
-          checked={values.enabled}
-          onChange={(enabled) => setValues((v) => ({ ...v, enabled }))}
-        />
+        <div className="flex items-center gap-2">
+          <AudioPresetButton onApplied={onPresetApplied} />
+          <SettingsToggle
+            label=""
+            checked={values.enabled}
+            onChange={(enabled) => setValues((v) => ({ ...v, enabled }))}
+          />
+        </div>
       </div>
 
       <div className="space-y-2">
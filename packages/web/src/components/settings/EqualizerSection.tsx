@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useAdminView } from '../../context/AdminViewContext';
+import { useGuild } from '../../context/GuildContext';
+import { AudioPresetButton } from '../AudioPresetButton';
 
 const FREQ_LABELS = [
   '25',
@@ -20,16 +22,23 @@ const FREQ_LABELS = [
 ];
 const DEFAULT_BANDS = Array(15).fill(50);
 
-export default function EqualizerSection() {
-  const { isAdminView } = useAdminView();
+export default function EqualizerSection({ onPresetApplied }: { onPresetApplied: () => void }) {
+  const { isAdminView: adminViewOn } = useAdminView();
+  const { guild } = useGuild();
+  // Audio settings belong to the selected guild, so admin rights are checked there.
+  const isAdminView = adminViewOn && !!guild?.isAdmin;
+  const settingsUrl = `/api/guilds/${guild?.id}/settings/equalizer`;
   const [bands, setBands] = useState<number[]>(DEFAULT_BANDS);
   const [savedBands, setSavedBands] = useState<number[]>(DEFAULT_BANDS);
   const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     async function load() {
+      // Don't show the previous guild's values while the new ones load.
+      setBands(DEFAULT_BANDS);
+      setSavedBands(DEFAULT_BANDS);
       try {
-        const res = await fetch('/api/settings/equalizer');
+        const res = await fetch(settingsUrl);
         if (res.ok) {
           const data = (await res.json()) as { bands: number[] };
           setBands(data.bands);
@@ -40,14 +49,14 @@ export default function EqualizerSection() {
       }
     }
     if (isAdminView) load();
-  }, [isAdminView]);
+  }, [isAdminView, settingsUrl]);
 
   const hasChanges = JSON.stringify(bands) !== JSON.stringify(savedBands);
 
   async function handleSave() {
     setSaving(true);
     try {
-      const res = await fetch('/api/settings/equalizer', {
+      const res = await fetch(settingsUrl, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ bands }),
@@ -80,7 +89,10 @@ export default function EqualizerSection() {
 
   return (
     <div className={`space-y-3 ${!isAdminView ? 'opacity-40 pointer-events-none' : ''}`}>
-      <h4 className="font-mono text-[11px] text-muted uppercase tracking-wider">Equalizer</h4>
+      <div className="flex items-center justify-between">
+        <h4 className="font-mono text-[11px] text-muted uppercase tracking-wider">Equalizer</h4>
+        <AudioPresetButton onApplied={onPresetApplied} />
+      </div>
       <div className="flex flex-wrap justify-center gap-2 md:flex-nowrap">
         {bands.map((value, i) => (
           // biome-ignore lint/suspicious/noArrayIndexKey: static UI elements with stable order
@@ -0,0 +1,108 @@
+import type { FadeSettings } from '@alfira-bot/server/shared';
+import { useEffect, useState } from 'react';
+import { useAdminView } from '../../context/AdminViewContext';
+import { useGuild } from '../../context/GuildContext';
+
+const DEFAULTS: FadeSettings = { fadeMs: 0 };
+
+export default function FadeSection() {
+  const { isAdminView: adminViewOn } = useAdminView();
+  const { guild } = useGuild();
+  // Audio settings belong to the selected guild, so admin rights are checked there.
+  const isAdminView = adminViewOn && !!guild?.isAdmin;
+  const settingsUrl = `/api/guilds/${guild?.id}/settings/fade`;
+  const [values, setValues] = useState<FadeSettings>(DEFAULTS);
+  const [savedValues, setSavedValues] = useState<FadeSettings>(DEFAULTS);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    async function load() {
+      // Don't show the previous guild's values while the new ones load.
+      setValues(DEFAULTS);
+      setSavedValues(DEFAULTS);
+      try {
+        const res = await fetch(settingsUrl);
+        if (res.ok) {
+          const data = (await res.json()) as FadeSettings;
+          setValues(data);
+          setSavedValues(data);
+        }
+      } catch {
+        // silently fail
+      }
+    }
+    if (isAdminView) load();
+  }, [isAdminView, settingsUrl]);
+
+  const hasChanges = values.fadeMs !== savedValues.fadeMs;
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const res = await fetch(settingsUrl, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+      if (res.ok) {
+        setSavedValues(values);
+      } else {
+        console.error('Failed to save fade settings:', res.status);
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const dimmed = !isAdminView;
+
+  return (
+    <div className={`space-y-3 ${dimmed ? 'opacity-40 pointer-events-none' : ''}`}>
+      <div>
+        <h4 className="font-mono text-[11px] text-muted uppercase tracking-wider">Fades</h4>
+        <p className="font-mono text-[11px] text-muted mt-0.5">
+          Tracks fade in and out; skip, stop and pause fade for up to 2s. Applies from the next
+          track.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="font-mono text-[11px] text-muted w-20 shrink-0">Duration</span>
+        <span className="font-mono text-[11px] text-fg w-16 shrink-0">
+          {values.fadeMs === 0 ? 'off' : `${(values.fadeMs / 1000).toFixed(1)} s`}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={10000}
+          step={500}
+          value={values.fadeMs}
+          onChange={(e) => setValues({ fadeMs: parseInt(e.target.value, 10) })}
+          className="flex-1 accent-accent"
+        />
+      </div>
+
+      <div className="flex gap-3 pt-1 justify-end">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!hasChanges || saving}
+          className={`font-body text-sm px-4 py-1.5 rounded transition-colors ${
+            hasChanges && !saving
+              ? 'bg-accent text-elevated cursor-pointer'
+              : 'bg-elevated text-muted cursor-not-allowed'
+          }`}
+        >
+          {saving ? 'Saving…' : 'Save Changes'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setValues(DEFAULTS)}
+          className="font-body text-sm px-4 py-1.5 rounded bg-elevated text-muted hover:text-fg transition-colors cursor-pointer"
+        >
+          Reset to Defaults
+        </button>
+      </div>
+    </div>
+  );
+}
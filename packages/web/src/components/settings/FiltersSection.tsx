@@ -0,0 +1,152 @@
+import { AUDIO_FILTER_SPECS, type AudioFilterName } from '@alfira-bot/server/shared';
+import { useEffect, useState } from 'react';
+import { useAdminView } from '../../context/AdminViewContext';
+import { useGuild } from '../../context/GuildContext';
+import SettingsToggle from './SettingsToggle';
+
+// AudioFilters, edited generically as name → parameter → value.
+type FilterValues = Record<string, Record<string, number>>;
+
+const FILTER_NAMES = Object.keys(AUDIO_FILTER_SPECS) as AudioFilterName[];
+
+function defaultParams(name: AudioFilterName): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(AUDIO_FILTER_SPECS[name].params).map(([param, spec]) => [param, spec.default])
+  );
+}
+
+function formatValue(value: number, step: number, unit?: string): string {
+  const decimals = step < 0.1 ? 2 : step < 1 ? 1 : 0;
+  return `${value.toFixed(decimals)}${unit ? ` ${unit}` : ''}`;
+}
+
+export default function FiltersSection() {
+  const { isAdminView: adminViewOn } = useAdminView();
+  const { guild } = useGuild();
+  // Audio settings belong to the selected guild, so admin rights are checked there.
+  const isAdminView = adminViewOn && !!guild?.isAdmin;
+  const settingsUrl = `/api/guilds/${guild?.id}/settings/filters`;
+  const [values, setValues] = useState<FilterValues>({});
+  const [savedValues, setSavedValues] = useState<FilterValues>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    async function load() {
+      // Don't show the previous guild's values while the new ones load.
+      setValues({});
+      setSavedValues({});
+      try {
+        const res = await fetch(settingsUrl);
+        if (res.ok) {
+          const data = (await res.json()) as FilterValues;
+          setValues(data);
+          setSavedValues(data);
+        }
+      } catch {
+        // silently fail
+      }
+    }
+    if (isAdminView) load();
+  }, [isAdminView, settingsUrl]);
+
+  const hasChanges = JSON.stringify(values) !== JSON.stringify(savedValues);
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const res = await fetch(settingsUrl, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+      if (res.ok) {
+        setSavedValues(values);
+      } else {
+        console.error('Failed to save filter settings:', res.status);
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function toggleFilter(name: AudioFilterName, enabled: boolean) {
+    setValues((v) => {
+      const { [name]: _removed, ...rest } = v;
+      return enabled ? { ...rest, [name]: defaultParams(name) } : rest;
+    });
+  }
+
+  function updateParam(name: AudioFilterName, param: string, value: number) {
+    setValues((v) => ({ ...v, [name]: { ...v[name], [param]: value } }));
+  }
+
+  const dimmed = !isAdminView;
+
+  return (
+    <div className={`space-y-3 ${dimmed ? 'opacity-40 pointer-events-none' : ''}`}>
+      <div>
+        <h4 className="font-mono text-[11px] text-muted uppercase tracking-wider">Effects</h4>
+        <p className="font-mono text-[11px] text-muted mt-0.5">
+          Applied together with the equalizer and compressor. Speed and rate change how long tracks
+          take to play.
+        </p>
+      </div>
+
+      {FILTER_NAMES.map((name) => {
+        const { label, params } = AUDIO_FILTER_SPECS[name];
+        const current = values[name];
+        return (
+          <div key={name} className="space-y-2">
+            <SettingsToggle
+              label={label}
+              checked={!!current}
+              onChange={(enabled) => toggleFilter(name, enabled)}
+            />
+            {current &&
+              Object.entries(params).map(([param, spec]) => (
+                <div key={param} className="flex items-center gap-3">
+                  <span className="font-mono text-[11px] text-muted w-20 shrink-0">
+                    {spec.label}
+                  </span>
+                  <span className="font-mono text-[11px] text-fg w-16 shrink-0">
+                    {formatValue(current[param], spec.step, spec.unit)}
+                  </span>
+                  <input
+                    type="range"
+                    min={spec.min}
+                    max={spec.max}
+                    step={spec.step}
+                    value={current[param]}
+                    onChange={(e) => updateParam(name, param, parseFloat(e.target.value))}
+                    className="flex-1 accent-accent"
+                  />
+                </div>
+              ))}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-3 pt-1 justify-end">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!hasChanges || saving}
+          className={`font-body text-sm px-4 py-1.5 rounded transition-colors ${
+            hasChanges && !saving
+              ? 'bg-accent text-elevated cursor-pointer'
+              : 'bg-elevated text-muted cursor-not-allowed'
+          }`}
+        >
+          {saving ? 'Saving…' : 'Save Changes'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setValues({})}
+          className="font-body text-sm px-4 py-1.5 rounded bg-elevated text-muted hover:text-fg transition-colors cursor-pointer"
+        >
+          Turn All Off
+        </button>
+      </div>
+    </div>
+  );
+}
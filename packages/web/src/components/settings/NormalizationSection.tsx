@@ -0,0 +1,98 @@
+import type { NormalizationStatus } from '@alfira-bot/server/shared';
+import { useEffect, useState } from 'react';
+import { getNormalizationStatus, normalizeLibrary } from '../../api/api';
+import { useAdminView } from '../../context/AdminViewContext';
+import { useNotification } from '../../hooks/useNotification';
+import { apiErrorMessage } from '../../utils/api';
+
+const POLL_MS = 2000;
+
+export default function NormalizationSection() {
+  const { isAdminView } = useAdminView();
+  const { notify } = useNotification();
+  const [status, setStatus] = useState<NormalizationStatus | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  const running = status?.running ?? false;
+
+  // Poll while a run is in progress; load once otherwise.
+  useEffect(() => {
+    if (!isAdminView) return;
+    let cancelled = false;
+    const load = () =>
+      getNormalizationStatus()
+        .then((data) => {
+          if (!cancelled) setStatus(data);
+        })
+        .catch(() => {
+          // silently fail
+        });
+    void load();
+    const interval = running ? setInterval(load, POLL_MS) : null;
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [isAdminView, running]);
+
+  async function handleStart(remeasure: boolean) {
+    setStarting(true);
+    try {
+      setStatus(await normalizeLibrary(remeasure));
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not start loudness analysis.'), 'error', 5000);
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  const dimmed = !isAdminView;
+
+  return (
+    <div className={`space-y-3 ${dimmed ? 'opacity-40 pointer-events-none' : ''}`}>
+      <div>
+        <h4 className="font-mono text-[11px] text-muted uppercase tracking-wider">
+          Loudness Normalization
+        </h4>
+        <p className="font-mono text-[11px] text-muted mt-0.5">
+          Measures each song's loudness and evens out levels between tracks. New songs are measured
+          when added; a song's volume boost applies on top. Covers the whole library, not just this
+          server.
+        </p>
+      </div>
+
+      <p className="font-mono text-[11px] text-fg">
+        {status === null
+          ? '…'
+          : running
+            ? `Analysing ${status.done} of ${status.total} songs${status.failed > 0 ? ` (${status.failed} failed)` : ''}`
+            : status.unanalysed === 0
+              ? 'Every song has been measured.'
+              : `${status.unanalysed} song${status.unanalysed === 1 ? '' : 's'} not measured yet.`}
+      </p>
+
+      <div className="flex gap-3 pt-1 justify-end">
+        <button
+          type="button"
+          onClick={() => handleStart(false)}
+          disabled={running || starting || status?.unanalysed === 0}
+          className={`font-body text-sm px-4 py-1.5 rounded transition-colors ${
+            !running && !starting && status?.unanalysed !== 0
+              ? 'bg-accent text-elevated cursor-pointer'
+              : 'bg-elevated text-muted cursor-not-allowed'
+          }`}
+        >
+          {running ? 'Normalizing…' : 'Normalize Library'}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleStart(true)}
+          disabled={running || starting}
+          className="font-body text-sm px-4 py-1.5 rounded bg-elevated text-muted hover:text-fg transition-colors cursor-pointer disabled:cursor-not-allowed disabled:hover:text-muted"
+        >
+          Re-measure All
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import type { AudioPreset } from '@alfira-bot/server/shared';
+import { FloppyDiskIcon, PencilSimpleIcon, TrashIcon } from '@phosphor-icons/react';
+import { useEffect, useRef, useState } from 'react';
+import {
+  createAudioPreset,
+  deleteAudioPreset,
+  getAudioPresets,
+  renameAudioPreset,
+} from '../../api/api';
+import { useAdminView } from '../../context/AdminViewContext';
+import { useGuild } from '../../context/GuildContext';
+import { useNotification } from '../../hooks/useNotification';
+import { apiErrorMessage } from '../../utils/api';
+import ConfirmModal from '../ConfirmModal';
+import { Button } from '../ui/Button';
+
+/**
+ * Saved audio presets: save the current equalizer, compressor and effects
+ * under a name, and rename or delete saved ones. Presets are applied from the
+ * equalizer and compressor headers or the now-playing bar.
+ */
+export default function PresetsSection() {
+  const { isAdminView: adminViewOn } = useAdminView();
+  const { guild } = useGuild();
+  const { notify } = useNotification();
+  // Audio settings belong to the selected guild, so admin rights are checked there.
+  const isAdminView = adminViewOn && !!guild?.isAdmin;
+  const [presets, setPresets] = useState<AudioPreset[]>([]);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AudioPreset | null>(null);
+  const editInputRef = useRef<HTMLInputElement>(null);
+
+  const editingId = editing?.id;
+  useEffect(() => {
+    if (editingId) editInputRef.current?.focus();
+  }, [editingId]);
+
+  const guildId = isAdminView ? guild?.id : undefined;
+  useEffect(() => {
+    if (!guildId) return;
+    let cancelled = false;
+    setPresets([]);
+    getAudioPresets()
+      .then((data) => {
+        if (!cancelled) setPresets(data.filter((preset) => !preset.builtIn));
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) notify(apiErrorMessage(err, 'Could not load presets.'), 'error', 5000);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [guildId, notify]);
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const created = await createAudioPreset(name.trim());
+      setPresets((prev) =>
+        [...prev, created].sort((a, b) =>
+          a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+        )
+      );
+      setName('');
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not save the preset.'), 'error', 5000);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRename() {
+    if (!editing) return;
+    const { id, name: newName } = editing;
+    try {
+      const updated = await renameAudioPreset(id, newName.trim());
+      setPresets((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+      setEditing(null);
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not rename the preset.'), 'error', 5000);
+    }
+  }
+
+  async function handleDelete() {
+    if (!pendingDelete) return;
+    const { id } = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await deleteAudioPreset(id);
+      setPresets((prev) => prev.filter((p) => p.id !== id));
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not delete the preset.'), 'error', 5000);
+    }
+  }
+
+  return (
+    <div className={`space-y-3 ${!isAdminView ? 'opacity-40 pointer-events-none' : ''}`}>
+      <div>
+        <h4 className="font-mono text-[11px] text-muted uppercase tracking-wider">Presets</h4>
+        <p className="font-mono text-[11px] text-muted mt-0.5">
+          Saves the equalizer, compressor and effects as they are saved now. Bass Boost, Vocal,
+          Night Mode and Flat are always available.
+        </p>
+      </div>
+
+      {presets.length > 0 && (
+        <ul className="border border-border rounded-md bg-elevated divide-y divide-border">
+          {presets.map((preset) => (
+            <li key={preset.id} className="flex items-center gap-3 px-3 py-1.5">
+              {editing?.id === preset.id ? (
+                <input
+                  ref={editInputRef}
+                  className="input flex-1 min-w-0 text-sm"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ id: preset.id, name: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && editing.name.trim()) void handleRename();
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  onBlur={() => setEditing(null)}
+                  aria-label="Preset name"
+                />
+              ) : (
+                <span className="flex-1 min-w-0 font-body text-sm text-fg truncate">
+                  {preset.name}
+                </span>
+              )}
+              <Button
+                variant="inherit"
+                size="icon"
+                onClick={() => setEditing({ id: preset.id, name: preset.name })}
+                title="Rename preset"
+              >
+                <PencilSimpleIcon size={16} weight="duotone" />
+              </Button>
+              <Button
+                variant="inherit"
+                size="icon"
+                onClick={() => setPendingDelete(preset)}
+                title="Delete preset"
+                className="hover:text-danger"
+              >
+                <TrashIcon size={16} weight="duotone" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-3">
+        <input
+          className="input flex-1 min-w-0 text-sm"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && name.trim() && !saving) void handleSave();
+          }}
+          placeholder="Preset name, e.g. Tavern"
+          maxLength={50}
+          aria-label="New preset name"
+        />
+        <Button variant="primary" onClick={handleSave} disabled={!name.trim() || saving}>
+          <FloppyDiskIcon size={12} weight="duotone" className="inline mr-1" />
+          {saving ? 'Saving…' : 'Save Current'}
+        </Button>
+      </div>
+
+      {pendingDelete && (
+        <ConfirmModal
+          title="Delete Preset"
+          message={`Delete the "${pendingDelete.name}" preset?`}
+          confirmLabel="Delete"
+          onConfirm={handleDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import type { LoopMode, PlaybackSchedule, Playlist, VoiceChannel } from '@alfira-bot/server/shared';
+import { CalendarPlusIcon, PauseIcon, PlayIcon, TrashIcon } from '@phosphor-icons/react';
+import { useEffect, useState } from 'react';
+import {
+  createSchedule,
+  deleteSchedule,
+  getPlaylists,
+  getSchedules,
+  getVoiceChannels,
+  setScheduleEnabled,
+} from '../../api/api';
+import { useGuild } from '../../context/GuildContext';
+import { useNotification } from '../../hooks/useNotification';
+import { apiErrorMessage } from '../../utils/api';
+import ConfirmModal from '../ConfirmModal';
+import { Button } from '../ui/Button';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Week shown Monday first; values stay 0 (Sunday) to 6.
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const LOOP_LABELS: Record<LoopMode, string> = {
+  off: 'no loop',
+  song: 'loop song',
+  queue: 'loop queue',
+};
+
+const LOCAL_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function describeDays(days: number[]): string {
+  if (days.length === 7) return 'Every day';
+  return DAY_ORDER.filter((day) => days.includes(day))
+    .map((day) => DAY_LABELS[day])
+    .join(', ');
+}
+
+export default function SchedulesTab() {
+  const { guild } = useGuild();
+  const { notify } = useNotification();
+  const [schedules, setSchedules] = useState<PlaybackSchedule[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [channels, setChannels] = useState<VoiceChannel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingDelete, setPendingDelete] = useState<PlaybackSchedule | null>(null);
+
+  // New schedule form
+  const [playlistId, setPlaylistId] = useState('');
+  const [voiceChannelId, setVoiceChannelId] = useState('');
+  const [days, setDays] = useState<number[]>([]);
+  const [time, setTime] = useState('19:30');
+  const [mode, setMode] = useState<'sequential' | 'random'>('random');
+  const [loopMode, setLoopMode] = useState<LoopMode>('queue');
+  const [saving, setSaving] = useState(false);
+
+  // Schedules belong to the selected guild, so admin rights are checked there.
+  const guildId = guild?.isAdmin ? guild.id : undefined;
+  useEffect(() => {
+    if (!guildId) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([getSchedules(), getPlaylists(), getVoiceChannels().catch(() => [])])
+      .then(([scheduleData, playlistData, channelData]) => {
+        if (cancelled) return;
+        setSchedules(scheduleData);
+        setPlaylists(playlistData);
+        setChannels(channelData);
+        setPlaylistId((current) => current || playlistData[0]?.id || '');
+        setVoiceChannelId(channelData[0]?.id ?? '');
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) notify(apiErrorMessage(err, 'Could not load schedules.'), 'error', 5000);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [guildId, notify]);
+
+  function toggleDay(day: number) {
+    setDays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]));
+  }
+
+  async function handleCreate() {
+    setSaving(true);
+    try {
+      const created = await createSchedule({
+        voiceChannelId,
+        playlistId,
+        mode,
+        loopMode,
+        days,
+        time,
+        timeZone: LOCAL_TIME_ZONE,
+      });
+      setSchedules((prev) => [...prev, created]);
+      setDays([]);
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not create the schedule.'), 'error', 5000);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(schedule: PlaybackSchedule) {
+    try {
+      const updated = await setScheduleEnabled(schedule.id, !schedule.enabled);
+      setSchedules((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not update the schedule.'), 'error', 5000);
+    }
+  }
+
+  async function handleDelete() {
+    if (!pendingDelete) return;
+    const { id } = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await deleteSchedule(id);
+      setSchedules((prev) => prev.filter((s) => s.id !== id));
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not delete the schedule.'), 'error', 5000);
+    }
+  }
+
+  if (!guildId) {
+    return (
+      <p className="font-mono text-xs text-muted">
+        Schedules need admin rights in the selected server.
+      </p>
+    );
+  }
+
+  const channelName = (id: string) => channels.find((c) => c.id === id)?.name ?? 'unknown channel';
+  const canCreate = !!playlistId && !!voiceChannelId && days.length > 0 && !!time && !saving;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div>
+          <h3 className="font-mono text-[11px] text-muted uppercase tracking-wider">Schedules</h3>
+          <p className="font-mono text-[11px] text-muted mt-0.5">
+            The bot joins the voice channel and starts the playlist at the set time each week. If it
+            is already in voice, the playlist is added to the queue there instead.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="skeleton h-9 w-full rounded" />
+        ) : schedules.length === 0 ? (
+          <p className="font-mono text-xs text-muted">No schedules yet.</p>
+        ) : (
+          <ul className="border border-border rounded-md bg-elevated divide-y divide-border">
+            {schedules.map((schedule) => (
+              <li key={schedule.id} className="flex items-center gap-3 px-3 py-2">
+                <div className={`flex-1 min-w-0 ${schedule.enabled ? '' : 'opacity-50'}`}>
+                  <p className="font-body text-sm text-fg truncate">
+                    {describeDays(schedule.days)} at {schedule.time}
+                    {schedule.timeZone !== LOCAL_TIME_ZONE && (
+                      <span className="text-muted"> ({schedule.timeZone})</span>
+                    )}
+                  </p>
+                  <p className="font-mono text-[11px] text-muted truncate">
+                    {schedule.playlistName ?? 'deleted playlist'} ·{' '}
+                    {schedule.mode === 'random' ? 'shuffled' : 'in order'} ·{' '}
+                    {LOOP_LABELS[schedule.loopMode]} · {channelName(schedule.voiceChannelId)}
+                    {!schedule.enabled && ' · paused'}
+                  </p>
+                </div>
+                <Button
+                  variant="inherit"
+                  size="icon"
+                  surface="surface"
+                  onClick={() => handleToggle(schedule)}
+                  title={schedule.enabled ? 'Pause schedule' : 'Resume schedule'}
+                >
+                  {schedule.enabled ? (
+                    <PauseIcon size={16} weight="duotone" />
+                  ) : (
+                    <PlayIcon size={16} weight="duotone" />
+                  )}
+                </Button>
+                <Button
+                  variant="inherit"
+                  size="icon"
+                  surface="surface"
+                  onClick={() => setPendingDelete(schedule)}
+                  title="Delete schedule"
+                  className="hover:text-danger"
+                >
+                  <TrashIcon size={16} weight="duotone" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="border-t border-muted/20 my-4" />
+
+      <div className="space-y-3">
+        <h3 className="font-mono text-[11px] text-muted uppercase tracking-wider">New Schedule</h3>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <select
+            value={playlistId}
+            onChange={(e) => setPlaylistId(e.target.value)}
+            className="input w-full"
+            aria-label="Playlist"
+          >
+            {playlists.length === 0 && <option value="">No playlists</option>}
+            {playlists.map((pl) => (
+              <option key={pl.id} value={pl.id}>
+                {pl.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={voiceChannelId}
+            onChange={(e) => setVoiceChannelId(e.target.value)}
+            className="input w-full"
+            aria-label="Voice channel"
+          >
+            {channels.length === 0 && <option value="">No voice channels</option>}
+            {channels.map((channel) => (
+              <option key={channel.id} value={channel.id}>
+                {channel.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as 'sequential' | 'random')}
+            className="input w-full"
+            aria-label="Order"
+          >
+            <option value="random">Shuffled</option>
+            <option value="sequential">In order</option>
+          </select>
+          <select
+            value={loopMode}
+            onChange={(e) => setLoopMode(e.target.value as LoopMode)}
+            className="input w-full"
+            aria-label="Loop"
+          >
+            <option value="queue">Loop queue</option>
+            <option value="song">Loop song</option>
+            <option value="off">No loop</option>
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {DAY_ORDER.map((day) => (
+            <Button
+              key={day}
+              variant="inherit"
+              onClick={() => toggleDay(day)}
+              className={days.includes(day) ? 'pressed text-accent' : ''}
+            >
+              {DAY_LABELS[day]}
+            </Button>
+          ))}
+          <input
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className="input w-28"
+            aria-label="Time"
+          />
+          <span className="font-mono text-[11px] text-muted">{LOCAL_TIME_ZONE}</span>
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="primary" onClick={handleCreate} disabled={!canCreate}>
+            <CalendarPlusIcon size={12} weight="duotone" className="inline mr-1" />
+            {saving ? 'Adding…' : 'Add Schedule'}
+          </Button>
+        </div>
+      </div>
+
+      {pendingDelete && (
+        <ConfirmModal
+          title="Delete Schedule"
+          message={`Delete the ${describeDays(pendingDelete.days).toLowerCase()} ${pendingDelete.time} schedule?`}
+          confirmLabel="Delete"
+          onConfirm={handleDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,51 @@
+import { useState } from 'react';
 import { useAuth } from '../../context/AuthContext';
 import CompressorSection from './CompressorSection';
 import EqualizerSection from './EqualizerSection';
+import FadeSection from './FadeSection';
+import FiltersSection from './FiltersSection';
+import NormalizationSection from './NormalizationSection';
+import PresetsSection from './PresetsSection';
 
 export default function ServerTab() {
   const { user } = useAuth();
+  // Bumped when a preset is applied, so the audio sections reload what it saved.
+  const [presetVersion, setPresetVersion] = useState(0);
+  const handlePresetApplied = () => setPresetVersion((v) => v + 1);
 
   return (
     <div className="space-y-2">
-      {user?.isAdmin && <EqualizerSection />}
+      {user?.isAdmin && (
+        <EqualizerSection key={presetVersion} onPresetApplied={handlePresetApplied} />
+      )}
+      {user?.isAdmin && (
+        <>
+          <div className="border-t border-muted/20 my-4" />
+          <CompressorSection key={presetVersion} onPresetApplied={handlePresetApplied} />
+        </>
+      )}
+      {user?.isAdmin && (
+        <>
+          <div className="border-t border-muted/20 my-4" />
+          <FiltersSection key={presetVersion} />
+        </>
+      )}
+      {user?.isAdmin && (
+        <>
+          <div className="border-t border-muted/20 my-4" />
+          <PresetsSection />
+        </>
+      )}
+      {user?.isAdmin && (
+        <>
+          <div className="border-t border-muted/20 my-4" />
+          <FadeSection />
+        </>
+      )}
       {user?.isAdmin && (
         <>
           <div className="border-t border-muted/20 my-4" />
-          <CompressorSection />
+          <NormalizationSection />
         </>
       )}
     </div>
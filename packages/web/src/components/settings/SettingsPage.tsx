@@ -1,8 +1,10 @@
 import { useState } from 'react';
 import AppearanceTab from './AppearanceTab';
+import SchedulesTab from './SchedulesTab';
 import ServerTab from './ServerTab';
 import SettingsTabs from './SettingsTabs';
 import TagsTab from './TagsTab';
+import UnavailableTab from './UnavailableTab';
 
 export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState('appearance');
@@ -13,8 +15,12 @@ export default function SettingsPage() {
         return <AppearanceTab />;
       case 'audio':
         return <ServerTab />;
+      case 'schedules':
+        return <SchedulesTab />;
       case 'tags':
         return <TagsTab />;
+      case 'unavailable':
+        return <UnavailableTab />;
       default:
         return <AppearanceTab />;
     }
@@ -9,7 +9,9 @@ interface TabItem {
 const TABS: TabItem[] = [
   { id: 'appearance', label: 'Appearance' },
   { id: 'audio', label: 'Audio', adminOnly: true },
+  { id: 'schedules', label: 'Schedules', adminOnly: true },
   { id: 'tags', label: 'Tag Editor', adminOnly: true },
+  { id: 'unavailable', label: 'Unavailable Songs', adminOnly: true },
 ];
 
 interface SettingsTabsProps {
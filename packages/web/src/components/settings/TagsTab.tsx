@@ -2,6 +2,8 @@ import { deleteTag, fetchTagSongs, fetchTags, updateTag } from '@alfira-bot/serv
 import type { Song } from '@alfira-bot/server/shared/types';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useTagColors } from '../../context/TagsContext';
+import { useAudioPresets } from '../../hooks/useAudioPresets';
+import AudioPresetSelect from '../AudioPresetSelect';
 import ConfirmModal from '../ConfirmModal';
 
 const TAG_COLORS = [
@@ -43,6 +45,7 @@ interface TagItem {
   canonicalName: string;
   nameLower: string;
   color?: string | null;
+  audioPresetId?: string | null;
 }
 
 export default function TagsTab() {
@@ -56,6 +59,7 @@ export default function TagsTab() {
   const [savingName, setSavingName] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const { refreshTags } = useTagColors();
+  const audioPresets = useAudioPresets();
 
   useEffect(() => {
     fetchTags()
@@ -111,6 +115,19 @@ export default function TagsTab() {
     [selected, refreshTags]
   );
 
+  const pickAudioPreset = useCallback(
+    async (audioPresetId: string | null) => {
+      if (!selected) return;
+      // Optimistic update
+      setAllTags((prev) =>
+        prev.map((t) => (t.nameLower === selected.nameLower ? { ...t, audioPresetId } : t))
+      );
+      setSelected((prev) => (prev ? { ...prev, audioPresetId } : null));
+      await updateTag(selected.nameLower, { audioPresetId });
+    },
+    [selected]
+  );
+
   const removeSong = useCallback(
     async (song: Song) => {
       if (!selected) return;
@@ -254,6 +271,22 @@ export default function TagsTab() {
                 </div>
               </div>
 
+              {/* Audio preset */}
+              {(audioPresets.length > 0 || selected.audioPresetId) && (
+                <div className="px-4 py-3 border-b border-border space-y-2">
+                  <p className="text-xs font-medium text-fg uppercase tracking-wider">
+                    Audio Preset
+                  </p>
+                  <AudioPresetSelect
+                    id="tag-audio-preset"
+                    value={selected.audioPresetId ?? null}
+                    onChange={pickAudioPreset}
+                    presets={audioPresets}
+                    emptyLabel="Server default"
+                  />
+                </div>
+              )}
+
               {/* Song list */}
               <div className="flex-1 overflow-y-auto px-4 py-3 space-y-2">
                 <p className="text-xs font-medium text-fg uppercase tracking-wider">
@@ -0,0 +1,255 @@
+import type { AvailabilityStatus, Song } from '@alfira-bot/server/shared';
+import { LinkIcon, TrashIcon } from '@phosphor-icons/react';
+import { useEffect, useState } from 'react';
+import {
+  deleteSong,
+  getAvailabilityStatus,
+  getUnavailableSongs,
+  replaceSongUrl,
+  scanLibraryAvailability,
+} from '../../api/api';
+import { useAdminView } from '../../context/AdminViewContext';
+import { onSocketEvent } from '../../hooks/useSocket';
+import { useNotification } from '../../hooks/useNotification';
+import { apiErrorMessage } from '../../utils/api';
+import ConfirmModal from '../ConfirmModal';
+import { Button } from '../ui/Button';
+
+const POLL_MS = 2000;
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export default function UnavailableTab() {
+  const { isAdminView } = useAdminView();
+  const { notify } = useNotification();
+  const [status, setStatus] = useState<AvailabilityStatus | null>(null);
+  const [songs, setSongs] = useState<Song[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [replacing, setReplacing] = useState<{ id: string; url: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<Song | null>(null);
+
+  const running = status?.running ?? false;
+
+  useEffect(() => {
+    if (!isAdminView) return;
+    let cancelled = false;
+    getUnavailableSongs()
+      .then((data) => {
+        if (!cancelled) setSongs(data);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) notify(apiErrorMessage(err, 'Could not load songs.'), 'error', 5000);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAdminView, notify]);
+
+  // Poll while a scan is in progress; load once otherwise.
+  useEffect(() => {
+    if (!isAdminView) return;
+    let cancelled = false;
+    const load = () =>
+      getAvailabilityStatus()
+        .then((data) => {
+          if (!cancelled) setStatus(data);
+        })
+        .catch(() => {
+          // silently fail
+        });
+    void load();
+    const interval = running ? setInterval(load, POLL_MS) : null;
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [isAdminView, running]);
+
+  // Songs join the list when a scan or a failed play marks them, and leave it
+  // once they play again, are pointed at a new video, or are deleted.
+  useEffect(() => {
+    const offUpdated = onSocketEvent('songs:updated', (song: Song) => {
+      if (song.parentSongId) return;
+      setSongs((prev) => {
+        const rest = prev.filter((s) => s.id !== song.id);
+        return song.unavailableAt ? [song, ...rest] : rest;
+      });
+    });
+    const offDeleted = onSocketEvent('songs:deleted', (id: string) => {
+      setSongs((prev) => prev.filter((s) => s.id !== id));
+    });
+    return () => {
+      offUpdated();
+      offDeleted();
+    };
+  }, []);
+
+  async function handleScan() {
+    setStarting(true);
+    try {
+      setStatus(await scanLibraryAvailability());
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not start the scan.'), 'error', 5000);
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  async function handleReplace() {
+    if (!replacing) return;
+    setSaving(true);
+    try {
+      await replaceSongUrl(replacing.id, replacing.url.trim());
+      setSongs((prev) => prev.filter((s) => s.id !== replacing.id));
+      setReplacing(null);
+      notify('Song now plays the new video.', 'success');
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not replace the URL.'), 'error', 5000);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!pendingDelete) return;
+    const { id } = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await deleteSong(id);
+      setSongs((prev) => prev.filter((s) => s.id !== id));
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not delete the song.'), 'error', 5000);
+    }
+  }
+
+  if (!isAdminView) {
+    return <p className="font-mono text-xs text-muted">Unavailable songs are for admins only.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div>
+          <h3 className="font-mono text-[11px] text-muted uppercase tracking-wider">
+            Availability Scan
+          </h3>
+          <p className="font-mono text-[11px] text-muted mt-0.5">
+            Videos get taken down or made private. Songs that fail to play are checked and marked,
+            and the whole library is re-checked in the background. Marked songs are skipped in the
+            queue until they play again.
+          </p>
+        </div>
+
+        <p className="font-mono text-[11px] text-fg">
+          {status === null
+            ? '…'
+            : running
+              ? `Checking ${status.done} of ${status.total} songs`
+              : status.lastCheckedAt
+                ? `Last checked ${formatDate(status.lastCheckedAt)}.`
+                : 'The library has not been checked yet.'}
+        </p>
+
+        <div className="flex justify-end">
+          <Button variant="primary" onClick={handleScan} disabled={running || starting}>
+            {running ? 'Scanning…' : 'Scan Now'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="border-t border-muted/20 my-4" />
+
+      <div className="space-y-2">
+        <h3 className="font-mono text-[11px] text-muted uppercase tracking-wider">
+          Unavailable Songs
+        </h3>
+
+        {loading ? (
+          <div className="skeleton h-9 w-full rounded" />
+        ) : songs.length === 0 ? (
+          <p className="font-mono text-xs text-muted">Every song in the library plays.</p>
+        ) : (
+          <ul className="border border-border rounded-md bg-elevated divide-y divide-border">
+            {songs.map((song) => (
+              <li key={song.id} className="px-3 py-2 space-y-2">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-body text-sm text-fg truncate">
+                      {song.nickname || song.title}
+                    </p>
+                    <p className="font-mono text-[11px] text-muted truncate">
+                      {song.unavailableReason ?? 'Does not load'}
+                      {song.unavailableAt && ` · since ${formatDate(song.unavailableAt)}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="inherit"
+                    size="icon"
+                    surface="surface"
+                    onClick={() =>
+                      setReplacing(replacing?.id === song.id ? null : { id: song.id, url: '' })
+                    }
+                    title="Replace URL"
+                    className={replacing?.id === song.id ? 'pressed text-accent' : ''}
+                  >
+                    <LinkIcon size={16} weight="duotone" />
+                  </Button>
+                  <Button
+                    variant="inherit"
+                    size="icon"
+                    surface="surface"
+                    onClick={() => setPendingDelete(song)}
+                    title="Delete song"
+                    className="hover:text-danger"
+                  >
+                    <TrashIcon size={16} weight="duotone" />
+                  </Button>
+                </div>
+
+                {replacing?.id === song.id && (
+                  <div className="flex gap-2">
+                    <input
+                      type="url"
+                      value={replacing.url}
+                      onChange={(e) => setReplacing({ id: song.id, url: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && replacing.url.trim()) void handleReplace();
+                      }}
+                      placeholder="New YouTube URL"
+                      className="input flex-1"
+                      aria-label="New YouTube URL"
+                    />
+                    <Button
+                      variant="primary"
+                      onClick={handleReplace}
+                      disabled={saving || !replacing.url.trim()}
+                    >
+                      {saving ? 'Saving…' : 'Replace'}
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {pendingDelete && (
+        <ConfirmModal
+          title="Delete Song"
+          message={`Delete "${pendingDelete.nickname || pendingDelete.title}" from the library? Its segments go with it.`}
+          confirmLabel="Delete"
+          onConfirm={handleDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+    </div>
+  );
+}
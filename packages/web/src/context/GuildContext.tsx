@@ -0,0 +1,76 @@
+import type { UserGuild } from '@alfira-bot/server/shared';
+import { setActiveGuild } from '@alfira-bot/server/shared/api';
+import type React from 'react';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { setSocketGuild } from '../hooks/useSocket';
+import { useAuth } from './AuthContext';
+
+const STORAGE_KEY = 'alfira-guild';
+
+interface GuildContextValue {
+  /** Configured guilds the user shares with the bot. */
+  guilds: UserGuild[];
+  /** The guild whose player and audio settings the UI controls. */
+  guild: UserGuild | null;
+  selectGuild: (guildId: string) => void;
+}
+
+const GuildContext = createContext<GuildContextValue | null>(null);
+
+export function GuildProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [selectedId, setSelectedId] = useState<string | null>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem(STORAGE_KEY);
+    }
+    return null;
+  });
+
+  const guilds = useMemo(() => user?.guilds ?? [], [user?.guilds]);
+
+  // Fall back to the first guild when nothing is stored or the user has
+  // since left the stored one.
+  const guild = guilds.find((g) => g.id === selectedId) ?? guilds[0] ?? null;
+  const guildId = guild?.id ?? null;
+
+  // Point the API layer and the socket at the guild whenever it changes. A
+  // layout effect runs before any child's regular effects, so their first
+  // fetch (e.g. PlayerProvider's) already talks to the right guild.
+  useLayoutEffect(() => {
+    setActiveGuild(guildId);
+    setSocketGuild(guildId);
+  }, [guildId]);
+
+  // Persist to localStorage when the selection changes
+  useEffect(() => {
+    if (guildId) {
+      localStorage.setItem(STORAGE_KEY, guildId);
+    }
+  }, [guildId]);
+
+  const selectGuild = useCallback((id: string) => {
+    setSelectedId(id);
+  }, []);
+
+  return (
+    <GuildContext
+      value={useMemo(() => ({ guilds, guild, selectGuild }), [guilds, guild, selectGuild])}
+    >
+      {children}
+    </GuildContext>
+  );
+}
+
+export function useGuild(): GuildContextValue {
+  const ctx = useContext(GuildContext);
+  if (!ctx) throw new Error('useGuild must be used inside GuildProvider');
+  return ctx;
+}
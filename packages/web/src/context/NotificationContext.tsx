@@ -17,12 +17,24 @@ import {
 // from nested hooks.
 // ---------------------------------------------------------------------------
 
+/** A button on the toast, e.g. "Undo". */
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface Notification {
   message: string;
   type: 'success' | 'error';
+  action?: NotificationAction;
 }
 
-export type NotifyFn = (message: string, type: 'success' | 'error', ms?: number) => void;
+export type NotifyFn = (
+  message: string,
+  type: 'success' | 'error',
+  ms?: number,
+  action?: NotificationAction
+) => void;
 
 interface NotificationContextValue {
   notification: Notification | null;
@@ -44,19 +56,22 @@ export function NotificationProvider({ children }: { children: React.ReactNode }
     };
   }, []);
 
-  const notify = useCallback((message: string, type: 'success' | 'error', ms = 3000) => {
-    // Clear any existing timeout to prevent race conditions
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-    }
+  const notify = useCallback(
+    (message: string, type: 'success' | 'error', ms = 3000, action?: NotificationAction) => {
+      // Clear any existing timeout to prevent race conditions
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+      }
 
-    setNotification({ message, type });
+      setNotification({ message, type, action });
 
-    timeoutRef.current = setTimeout(() => {
-      setNotification(null);
-      timeoutRef.current = null;
-    }, ms);
-  }, []);
+      timeoutRef.current = setTimeout(() => {
+        setNotification(null);
+        timeoutRef.current = null;
+      }, ms);
+    },
+    []
+  );
 
   return (
     <NotificationContext value={useMemo(() => ({ notification, notify }), [notification, notify])}>
@@ -3,8 +3,13 @@ import {
   clearQueue,
   fetchQueueState,
   leaveVoice,
+  previousTrack,
   seek as seekTrack,
+  setAutoplay as setAutoplayEnabled,
+  setFairQueue as setFairQueueEnabled,
   setLoopMode,
+  setMasterVolume,
+  setSmartShuffle as setSmartShuffleEnabled,
   shuffleQueue,
   skipTrack,
   togglePause,
@@ -14,6 +19,7 @@ import type React from 'react';
 import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 import { useProgressBar } from '../hooks/useProgressBar';
 import { disposeSocket, onSocketEvent, useConnectionStatus, useSocket } from '../hooks/useSocket';
+import { useGuild } from './GuildContext';
 
 // ---------------------------------------------------------------------------
 // Default empty state — used before the first fetch completes.
@@ -21,6 +27,7 @@ import { disposeSocket, onSocketEvent, useConnectionStatus, useSocket } from '..
 const EMPTY_STATE: QueueState = {
   isPlaying: false,
   isPaused: false,
+  pauseReason: null,
   isConnectedToVoice: false,
   loopMode: 'off',
   isShuffled: false,
@@ -29,6 +36,14 @@ const EMPTY_STATE: QueueState = {
   queue: [],
   trackStartedAt: null,
   nextTrack: null,
+  autoplay: false,
+  fairQueue: false,
+  smartShuffle: false,
+  playbackRate: 1,
+  masterVolume: 100,
+  sleepTimer: null,
+  stopAfterTracks: null,
+  savedSession: null,
   compressorSettings: null,
 };
 
@@ -45,11 +60,20 @@ interface PlayerContextValue {
   setOverrideElapsed: (elapsed: number | undefined) => void;
   // Actions — each calls the API; state updates arrive via real-time events.
   skip: () => Promise<void>;
+  /** Replay the previous track, or restart the current one if it is a few seconds in. */
+  previous: () => Promise<void>;
   /** Stop playback, clear the queue, and disconnect the bot from voice. */
   leave: () => Promise<void>;
   pause: () => Promise<void>;
   clear: () => Promise<void>;
   setLoop: (mode: LoopMode) => Promise<void>;
+  setAutoplay: (enabled: boolean) => Promise<void>;
+  /** Play Up Next round-robin by requester (admin only). */
+  setFairQueue: (enabled: boolean) => Promise<void>;
+  /** Keep songs by the same artist, album or tag apart when shuffling (admin only). */
+  setSmartShuffle: (enabled: boolean) => Promise<void>;
+  /** Set the guild's master volume, in percent (0 to 200). */
+  setVolume: (volume: number) => Promise<void>;
   shuffle: () => Promise<void>;
   unshuffle: () => Promise<void>;
   seek: (positionMs: number) => Promise<void>;
@@ -82,6 +106,7 @@ export function PlayerProvider({ children }: { children: React.ReactNode }) {
   const [state, setState] = useState<QueueState>(EMPTY_STATE);
   const [loading, setLoading] = useState(true);
   const [overrideElapsed, setOverrideElapsed] = useState<number | undefined>(undefined);
+  const { guild } = useGuild();
   // Initialize the WebSocket connection (singleton, safe to call on every render).
   useSocket();
 
@@ -115,9 +140,6 @@ export function PlayerProvider({ children }: { children: React.ReactNode }) {
   // player:update events keep the state in sync without polling.
   // ---------------------------------------------------------------------------
   useEffect(() => {
-    // Fetch immediately when the context mounts.
-    refetch();
-
     const handlePlayerUpdate = (data: QueueState) => {
       setState(data);
       // Mark loading as false on the first real-time update too, in case
@@ -130,7 +152,17 @@ export function PlayerProvider({ children }: { children: React.ReactNode }) {
     return () => {
       offPlayerUpdate();
     };
-  }, [refetch]);
+  }, []);
+
+  // Fetch immediately on mount and whenever the selected guild changes. The
+  // previous guild's state is cleared first so it never flashes up as the
+  // new guild's.
+  // biome-ignore lint/correctness/useExhaustiveDependencies: guild change must trigger a refetch; the API layer already points at the new guild
+  useEffect(() => {
+    setState(EMPTY_STATE);
+    setLoading(true);
+    refetch();
+  }, [guild?.id, refetch]);
 
   // Re-sync via REST whenever the WebSocket reconnects.
   const connectionStatus = useConnectionStatus();
@@ -158,6 +190,10 @@ export function PlayerProvider({ children }: { children: React.ReactNode }) {
     await skipTrack();
   }, []);
 
+  const previous = useCallback(async () => {
+    await previousTrack();
+  }, []);
+
   const leave = useCallback(async () => {
     await leaveVoice();
   }, []);
@@ -174,6 +210,22 @@ export function PlayerProvider({ children }: { children: React.ReactNode }) {
     await setLoopMode(mode);
   }, []);
 
+  const setAutoplay = useCallback(async (enabled: boolean) => {
+    await setAutoplayEnabled(enabled);
+  }, []);
+
+  const setFairQueue = useCallback(async (enabled: boolean) => {
+    await setFairQueueEnabled(enabled);
+  }, []);
+
+  const setSmartShuffle = useCallback(async (enabled: boolean) => {
+    await setSmartShuffleEnabled(enabled);
+  }, []);
+
+  const setVolume = useCallback(async (volume: number) => {
+    await setMasterVolume(volume);
+  }, []);
+
   const shuffle = useCallback(async () => {
     await shuffleQueue();
   }, []);
@@ -194,17 +246,39 @@ export function PlayerProvider({ children }: { children: React.ReactNode }) {
       state,
       loading,
       skip,
+      previous,
       leave,
       pause,
       clear,
       setLoop,
+      setAutoplay,
+      setFairQueue,
+      setSmartShuffle,
+      setVolume,
       shuffle,
       unshuffle,
       seek,
       refetch,
       setOverrideElapsed,
     }),
-    [state, loading, skip, leave, pause, clear, setLoop, shuffle, unshuffle, seek, refetch]
+    [
+      state,
+      loading,
+      skip,
+      previous,
+      leave,
+      pause,
+      clear,
+      setLoop,
+      setAutoplay,
+      setFairQueue,
+      setSmartShuffle,
+      setVolume,
+      shuffle,
+      unshuffle,
+      seek,
+      refetch,
+    ]
   );
 
   return (
@@ -0,0 +1,33 @@
+import type { AudioPreset } from '@alfira-bot/server/shared';
+import { useEffect, useState } from 'react';
+import { getAudioPresets } from '../api/api';
+import { useGuild } from '../context/GuildContext';
+
+/**
+ * The selected guild's audio presets, built-in ones first, for attaching one
+ * to a song, playlist or tag. Presets are admin settings, so the list stays
+ * empty unless the user is an admin of the guild.
+ */
+export function useAudioPresets(): AudioPreset[] {
+  const { guild } = useGuild();
+  const [presets, setPresets] = useState<AudioPreset[]>([]);
+
+  const guildId = guild?.isAdmin ? guild.id : undefined;
+  useEffect(() => {
+    setPresets([]);
+    if (!guildId) return;
+    let cancelled = false;
+    getAudioPresets()
+      .then((data) => {
+        if (!cancelled) setPresets(data);
+      })
+      .catch((err: unknown) => {
+        console.error('Failed to load audio presets:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [guildId]);
+
+  return presets;
+}
@@ -4,6 +4,7 @@
 // nested hooks wouldn't appear.
 export {
   type Notification,
+  type NotificationAction,
   type NotifyFn,
   useNotification,
 } from '../context/NotificationContext';
@@ -52,13 +52,15 @@ export function useProgressBar(
   const isPlaying = !!state.currentSong && state.isPlaying && !state.isPaused;
   const isPaused = state.isPaused;
   const trackStartedAt = state.trackStartedAt;
+  // Track time per wall-clock time; the timescale filter can speed playback up or down.
+  const playbackRate = state.playbackRate;
 
   useEffect(() => {
     // When overrideElapsed is provided (after a seek), reset effectiveStart
     // so the rAF loop picks up the new position immediately.
     if (overrideElapsed !== undefined) {
-      accumulatedMsRef.current = overrideElapsed * 1000;
-      effectiveStartRef.current = Date.now() - overrideElapsed * 1000;
+      accumulatedMsRef.current = (overrideElapsed * 1000) / playbackRate;
+      effectiveStartRef.current = Date.now() - (overrideElapsed * 1000) / playbackRate;
     }
 
     const prevSongId = prevSongIdRef.current;
@@ -76,7 +78,9 @@ export function useProgressBar(
       // overrideElapsed — the song must have been restarted (e.g. play again
       // after a seek). Clear the override so we seed from the fresh
       // trackStartedAt instead.
-      const elapsedFromTrackStarted = trackStartedAt ? (Date.now() - trackStartedAt) / 1000 : 0;
+      const elapsedFromTrackStarted = trackStartedAt
+        ? ((Date.now() - trackStartedAt) * playbackRate) / 1000
+        : 0;
       if (elapsedFromTrackStarted < overrideElapsed / 2) {
         accumulatedMsRef.current = 0;
         effectiveStartRef.current = 0;
@@ -102,7 +106,9 @@ export function useProgressBar(
       if (hasSong && isPaused) {
         accumulatedMsRef.current =
           effectiveStartRef.current > 0 ? Date.now() - effectiveStartRef.current : 0;
-        setElapsed(Math.min(Math.round(accumulatedMsRef.current / 1000), duration));
+        setElapsed(
+          Math.min(Math.round((accumulatedMsRef.current * playbackRate) / 1000), duration)
+        );
       }
 
       return;
@@ -121,10 +127,10 @@ export function useProgressBar(
       // New song — seed from server timestamp
       const seed = Math.max(
         0,
-        Math.min(Math.floor((Date.now() - trackStartedAt) / 1000), duration)
+        Math.min(Math.floor(((Date.now() - trackStartedAt) * playbackRate) / 1000), duration)
       );
       setElapsed(seed);
-      effectiveStart = Date.now() - seed * 1000;
+      effectiveStart = Date.now() - (seed * 1000) / playbackRate;
     } else {
       // Fallback: start from 0
       setElapsed(0);
@@ -136,7 +142,7 @@ export function useProgressBar(
     // rAF loop — directly sets style.width on registered progress bars AND
     // syncs range input values so the thumb glides at rAF speed, not 1-sec intervals.
     const tick = () => {
-      const elapsedMs = Date.now() - effectiveStart;
+      const elapsedMs = (Date.now() - effectiveStart) * playbackRate;
       const pct = Math.min((elapsedMs / (duration * 1000)) * 100, 100);
       if (pct >= 100) return;
       for (const ref of progressBars.current) {
@@ -153,7 +159,7 @@ export function useProgressBar(
 
     // 1-sec interval — updates elapsed React state for time text only
     intervalIdRef.current = setInterval(() => {
-      const sec = Math.floor((Date.now() - effectiveStart) / 1000);
+      const sec = Math.floor(((Date.now() - effectiveStart) * playbackRate) / 1000);
       setElapsed(Math.min(Math.max(sec, 0), duration));
     }, 1000);
 
@@ -169,6 +175,7 @@ export function useProgressBar(
     isPlaying,
     isPaused,
     trackStartedAt,
+    playbackRate,
     overrideElapsed,
     setOverrideElapsed,
   ]);
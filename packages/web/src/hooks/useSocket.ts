@@ -9,6 +9,9 @@ import { useSyncExternalStore } from 'react';
 //
 // Bun's native WebSocket has no built-in reconnection, so we implement
 // exponential backoff manually.
+//
+// The server sends player updates for one guild per connection, so the
+// socket is opened with ?guildId= and reopened when the guild changes.
 // ---------------------------------------------------------------------------
 
 type ConnectionStatus = 'connected' | 'disconnected' | 'reconnecting';
@@ -16,6 +19,7 @@ type ConnectionStatus = 'connected' | 'disconnected' | 'reconnecting';
 let ws: WebSocket | null = null;
 let connectionStatus: ConnectionStatus = 'disconnected';
 let reconnectAttempt = 0;
+let socketGuildId: string | null = null;
 // biome-ignore lint: internal storage must hold callbacks of varying types
 const eventListeners = new Map<string, Set<any>>();
 const statusListeners = new Set<() => void>();
@@ -40,23 +44,27 @@ function scheduleReconnect() {
 
 function connect() {
   const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-  ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  const params = new URLSearchParams({ guildId: socketGuildId ?? '' });
+  const socket = new WebSocket(`${protocol}//${window.location.host}/ws?${params}`);
+  ws = socket;
 
-  ws.addEventListener('open', () => {
+  socket.addEventListener('open', () => {
     setStatus('connected');
     reconnectAttempt = 0;
   });
 
-  ws.addEventListener('close', () => {
+  socket.addEventListener('close', () => {
+    // A socket replaced by setSocketGuild() or disposeSocket() stays closed.
+    if (ws !== socket) return;
     setStatus('disconnected');
     scheduleReconnect();
   });
 
-  ws.addEventListener('error', () => {
+  socket.addEventListener('error', () => {
     // error always precedes close, so we just let close handle reconnect
   });
 
-  ws.addEventListener('message', (event) => {
+  socket.addEventListener('message', (event) => {
     try {
       const { event: eventName, data } = JSON.parse(event.data as string) as {
         event: string;
@@ -97,8 +105,23 @@ export function useConnectionStatus(): ConnectionStatus {
 
 export function disposeSocket(): void {
   if (ws) {
-    ws.close();
+    const socket = ws;
     ws = null;
+    socket.close();
+  }
+}
+
+/**
+ * Point the socket at another guild's player. An open connection is replaced
+ * immediately; otherwise the guild is used on the next connect.
+ */
+export function setSocketGuild(guildId: string | null): void {
+  if (socketGuildId === guildId) return;
+  socketGuildId = guildId;
+  if (ws) {
+    disposeSocket();
+    reconnectAttempt = 0;
+    connect();
   }
 }
 
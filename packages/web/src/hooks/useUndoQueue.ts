@@ -0,0 +1,33 @@
+import { useCallback } from 'react';
+import { undoQueueChange } from '../api/api';
+import { apiErrorMessage } from '../utils/api';
+import { useNotification } from './useNotification';
+
+// Long enough to notice a misclick and reach the button.
+const UNDO_MS = 8000;
+
+/**
+ * Toast for queue changes that throw the old queue away (clear, override,
+ * play-from-song), with an Undo button that brings it back.
+ */
+export function useUndoQueue() {
+  const { notify } = useNotification();
+
+  const undo = useCallback(async () => {
+    try {
+      await undoQueueChange();
+      notify('Queue restored', 'success');
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not undo.'), 'error', 5000);
+    }
+  }, [notify]);
+
+  const notifyUndoable = useCallback(
+    (message: string) => {
+      notify(message, 'success', UNDO_MS, { label: 'Undo', onClick: () => void undo() });
+    },
+    [notify, undo]
+  );
+
+  return { notifyUndoable };
+}
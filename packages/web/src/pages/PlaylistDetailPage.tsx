@@ -2,6 +2,7 @@ import type { Playlist, PlaylistDetail, Song } from '@alfira-bot/server/shared';
 import {
   BombIcon,
   CaretLeftIcon,
+  CheckIcon,
   GhostIcon,
   LockIcon,
   LockOpenIcon,
@@ -10,6 +11,7 @@ import {
   PlayCircleIcon,
   PlayIcon,
   PlusCircleIcon,
+  SlidersHorizontalIcon,
 } from '@phosphor-icons/react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
@@ -18,6 +20,7 @@ import {
   getPlaylistPage,
   removeSongFromPlaylist,
   renamePlaylist,
+  setPlaylistAudioPreset,
   startPlayback,
   togglePlaylistVisibility,
 } from '../api/api';
@@ -34,8 +37,10 @@ import { useAdminView } from '../context/AdminViewContext';
 import { useAuth } from '../context/AuthContext';
 import { usePlayerState } from '../context/PlayerContext';
 import { useAddToQueue } from '../hooks/useAddToQueue';
+import { useAudioPresets } from '../hooks/useAudioPresets';
 import { useNotification } from '../hooks/useNotification';
 import { onSocketEvent } from '../hooks/useSocket';
+import { useUndoQueue } from '../hooks/useUndoQueue';
 import { apiErrorMessage } from '../utils/api';
 
 const ITEMS_PER_PAGE = 24;
@@ -56,6 +61,8 @@ export default function PlaylistDetailPage() {
   const [playingSongId, setPlayingSongId] = useState<string | null>(null);
   const { handleAddToQueue, notification } = useAddToQueue();
   const { notify } = useNotification();
+  const { notifyUndoable } = useUndoQueue();
+  const audioPresets = useAudioPresets();
 
   const isOwner = user?.discordId === playlistDetail?.createdBy;
   const canEdit = isAdminView || isOwner;
@@ -229,6 +236,21 @@ export default function PlaylistDetailPage() {
     }
   };
 
+  const handleSetAudioPreset = async (presetId: string) => {
+    if (!playlistDetail) return;
+    try {
+      const updated = await setPlaylistAudioPreset(
+        playlistDetail.id,
+        presetId === 'none' ? null : presetId
+      );
+      setPlaylistDetail((p) => (p ? { ...p, audioPresetId: updated.audioPresetId } : p));
+      const preset = audioPresets.find((ap) => ap.id === updated.audioPresetId);
+      notify(preset ? `Audio preset set to "${preset.name}"` : 'Audio preset removed', 'success');
+    } catch (err: unknown) {
+      notify(apiErrorMessage(err, 'Could not set the audio preset.'), 'error', 5000);
+    }
+  };
+
   const handlePlayFromSong = useCallback(
     async (
       songId: string,
@@ -244,6 +266,7 @@ export default function PlaylistDetailPage() {
           loop: queueState.loopMode,
           startFromSongId: songId,
         });
+        notifyUndoable('Started playback');
       } catch (err: unknown) {
         if (throwErrors) {
           throw err;
@@ -253,7 +276,7 @@ export default function PlaylistDetailPage() {
         setPlayingSongId(null);
       }
     },
-    [playlistDetail, queueState.loopMode, notify]
+    [playlistDetail, queueState.loopMode, notify, notifyUndoable]
   );
 
   const handleAddPlaylistToQueue = useCallback(async () => {
@@ -310,6 +333,29 @@ export default function PlaylistDetailPage() {
             icon: <PlayCircleIcon size={14} weight="duotone" />,
             onClick: () => setShowAddSongs(true),
           } as MenuItem,
+          ...(isAdminView && audioPresets.length > 0
+            ? [
+                {
+                  id: 'audio-preset',
+                  label: 'Audio Preset',
+                  icon: <SlidersHorizontalIcon size={14} weight="duotone" />,
+                  submenu: {
+                    title: 'Audio Preset',
+                    items: [
+                      { id: 'none', label: 'None' },
+                      ...audioPresets.map((preset) => ({ id: preset.id, label: preset.name })),
+                    ].map((item) => ({
+                      ...item,
+                      icon:
+                        (playlistDetail?.audioPresetId ?? 'none') === item.id ? (
+                          <CheckIcon size={14} weight="bold" />
+                        ) : undefined,
+                    })),
+                    onSelect: (presetId: string) => void handleSetAudioPreset(presetId),
+                  },
+                } as MenuItem,
+              ]
+            : []),
           {
             id: 'delete',
             label: 'Delete',
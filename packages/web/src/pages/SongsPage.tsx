@@ -12,6 +12,7 @@ import { usePlayerState } from '../context/PlayerContext';
 import { useAddToQueue } from '../hooks/useAddToQueue';
 import { useNotification } from '../hooks/useNotification';
 import { onSocketEvent } from '../hooks/useSocket';
+import { useUndoQueue } from '../hooks/useUndoQueue';
 import { useVirtualizedInfiniteScroll } from '../hooks/useVirtualizedInfiniteScroll';
 import { apiErrorMessage } from '../utils/api';
 
@@ -30,6 +31,7 @@ export default function SongsPage() {
   const [playingId, setPlayingId] = useState<string | null>(null);
   const { handleAddToQueue, notification } = useAddToQueue();
   const { notify } = useNotification();
+  const { notifyUndoable } = useUndoQueue();
   const handleSetDeleteId = useCallback((id: string | null) => setDeleteId(id), []);
 
   // Lazy playlists fetch
@@ -113,7 +115,7 @@ export default function SongsPage() {
           loop: queueState.loopMode,
           startFromSongId: songId,
         });
-        notify('Started playback', 'success');
+        notifyUndoable('Started playback');
       } catch (err: unknown) {
         notify(
           apiErrorMessage(err, 'Could not start playback. Is the bot in a voice channel?'),
@@ -124,7 +126,7 @@ export default function SongsPage() {
         setPlayingId(null);
       }
     },
-    [queueState.loopMode, notify]
+    [queueState.loopMode, notify, notifyUndoable]
   );
 
   const isGrid = viewMode === 'grid';